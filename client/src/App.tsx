@@ -7,6 +7,9 @@ import { AuthProvider } from "@/hooks/use-auth";
 import { ProtectedRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
+import AcceptInvite from "@/pages/accept-invite";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
 import Dashboard from "@/pages/dashboard";
 import Products from "@/pages/products";
 import Orders from "@/pages/orders";
@@ -15,22 +18,31 @@ import Customers from "@/pages/customers";
 import Analytics from "@/pages/analytics";
 import Coupons from "@/pages/coupons";
 import BotCommands from "@/pages/bot-commands";
+import Inbox from "@/pages/inbox";
+import Users from "@/pages/users";
+import AuditLog from "@/pages/audit-log";
 import Settings from "@/pages/settings";
 
 function Router() {
   return (
     <Switch>
-      <ProtectedRoute path="/" component={Dashboard} />
-      <ProtectedRoute path="/dashboard" component={Dashboard} />
-      <ProtectedRoute path="/products" component={Products} />
-      <ProtectedRoute path="/orders" component={Orders} />
-      <ProtectedRoute path="/payments" component={Payments} />
-      <ProtectedRoute path="/customers" component={Customers} />
-      <ProtectedRoute path="/analytics" component={Analytics} />
-      <ProtectedRoute path="/coupons" component={Coupons} />
-      <ProtectedRoute path="/bot-commands" component={BotCommands} />
+      <ProtectedRoute path="/" component={Dashboard} permission="dashboard:read" />
+      <ProtectedRoute path="/dashboard" component={Dashboard} permission="dashboard:read" />
+      <ProtectedRoute path="/products" component={Products} permission="products:read" />
+      <ProtectedRoute path="/orders" component={Orders} permission="orders:read" />
+      <ProtectedRoute path="/payments" component={Payments} permission="payments:read" />
+      <ProtectedRoute path="/customers" component={Customers} permission="customers:read" />
+      <ProtectedRoute path="/analytics" component={Analytics} permission="analytics:read" />
+      <ProtectedRoute path="/coupons" component={Coupons} permission="coupons:read" />
+      <ProtectedRoute path="/bot-commands" component={BotCommands} permission="bot-commands:write" />
+      <ProtectedRoute path="/inbox" component={Inbox} permission="support:reply" />
+      <ProtectedRoute path="/users" component={Users} permission="users:manage" />
+      <ProtectedRoute path="/audit-log" component={AuditLog} permission="audit:read" />
       <ProtectedRoute path="/settings" component={Settings} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/accept-invite/:token" component={AcceptInvite} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password/:token" component={ResetPassword} />
       <Route component={NotFound} />
     </Switch>
   );
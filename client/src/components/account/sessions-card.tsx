@@ -0,0 +1,135 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ActiveSession } from "@shared/schema";
+import { MonitorSmartphone, LogOut } from "lucide-react";
+
+// Good enough to tell "Chrome on Windows" from "Safari on iPhone"; the full string is in the tooltip
+function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    null;
+  const platform =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+  if (!browser && !platform) return userAgent.slice(0, 60);
+  return [browser ?? "Browser", platform && `on ${platform}`].filter(Boolean).join(" ");
+}
+
+export function SessionsCard() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/sessions/${id}`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if (data.current) {
+        queryClient.setQueryData(["/api/user"], null);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: "Session ended", description: "That device has been signed out." });
+    },
+    onError: onError("Could not end session"),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/sessions");
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: "Signed out everywhere else",
+        description: `${data.revoked} other ${data.revoked === 1 ? "session was" : "sessions were"} ended.`,
+      });
+    },
+    onError: onError("Could not sign out other sessions"),
+  });
+
+  const otherSessions = sessions.filter((session) => !session.current).length;
+
+  return (
+    <Card className="bg-white shadow-sm border border-gray-200">
+      <CardHeader className="border-b border-gray-200">
+        <CardTitle className="flex items-center space-x-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          <span>My Sessions</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <p className="text-sm text-gray-600">
+          Devices currently signed in to your account. End any session you don't recognise.
+        </p>
+
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Loading sessions...</div>
+        ) : (
+          <div className="divide-y divide-gray-200 border border-gray-200 rounded">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between p-4" data-testid={`session-${session.id}`}>
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900" title={session.userAgent ?? undefined}>
+                      {describeUserAgent(session.userAgent)}
+                    </span>
+                    {session.current && (
+                      <Badge className="bg-green-100 text-green-800 border-0">This device</Badge>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {session.ipAddress ?? "Unknown IP"}
+                    {session.lastSeenAt && ` · last active ${new Date(session.lastSeenAt).toLocaleString()}`}
+                    {session.createdAt && ` · signed in ${new Date(session.createdAt).toLocaleString()}`}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => revokeMutation.mutate(session.id)}
+                  disabled={revokeMutation.isPending}
+                  data-testid={`button-revoke-session-${session.id}`}
+                >
+                  {session.current ? "Sign Out" : "End Session"}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          onClick={() => revokeOthersMutation.mutate()}
+          disabled={revokeOthersMutation.isPending || otherSessions === 0}
+          data-testid="button-revoke-other-sessions"
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          {revokeOthersMutation.isPending ? "Signing Out..." : "Log Out Everywhere Else"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
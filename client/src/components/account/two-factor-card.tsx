@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ShieldCheck, AlertTriangle, Copy } from "lucide-react";
+
+type Enrolment = { secret: string; otpauthUrl: string; qrCodeDataUrl: string };
+
+function CodeInput({ value, onChange, testId }: { value: string; onChange: (value: string) => void; testId: string }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} data-testid={testId}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export function TwoFactorCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [mode, setMode] = useState<"idle" | "regenerate" | "disable">("idle");
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const resetForm = () => {
+    setMode("idle");
+    setCode("");
+    setPassword("");
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/2fa/setup");
+      return response.json();
+    },
+    onSuccess: (data: Enrolment) => {
+      setEnrolment(data);
+      setCode("");
+    },
+    onError: onError("Setup failed"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/2fa/enable", { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/user"], data.user);
+      setEnrolment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      resetForm();
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "You will be asked for a code each time you sign in.",
+      });
+    },
+    onError: onError("Verification failed"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/2fa/recovery-codes", { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/user"], data.user);
+      setRecoveryCodes(data.recoveryCodes);
+      resetForm();
+    },
+    onError: onError("Could not create recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (data: { password: string; code: string }) => {
+      const response = await apiRequest("POST", "/api/2fa/disable", data);
+      return response.json();
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      setRecoveryCodes(null);
+      resetForm();
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "Your account is now protected by your password only.",
+      });
+    },
+    onError: onError("Could not disable two-factor authentication"),
+  });
+
+  const copyRecoveryCodes = async () => {
+    await navigator.clipboard.writeText(recoveryCodes!.join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to the clipboard." });
+  };
+
+  return (
+    <Card className="bg-white shadow-sm border border-gray-200">
+      <CardHeader className="border-b border-gray-200">
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5" />
+          <span>Two-Factor Authentication</span>
+          {user?.twoFactorEnabled && (
+            <Badge className="bg-green-100 text-green-800 border-0" data-testid="badge-two-factor-enabled">Enabled</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {user?.twoFactorRequired && !user.twoFactorEnabled && (
+          <Alert className="bg-amber-50 border-amber-200">
+            <AlertTriangle className="h-4 w-4 text-amber-600" />
+            <AlertDescription className="text-amber-800">
+              <strong>Two-Factor Authentication Required:</strong> Your role requires two-factor authentication. Set it up to continue using the dashboard.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {recoveryCodes && (
+          <div className="space-y-3" data-testid="recovery-codes">
+            <p className="text-sm text-gray-700">
+              Save these recovery codes somewhere safe. Each code signs you in once if you lose your phone. They will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 bg-gray-50 rounded p-4 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={copyRecoveryCodes} data-testid="button-copy-recovery-codes">
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button onClick={() => setRecoveryCodes(null)} data-testid="button-recovery-codes-done">
+                I've saved them
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!user?.twoFactorEnabled && !enrolment && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Protect your account with a code from an authenticator app such as Google Authenticator or 1Password in addition to your password.
+            </p>
+            <Button
+              onClick={() => setupMutation.mutate()}
+              disabled={setupMutation.isPending}
+              className="bg-blue-600 hover:bg-blue-700"
+              data-testid="button-setup-two-factor"
+            >
+              {setupMutation.isPending ? "Preparing..." : "Set Up Two-Factor Authentication"}
+            </Button>
+          </div>
+        )}
+
+        {!user?.twoFactorEnabled && enrolment && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img
+              src={enrolment.qrCodeDataUrl}
+              alt="Two-factor authentication QR code"
+              className="h-48 w-48 border border-gray-200 rounded"
+              data-testid="img-two-factor-qr"
+            />
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Can't scan? Enter this key manually</Label>
+              <div className="mt-1 font-mono text-sm text-gray-900 break-all" data-testid="two-factor-secret">
+                {enrolment.secret}
+              </div>
+            </div>
+            <CodeInput value={code} onChange={setCode} testId="input-enable-two-factor-code" />
+            <div className="flex space-x-2">
+              <Button
+                onClick={() => enableMutation.mutate(code)}
+                disabled={enableMutation.isPending || code.length !== 6}
+                className="bg-blue-600 hover:bg-blue-700"
+                data-testid="button-enable-two-factor"
+              >
+                {enableMutation.isPending ? "Verifying..." : "Enable"}
+              </Button>
+              <Button variant="outline" onClick={() => setEnrolment(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {user?.twoFactorEnabled && mode === "idle" && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600" data-testid="recovery-codes-remaining">
+              {user.recoveryCodesRemaining} recovery {user.recoveryCodesRemaining === 1 ? "code" : "codes"} left.
+            </p>
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={() => setMode("regenerate")} data-testid="button-regenerate-recovery-codes">
+                New Recovery Codes
+              </Button>
+              {!user.twoFactorRequired && (
+                <Button
+                  variant="outline"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => setMode("disable")}
+                  data-testid="button-disable-two-factor"
+                >
+                  Disable
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {user?.twoFactorEnabled && mode !== "idle" && (
+          <div className="space-y-4">
+            {mode === "disable" && (
+              <div>
+                <Label htmlFor="two-factor-password">Current Password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Enter your current password"
+                  data-testid="input-two-factor-password"
+                />
+              </div>
+            )}
+            <div>
+              <Label>Authentication Code</Label>
+              <div className="mt-1">
+                <CodeInput value={code} onChange={setCode} testId="input-manage-two-factor-code" />
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              {mode === "regenerate" ? (
+                <Button
+                  onClick={() => regenerateMutation.mutate(code)}
+                  disabled={regenerateMutation.isPending || code.length !== 6}
+                  className="bg-blue-600 hover:bg-blue-700"
+                  data-testid="button-confirm-regenerate"
+                >
+                  {regenerateMutation.isPending ? "Creating..." : "Create New Codes"}
+                </Button>
+              ) : (
+                <Button
+                  variant="destructive"
+                  onClick={() => disableMutation.mutate({ password, code })}
+                  disabled={disableMutation.isPending || code.length !== 6 || !password}
+                  data-testid="button-confirm-disable"
+                >
+                  {disableMutation.isPending ? "Disabling..." : "Disable Two-Factor Authentication"}
+                </Button>
+              )}
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
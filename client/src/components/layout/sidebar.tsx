@@ -11,18 +11,26 @@ import {
   Tags, 
   Settings, 
   User,
-  MessageSquare 
+  MessageSquare,
+  Inbox,
+  UserCog,
+  History
 } from "lucide-react";
+import { hasPermission, type Permission } from "@shared/permissions";
 
-const navigation = [
-  { name: "Dashboard", href: "/dashboard", icon: BarChart3 },
-  { name: "Products", href: "/products", icon: Package },
-  { name: "Orders", href: "/orders", icon: ShoppingBag },
-  { name: "Customers", href: "/customers", icon: Users },
-  { name: "Payments", href: "/payments", icon: CreditCard },
-  { name: "Coupons", href: "/coupons", icon: Tags },
-  { name: "Bot Commands", href: "/bot-commands", icon: MessageSquare },
-  { name: "Analytics", href: "/analytics", icon: BarChart3 },
+// Items without a permission are available to every signed-in user
+const navigation: { name: string; href: string; icon: typeof BarChart3; permission?: Permission }[] = [
+  { name: "Dashboard", href: "/dashboard", icon: BarChart3, permission: "dashboard:read" },
+  { name: "Products", href: "/products", icon: Package, permission: "products:read" },
+  { name: "Orders", href: "/orders", icon: ShoppingBag, permission: "orders:read" },
+  { name: "Customers", href: "/customers", icon: Users, permission: "customers:read" },
+  { name: "Inbox", href: "/inbox", icon: Inbox, permission: "support:reply" },
+  { name: "Payments", href: "/payments", icon: CreditCard, permission: "payments:read" },
+  { name: "Coupons", href: "/coupons", icon: Tags, permission: "coupons:read" },
+  { name: "Bot Commands", href: "/bot-commands", icon: MessageSquare, permission: "bot-commands:write" },
+  { name: "Analytics", href: "/analytics", icon: BarChart3, permission: "analytics:read" },
+  { name: "Users", href: "/users", icon: UserCog, permission: "users:manage" },
+  { name: "Audit Log", href: "/audit-log", icon: History, permission: "audit:read" },
   { name: "Settings", href: "/settings", icon: Settings },
 ];
 
@@ -48,7 +56,7 @@ export function Sidebar({ className }: SidebarProps) {
       
       {/* Navigation */}
       <nav className="mt-5 px-2 space-y-1 flex-1" data-testid="sidebar-navigation">
-        {navigation.map((item) => {
+        {navigation.filter((item) => !item.permission || hasPermission(user?.role, item.permission)).map((item) => {
           const isActive = location === item.href || (item.href === "/dashboard" && location === "/");
           const Icon = item.icon;
           
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Eye, Pencil } from "lucide-react";
+
+// Must match the mask the API puts on encrypted settings
+const MASK = "••••••••";
+
+type SecretSettingInputProps = {
+  id: string;
+  settingKey: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  testId?: string;
+};
+
+/**
+ * Input for an encrypted setting. The API only sends a masked value; saving it unchanged keeps the
+ * stored secret, "Change" clears it for a new one and "Reveal" fetches the plain value (audited).
+ */
+export function SecretSettingInput({ id, settingKey, value, onChange, placeholder, testId }: SecretSettingInputProps) {
+  const { toast } = useToast();
+  const [revealed, setRevealed] = useState(false);
+  const masked = value.startsWith(MASK);
+
+  const revealMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/settings/${settingKey}/reveal`);
+      return response.json();
+    },
+    onSuccess: (data: { value: string | null }) => {
+      onChange(data.value ?? "");
+      setRevealed(true);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not reveal value", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex space-x-2">
+      <Input
+        id={id}
+        type={revealed && !masked ? "text" : "password"}
+        value={value}
+        readOnly={masked}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        data-testid={testId}
+      />
+      {masked && (
+        <>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => revealMutation.mutate()}
+            disabled={revealMutation.isPending}
+            title="Reveal"
+            data-testid={testId && `${testId}-reveal`}
+          >
+            <Eye className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onChange("")}
+            title="Change"
+            data-testid={testId && `${testId}-change`}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
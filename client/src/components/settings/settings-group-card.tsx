@@ -0,0 +1,218 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { LucideIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SecretSettingInput } from "@/components/settings/secret-setting-input";
+import {
+  SETTING_GROUPS,
+  getSettingsInGroup,
+  validateSetting,
+  type SettingDefinition,
+  type SettingGroup,
+} from "@shared/settings";
+import type { SystemSetting } from "@shared/schema";
+
+const INPUT_TYPES: Partial<Record<SettingDefinition["type"], string>> = {
+  text: "text",
+  url: "url",
+  email: "email",
+  tel: "tel",
+  number: "text",
+};
+
+function fieldId(key: string) {
+  return `setting-${key.toLowerCase().replace(/_/g, "-")}`;
+}
+
+function isOptional(definition: SettingDefinition) {
+  return definition.schema.safeParse("").success;
+}
+
+type SettingsGroupCardProps = {
+  group: SettingGroup;
+  icon: LucideIcon;
+  settings: SystemSetting[];
+  // Extra group-specific content shown below the fields, e.g. the Telegram webhook tools
+  children?: ReactNode;
+};
+
+// Renders and saves one group of the settings registry; fields, validation and defaults all come from @shared/settings
+export function SettingsGroupCard({ group, icon: Icon, settings, children }: SettingsGroupCardProps) {
+  const { toast } = useToast();
+  const definitions = getSettingsInGroup(group);
+  const { title, description } = SETTING_GROUPS[group];
+
+  const storedValue = (definition: SettingDefinition) =>
+    settings.find((setting) => setting.key === definition.key)?.value ?? definition.default ?? "";
+
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setValues(Object.fromEntries(definitions.map((definition) => [definition.key, storedValue(definition)])));
+    setErrors({});
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (changes: { key: string; value: string }[]) => {
+      // One at a time so a rejected value doesn't leave the rest half-saved in parallel
+      for (const change of changes) {
+        await apiRequest("POST", "/api/settings", change);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: `${title} Updated`,
+        description: "Your settings have been saved successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors: Record<string, string> = {};
+    const changes: { key: string; value: string }[] = [];
+    for (const definition of definitions) {
+      const value = values[definition.key] ?? "";
+      const unchanged = value === storedValue(definition);
+      // An untouched secret is still masked; the server keeps the stored value
+      if (unchanged && definition.secret) continue;
+      const result = validateSetting(definition, value);
+      if ("error" in result) {
+        validationErrors[definition.key] = result.error;
+      } else if (!unchanged) {
+        changes.push({ key: definition.key, value: result.value });
+      }
+    }
+
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      return;
+    }
+    if (changes.length === 0) {
+      toast({ title: "No changes", description: "There is nothing new to save." });
+      return;
+    }
+    saveMutation.mutate(changes);
+  };
+
+  const setValue = (key: string, value: string) => setValues((current) => ({ ...current, [key]: value }));
+
+  const renderInput = (definition: SettingDefinition) => {
+    const id = fieldId(definition.key);
+    const value = values[definition.key] ?? "";
+
+    switch (definition.type) {
+      case "secret":
+        return (
+          <SecretSettingInput
+            id={id}
+            settingKey={definition.key}
+            value={value}
+            onChange={(newValue) => setValue(definition.key, newValue)}
+            placeholder={definition.placeholder}
+            testId={`input-${id}`}
+          />
+        );
+      case "textarea":
+        return (
+          <Textarea
+            id={id}
+            rows={3}
+            value={value}
+            onChange={(e) => setValue(definition.key, e.target.value)}
+            placeholder={definition.placeholder}
+            data-testid={`input-${id}`}
+          />
+        );
+      case "select":
+        return (
+          <select
+            id={id}
+            value={value}
+            onChange={(e) => setValue(definition.key, e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            data-testid={`select-${id}`}
+          >
+            {definition.options?.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        );
+      default:
+        return (
+          <Input
+            id={id}
+            type={INPUT_TYPES[definition.type] ?? "text"}
+            inputMode={definition.type === "number" ? "decimal" : undefined}
+            value={value}
+            onChange={(e) => setValue(definition.key, e.target.value)}
+            placeholder={definition.placeholder}
+            data-testid={`input-${id}`}
+          />
+        );
+    }
+  };
+
+  return (
+    <Card className="bg-white shadow-sm border border-gray-200">
+      <CardHeader className="border-b border-gray-200">
+        <CardTitle className="flex items-center space-x-2">
+          <Icon className="h-5 w-5" />
+          <span>{title}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600">{description}</p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {definitions.map((definition) => (
+              <div key={definition.key} className={definition.type === "textarea" ? "md:col-span-2" : undefined}>
+                <Label htmlFor={fieldId(definition.key)}>
+                  {definition.label}
+                  {isOptional(definition) && " (Optional)"}
+                </Label>
+                {renderInput(definition)}
+                {errors[definition.key] ? (
+                  <p className="mt-1 text-sm text-red-600" data-testid={`error-${fieldId(definition.key)}`}>
+                    {errors[definition.key]}
+                  </p>
+                ) : definition.help && (
+                  <p className="mt-1 text-sm text-gray-500">{definition.help}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {children}
+
+          <Button
+            type="submit"
+            disabled={saveMutation.isPending}
+            className="bg-blue-600 hover:bg-blue-700"
+            data-testid={`button-save-${group}-settings`}
+          >
+            {saveMutation.isPending ? "Saving..." : `Save ${title}`}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+type ListPaginationProps = {
+  // Plural name of the rows, e.g. "orders"
+  noun: string;
+  offset: number;
+  shown: number;
+  total: number;
+  hasPrevious: boolean;
+  hasNext: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+  testId: string;
+};
+
+// Footer of a server-paginated table, driven by usePaginatedList
+export function ListPagination({ noun, offset, shown, total, hasPrevious, hasNext, onPrevious, onNext, testId }: ListPaginationProps) {
+  return (
+    <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+      <p className="text-sm text-gray-500" data-testid={`${testId}-summary`}>
+        {total === 0 || shown === 0 ? `0 ${noun}` : `${offset + 1}-${offset + shown} of ${total} ${noun}`}
+      </p>
+      <div className="flex space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onPrevious}
+          disabled={!hasPrevious}
+          data-testid={`${testId}-previous`}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onNext}
+          disabled={!hasNext}
+          data-testid={`${testId}-next`}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -13,13 +13,20 @@ type AuthUser = {
   name: string;
   role: string;
   mustChangePassword: boolean;
+  twoFactorEnabled: boolean;
+  twoFactorRequired: boolean;
+  recoveryCodesRemaining: number;
 };
 
+// A correct password for a 2FA account only starts the login; the code finishes it
+type LoginResult = AuthUser | { twoFactorPending: true };
+
 type AuthContextType = {
   user: AuthUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<AuthUser, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  verifyTwoFactorMutation: UseMutationResult<AuthUser, Error, TwoFactorLoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<AuthUser, Error, RegisterData>;
   changePasswordMutation: UseMutationResult<void, Error, ChangePasswordData>;
@@ -30,6 +37,11 @@ type LoginData = {
   password: string;
 };
 
+type TwoFactorLoginData = {
+  code?: string;
+  recoveryCode?: string;
+};
+
 type RegisterData = {
   email: string;
   password: string;
@@ -59,6 +71,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
+    onSuccess: (result: LoginResult) => {
+      if ("twoFactorPending" in result) {
+        return;
+      }
+      queryClient.setQueryData(["/api/user"], result);
+      toast({
+        title: "Login successful",
+        description: `Welcome back, ${result.name}!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (data: TwoFactorLoginData) => {
+      const res = await apiRequest("POST", "/api/login/2fa", data);
+      return await res.json();
+    },
     onSuccess: (user: AuthUser) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
@@ -68,7 +104,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onError: (error: Error) => {
       toast({
-        title: "Login failed",
+        title: "Verification failed",
         description: error.message,
         variant: "destructive",
       });
@@ -82,6 +118,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onSuccess: (user: AuthUser) => {
       queryClient.setQueryData(["/api/user"], user);
+      queryClient.invalidateQueries({ queryKey: ["/api/setup-status"] });
       toast({
         title: "Registration successful",
         description: `Welcome to EcomBot Admin, ${user.name}!`,
@@ -147,6 +184,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        verifyTwoFactorMutation,
         logoutMutation,
         registerMutation,
         changePasswordMutation,
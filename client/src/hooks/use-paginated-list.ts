@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { DEFAULT_PAGE_SIZE, type Paginated } from "@shared/lists";
+
+// Empty values and "all" are left out of the request, so select filters can use "all" for "no filter"
+export type ListParams = Record<string, string | undefined>;
+
+// Turns the values of two date inputs into `from`/`to` params; the end date is inclusive for the user
+export function dateRangeParams(fromDate: string, toDate: string): ListParams {
+  let to: string | undefined;
+  if (toDate) {
+    const end = new Date(`${toDate}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    to = end.toISOString();
+  }
+  return {
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to,
+  };
+}
+
+/**
+ * Fetches one page of a paginated list endpoint (see @shared/lists) at a time. The endpoint only
+ * hands out a cursor for the next page, so the cursors of the pages already visited are kept to
+ * step back; changing any filter starts again from the first page.
+ */
+export function usePaginatedList<T>(endpoint: string, params: ListParams, pageSize = DEFAULT_PAGE_SIZE) {
+  const paramsKey = JSON.stringify(params);
+  const [history, setHistory] = useState<{ paramsKey: string; cursors: string[] }>({ paramsKey, cursors: [] });
+  const cursors = history.paramsKey === paramsKey ? history.cursors : [];
+  const cursor = cursors[cursors.length - 1];
+
+  const query = useQuery<Paginated<T>>({
+    // The endpoint comes first so invalidating e.g. ["/api/orders"] refreshes every page
+    queryKey: [endpoint, params, cursor ?? null],
+    queryFn: async () => {
+      const search = new URLSearchParams({ limit: String(pageSize) });
+      for (const [name, value] of Object.entries(params)) {
+        if (value && value !== "all") search.set(name, value);
+      }
+      if (cursor) search.set("cursor", cursor);
+      const response = await apiRequest("GET", `${endpoint}?${search}`);
+      return response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const nextCursor = query.data?.nextCursor;
+  return {
+    items: query.data?.items ?? [],
+    total: query.data?.total ?? 0,
+    isLoading: query.isLoading,
+    offset: cursors.length * pageSize,
+    hasPrevious: cursors.length > 0,
+    hasNext: !!nextCursor,
+    previous: () => setHistory({ paramsKey, cursors: cursors.slice(0, -1) }),
+    next: () => nextCursor && setHistory({ paramsKey, cursors: [...cursors, nextCursor] }),
+  };
+}
@@ -1,13 +1,16 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 export function ProtectedRoute({
   path,
   component: Component,
+  permission,
 }: {
   path: string;
   component: () => React.JSX.Element;
+  permission?: Permission;
 }) {
   const { user, isLoading } = useAuth();
 
@@ -29,5 +32,32 @@ export function ProtectedRoute({
     );
   }
 
+  // The API refuses everything but a password change until the temporary password is replaced
+  if (user.mustChangePassword && path !== "/settings") {
+    return (
+      <Route path={path}>
+        <Redirect to="/settings" />
+      </Route>
+    );
+  }
+
+  // Same for roles that require two-factor authentication, until the user has enrolled
+  if (user.twoFactorRequired && !user.twoFactorEnabled && path !== "/settings") {
+    return (
+      <Route path={path}>
+        <Redirect to="/settings" />
+      </Route>
+    );
+  }
+
+  // The API enforces the same permissions; this just keeps staff off pages they can't use
+  if (permission && !hasPermission(user.role, permission)) {
+    return (
+      <Route path={path}>
+        <Redirect to="/settings" />
+      </Route>
+    );
+  }
+
   return <Route path={path} component={Component} />;
 }
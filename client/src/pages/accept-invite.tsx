@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Redirect, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ShoppingCart, TriangleAlert, Loader2 } from "lucide-react";
+
+export default function AcceptInvite() {
+  const { token } = useParams<{ token: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [form, setForm] = useState({ name: "", password: "", confirmPassword: "" });
+
+  const { data: invitation, isLoading, error } = useQuery<{ email: string; name: string; role: string }>({
+    queryKey: ["/api/invitations", token],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (data: { name: string; password: string }) => {
+      const response = await apiRequest("POST", `/api/invitations/${token}/accept`, data);
+      return response.json();
+    },
+    onSuccess: (newUser) => {
+      queryClient.setQueryData(["/api/user"], newUser);
+      toast({
+        title: "Welcome aboard",
+        description: `Your account is ready, ${newUser.name}!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not accept invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.password !== form.confirmPassword) {
+      toast({
+        title: "Password mismatch",
+        description: "Password and confirmation password do not match.",
+        variant: "destructive",
+      });
+      return;
+    }
+    acceptMutation.mutate({ name: form.name || invitation?.name || "", password: form.password });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className="mx-auto h-16 w-16 bg-blue-600 rounded-full flex items-center justify-center mb-4">
+            <ShoppingCart className="text-white text-2xl h-8 w-8" />
+          </div>
+          <h2 className="text-3xl font-bold text-gray-900">EcomBot Admin</h2>
+          <p className="mt-2 text-gray-600">Telegram E-commerce Management System</p>
+        </div>
+
+        <Card className="bg-white shadow-lg border border-gray-200">
+          <CardHeader>
+            <CardTitle>Accept Invitation</CardTitle>
+            <CardDescription>
+              Choose a password to finish setting up your dashboard account
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+              </div>
+            ) : error || !invitation ? (
+              <Alert className="bg-amber-50 border-amber-200" data-testid="invite-invalid">
+                <TriangleAlert className="h-4 w-4 text-amber-600" />
+                <AlertDescription className="text-amber-800">
+                  This invitation link is invalid, has expired or was already used. Ask an administrator to send a new one.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Email Address</Label>
+                  <div className="text-sm text-gray-900" data-testid="invite-email">{invitation.email}</div>
+                  <p className="text-xs text-gray-500 capitalize">Role: {invitation.role}</p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="invite-name">Full Name</Label>
+                  <Input
+                    id="invite-name"
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder={invitation.name}
+                    data-testid="input-invite-name"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="invite-password">Password</Label>
+                  <Input
+                    id="invite-password"
+                    type="password"
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                    placeholder="Create a strong password"
+                    required
+                    minLength={8}
+                    data-testid="input-invite-password"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="invite-confirm-password">Confirm Password</Label>
+                  <Input
+                    id="invite-confirm-password"
+                    type="password"
+                    value={form.confirmPassword}
+                    onChange={(e) => setForm({ ...form, confirmPassword: e.target.value })}
+                    placeholder="Confirm your password"
+                    required
+                    data-testid="input-invite-confirm-password"
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full bg-blue-600 hover:bg-blue-700"
+                  disabled={acceptMutation.isPending}
+                  data-testid="button-accept-invite"
+                >
+                  {acceptMutation.isPending ? "Creating Account..." : "Create Account"}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
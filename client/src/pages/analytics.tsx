@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Topbar } from "@/components/layout/topbar";
@@ -6,6 +6,20 @@ import { MetricsCards } from "@/components/charts/metrics-cards";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { TrendingUp, TrendingDown, BarChart3 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { StatusSummary } from "@shared/lists";
+
+const TIME_RANGE_DAYS: Record<string, number> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+  "1y": 365
+};
+
+async function fetchSummary(endpoint: string, from?: string): Promise<StatusSummary> {
+  const response = await apiRequest("GET", from ? `${endpoint}?from=${encodeURIComponent(from)}` : endpoint);
+  return response.json();
+}
 
 export default function Analytics() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -15,64 +29,55 @@ export default function Analytics() {
     queryKey: ["/api/dashboard/metrics"],
   });
 
-  const { data: orders = [] } = useQuery({
-    queryKey: ["/api/orders"],
+  // Fixed per selected range so the summary queries keep a stable key
+  const since = useMemo(() => {
+    const days = TIME_RANGE_DAYS[timeRange] || 7;
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  }, [timeRange]);
+
+  // Counts and totals are aggregated on the server instead of downloading every order and payment
+  const { data: recentOrders } = useQuery<StatusSummary>({
+    queryKey: ["/api/orders/summary", since],
+    queryFn: () => fetchSummary("/api/orders/summary", since),
   });
 
-  const { data: payments = [] } = useQuery({
-    queryKey: ["/api/payments"],
+  const { data: recentPayments } = useQuery<StatusSummary>({
+    queryKey: ["/api/payments/summary", since],
+    queryFn: () => fetchSummary("/api/payments/summary", since),
+  });
+
+  const { data: allOrders } = useQuery<StatusSummary>({
+    queryKey: ["/api/orders/summary"],
   });
 
   // Calculate analytics data
   const getAnalyticsData = () => {
-    const now = new Date();
-    const timeRanges = {
-      "7d": 7,
-      "30d": 30,
-      "90d": 90,
-      "1y": 365
-    };
-    
-    const days = timeRanges[timeRange as keyof typeof timeRanges] || 7;
-    const cutoffDate = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
-    
-    const recentOrders = orders.filter((order: any) => 
-      new Date(order.createdAt) >= cutoffDate
-    );
-    
-    const recentPayments = payments.filter((payment: any) => 
-      new Date(payment.createdAt) >= cutoffDate
-    );
+    const totalOrders = recentOrders?.total ?? 0;
+    const paid = recentOrders?.byStatus.PAID;
+    const paidOrders = paid?.count ?? 0;
+    const totalRevenue = parseFloat(paid?.amountGhs || "0");
+    const totalPayments = recentPayments?.total ?? 0;
+    const successfulPayments = recentPayments?.byStatus.SUCCESS?.count ?? 0;
 
     return {
-      totalRevenue: recentOrders
-        .filter((order: any) => order.status === 'PAID')
-        .reduce((sum: number, order: any) => sum + parseFloat(order.totalGhs || "0"), 0),
-      totalOrders: recentOrders.length,
-      paidOrders: recentOrders.filter((order: any) => order.status === 'PAID').length,
-      conversionRate: recentOrders.length > 0 
-        ? (recentOrders.filter((order: any) => order.status === 'PAID').length / recentOrders.length * 100)
-        : 0,
-      avgOrderValue: recentOrders.length > 0
-        ? recentOrders
-            .filter((order: any) => order.status === 'PAID')
-            .reduce((sum: number, order: any) => sum + parseFloat(order.totalGhs || "0"), 0) / 
-          recentOrders.filter((order: any) => order.status === 'PAID').length
-        : 0,
-      paymentSuccessRate: recentPayments.length > 0
-        ? (recentPayments.filter((payment: any) => payment.status === 'SUCCESS').length / recentPayments.length * 100)
-        : 0
+      totalRevenue,
+      totalOrders,
+      paidOrders,
+      conversionRate: totalOrders > 0 ? (paidOrders / totalOrders * 100) : 0,
+      avgOrderValue: paidOrders > 0 ? totalRevenue / paidOrders : 0,
+      paymentSuccessRate: totalPayments > 0 ? (successfulPayments / totalPayments * 100) : 0
     };
   };
 
   const analyticsData = getAnalyticsData();
 
+  const statusCount = (status: string) => allOrders?.byStatus[status]?.count ?? 0;
   const orderStatusBreakdown = [
-    { status: 'PAID', count: orders.filter((o: any) => o.status === 'PAID').length, color: 'bg-green-100 text-green-800' },
-    { status: 'PENDING', count: orders.filter((o: any) => o.status === 'PENDING').length, color: 'bg-yellow-100 text-yellow-800' },
-    { status: 'SHIPPED', count: orders.filter((o: any) => o.status === 'SHIPPED').length, color: 'bg-blue-100 text-blue-800' },
-    { status: 'DELIVERED', count: orders.filter((o: any) => o.status === 'DELIVERED').length, color: 'bg-purple-100 text-purple-800' },
-    { status: 'CANCELLED', count: orders.filter((o: any) => o.status === 'CANCELLED').length, color: 'bg-red-100 text-red-800' },
+    { status: 'PAID', count: statusCount('PAID'), color: 'bg-green-100 text-green-800' },
+    { status: 'PENDING', count: statusCount('PENDING'), color: 'bg-yellow-100 text-yellow-800' },
+    { status: 'SHIPPED', count: statusCount('SHIPPED'), color: 'bg-blue-100 text-blue-800' },
+    { status: 'DELIVERED', count: statusCount('DELIVERED'), color: 'bg-purple-100 text-purple-800' },
+    { status: 'CANCELLED', count: statusCount('CANCELLED'), color: 'bg-red-100 text-red-800' },
   ];
 
   return (
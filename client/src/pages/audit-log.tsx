@@ -0,0 +1,370 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Topbar } from "@/components/layout/topbar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { Search, History, Eye, ChevronLeft, ChevronRight } from "lucide-react";
+
+const PAGE_SIZE = 50;
+
+const ENTITY_TYPES: Record<string, string> = {
+  order: "Orders",
+  product: "Products",
+  category: "Categories",
+  coupon: "Coupons",
+  system_setting: "Settings",
+  reconciliation: "Reconciliation",
+  telegram_webhook: "Telegram webhook",
+  bot_command: "Bot commands",
+  admin_user: "Dashboard users",
+  admin_invitation: "Invitations",
+  support_ticket: "Support tickets",
+};
+
+// Bookkeeping columns that change on every update and only add noise to a diff
+const IGNORED_FIELDS = ["updatedAt", "createdAt"];
+
+function changedFields(log: any): string[] {
+  const oldValues = log.oldValues ?? {};
+  const newValues = log.newValues ?? {};
+  const fields = Array.from(new Set([...Object.keys(oldValues), ...Object.keys(newValues)]));
+  return fields.filter((field) =>
+    !IGNORED_FIELDS.includes(field) &&
+    JSON.stringify(oldValues[field]) !== JSON.stringify(newValues[field])
+  );
+}
+
+function formatValue(value: any) {
+  if (value === undefined || value === null || value === "") {
+    return "—";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function getActionColor(action: string) {
+  if (action.endsWith(".delete") || action.endsWith(".revoke") || action.endsWith("_failed")) {
+    return "bg-red-100 text-red-800";
+  }
+  if (action.endsWith(".create")) {
+    return "bg-green-100 text-green-800";
+  }
+  return "bg-blue-100 text-blue-800";
+}
+
+export default function AuditLog() {
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [entityTypeFilter, setEntityTypeFilter] = useState("all");
+  const [userFilter, setUserFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [selectedLog, setSelectedLog] = useState<any>(null);
+
+  const filters = { search: searchQuery, entityType: entityTypeFilter, adminUserId: userFilter, fromDate, toDate, offset };
+
+  const { data, isLoading } = useQuery<{ logs: any[]; total: number }>({
+    queryKey: ["/api/audit-logs", filters],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (searchQuery.trim()) params.set("search", searchQuery.trim());
+      if (entityTypeFilter !== "all") params.set("entityType", entityTypeFilter);
+      if (userFilter !== "all") params.set("adminUserId", userFilter);
+      if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+      if (toDate) {
+        // The end date is inclusive for the user, so ask for everything before the next midnight
+        const end = new Date(`${toDate}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        params.set("to", end.toISOString());
+      }
+      const response = await apiRequest("GET", `/api/audit-logs?${params}`);
+      return response.json();
+    },
+  });
+
+  const { data: adminUsers = [] } = useQuery<any[]>({
+    queryKey: ["/api/admin-users"],
+  });
+
+  const logs = data?.logs ?? [];
+  const total = data?.total ?? 0;
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setOffset(0);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Mobile sidebar */}
+      <div
+        className={`fixed inset-0 z-50 lg:hidden ${sidebarOpen ? 'block' : 'hidden'}`}
+        onClick={() => setSidebarOpen(false)}
+      >
+        <div className="fixed inset-y-0 left-0 z-50 w-64">
+          <Sidebar />
+        </div>
+      </div>
+
+      {/* Desktop sidebar */}
+      <div className="hidden lg:fixed lg:inset-y-0 lg:left-0 lg:z-50 lg:block lg:w-64">
+        <Sidebar />
+      </div>
+
+      {/* Main content */}
+      <div className="lg:pl-64">
+        <Topbar onToggleSidebar={() => setSidebarOpen(!sidebarOpen)} />
+
+        <main className="py-8 px-4 sm:px-6 lg:px-8" data-testid="audit-log-content">
+          <div className="mb-8">
+            <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+            <p className="mt-2 text-gray-600">Who changed what in the dashboard, and when</p>
+          </div>
+
+          {/* Search and Filters */}
+          <Card className="bg-white border border-gray-200 mb-6">
+            <div className="p-6 grid grid-cols-1 md:grid-cols-5 gap-4">
+              <div className="md:col-span-2">
+                <Label className="block text-sm font-medium text-gray-700 mb-1">Search</Label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                  <Input
+                    type="text"
+                    placeholder="Order number, product name, setting key..."
+                    value={searchQuery}
+                    onChange={(e) => updateFilter(setSearchQuery)(e.target.value)}
+                    className="pl-10"
+                    data-testid="input-search-audit"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label className="block text-sm font-medium text-gray-700 mb-1">Area</Label>
+                <Select value={entityTypeFilter} onValueChange={updateFilter(setEntityTypeFilter)}>
+                  <SelectTrigger data-testid="select-audit-entity-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Everything</SelectItem>
+                    {Object.entries(ENTITY_TYPES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="block text-sm font-medium text-gray-700 mb-1">User</Label>
+                <Select value={userFilter} onValueChange={updateFilter(setUserFilter)}>
+                  <SelectTrigger data-testid="select-audit-user">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All users</SelectItem>
+                    {adminUsers.map((admin: any) => (
+                      <SelectItem key={admin.id} value={admin.id}>{admin.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label className="block text-sm font-medium text-gray-700 mb-1">From</Label>
+                  <Input
+                    type="date"
+                    value={fromDate}
+                    onChange={(e) => updateFilter(setFromDate)(e.target.value)}
+                    data-testid="input-audit-from"
+                  />
+                </div>
+                <div>
+                  <Label className="block text-sm font-medium text-gray-700 mb-1">To</Label>
+                  <Input
+                    type="date"
+                    value={toDate}
+                    onChange={(e) => updateFilter(setToDate)(e.target.value)}
+                    data-testid="input-audit-to"
+                  />
+                </div>
+              </div>
+            </div>
+          </Card>
+
+          {/* Audit Log Table */}
+          <Card className="bg-white shadow-sm border border-gray-200">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      When
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      User
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Action
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Changes
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      IP Address
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Details
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {isLoading ? (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-12 text-center">
+                        <div className="flex items-center justify-center">
+                          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                          <span className="ml-2 text-gray-500">Loading audit log...</span>
+                        </div>
+                      </td>
+                    </tr>
+                  ) : logs.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-12 text-center">
+                        <History className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                        <p className="text-gray-500 text-lg">No audit entries found</p>
+                        <p className="text-gray-400 text-sm">Try adjusting your filters</p>
+                      </td>
+                    </tr>
+                  ) : (
+                    logs.map((log: any) => {
+                      const fields = changedFields(log);
+                      return (
+                        <tr key={log.id} className="hover:bg-gray-50" data-testid={`audit-row-${log.id}`}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {new Date(log.createdAt).toLocaleString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {log.adminUser?.name ?? "System"}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <Badge className={`${getActionColor(log.action)} border-0`}>{log.action}</Badge>
+                            <div className="text-xs text-gray-500 mt-1 font-mono">{log.entityId}</div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-700">
+                            {log.oldValues && Object.keys(log.oldValues).length > 0 && fields.length > 0
+                              ? fields.slice(0, 3).map((field) => (
+                                  <div key={field}>
+                                    <span className="font-medium">{field}</span>: {formatValue(log.oldValues[field])} → {formatValue(log.newValues?.[field])}
+                                  </div>
+                                ))
+                              : <span className="text-gray-400">—</span>
+                            }
+                            {fields.length > 3 && (
+                              <div className="text-xs text-gray-400">+{fields.length - 3} more</div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {log.ipAddress ?? "—"}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setSelectedLog(log)}
+                              className="text-blue-600 hover:text-blue-900"
+                              data-testid={`button-view-audit-${log.id}`}
+                            >
+                              <Eye className="h-4 w-4 mr-1" />
+                              View
+                            </Button>
+                          </td>
+                        </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Pagination */}
+            <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+              <p className="text-sm text-gray-500">
+                {total === 0 ? "0 entries" : `${offset + 1}-${offset + logs.length} of ${total} entries`}
+              </p>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                  disabled={offset === 0}
+                  data-testid="button-audit-previous"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={offset + PAGE_SIZE >= total}
+                  data-testid="button-audit-next"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </Card>
+        </main>
+      </div>
+
+      {/* Entry Details Dialog */}
+      <Dialog open={!!selectedLog} onOpenChange={(open) => !open && setSelectedLog(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selectedLog?.action}</DialogTitle>
+            <DialogDescription>
+              {selectedLog && `${selectedLog.adminUser?.name ?? "System"} on ${new Date(selectedLog.createdAt).toLocaleString()}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedLog && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="text-gray-500">Entity: </span>
+                  <span className="font-mono">{selectedLog.entityType} {selectedLog.entityId}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">IP address: </span>
+                  {selectedLog.ipAddress ?? "—"}
+                </div>
+                <div className="col-span-2">
+                  <span className="text-gray-500">User agent: </span>
+                  {selectedLog.userAgent ?? "—"}
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label className="block text-sm font-medium text-gray-700 mb-1">Before</Label>
+                  <pre className="bg-gray-50 rounded p-3 text-xs overflow-auto max-h-96" data-testid="audit-old-values">
+                    {JSON.stringify(selectedLog.oldValues ?? {}, null, 2)}
+                  </pre>
+                </div>
+                <div>
+                  <Label className="block text-sm font-medium text-gray-700 mb-1">After</Label>
+                  <pre className="bg-gray-50 rounded p-3 text-xs overflow-auto max-h-96" data-testid="audit-new-values">
+                    {JSON.stringify(selectedLog.newValues ?? {}, null, 2)}
+                  </pre>
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,18 +1,29 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
-import { Redirect } from "wouter";
+import { Link, Redirect } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { ShoppingCart, TriangleAlert } from "lucide-react";
 
 export default function AuthPage() {
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, verifyTwoFactorMutation, registerMutation } = useAuth();
   const [loginForm, setLoginForm] = useState({ email: "", password: "" });
   const [registerForm, setRegisterForm] = useState({ email: "", password: "", name: "" });
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  // Registration is only offered on a fresh install; afterwards users join by invitation
+  const { data: setupStatus } = useQuery<{ needsSetup: boolean }>({
+    queryKey: ["/api/setup-status"],
+  });
+  const needsSetup = setupStatus?.needsSetup ?? false;
 
   // Redirect if already logged in
   if (user) {
@@ -24,6 +35,25 @@ export default function AuthPage() {
     loginMutation.mutate(loginForm);
   };
 
+  const handleVerifyTwoFactor = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (useRecoveryCode) {
+      verifyTwoFactorMutation.mutate({ recoveryCode });
+    } else if (twoFactorCode.length === 6) {
+      verifyTwoFactorMutation.mutate({ code: twoFactorCode });
+    }
+  };
+
+  const handleBackToLogin = () => {
+    loginMutation.reset();
+    setTwoFactorCode("");
+    setRecoveryCode("");
+    setUseRecoveryCode(false);
+  };
+
+  // The password was accepted for an account with 2FA; the session starts once the code checks out
+  const twoFactorPending = !!loginMutation.data && "twoFactorPending" in loginMutation.data;
+
   const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     registerMutation.mutate(registerForm);
@@ -48,113 +78,198 @@ export default function AuthPage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Tabs defaultValue="login" className="space-y-4">
-              <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="login" data-testid="tab-login">Login</TabsTrigger>
-                <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
-              </TabsList>
-              
-              <TabsContent value="login">
-                <form onSubmit={handleLogin} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="login-email">Email Address</Label>
-                    <Input
-                      id="login-email"
-                      type="email"
-                      value={loginForm.email}
-                      onChange={(e) => setLoginForm({ ...loginForm, email: e.target.value })}
-                      placeholder="admin@example.com"
-                      required
-                      data-testid="input-login-email"
-                    />
+            {twoFactorPending ? (
+              <form onSubmit={handleVerifyTwoFactor} className="space-y-4" data-testid="form-two-factor">
+                <div className="space-y-2">
+                  <h3 className="font-medium text-gray-900">Two-factor authentication</h3>
+                  <p className="text-sm text-gray-600">
+                    {useRecoveryCode
+                      ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+                      : "Enter the 6-digit code from your authenticator app."}
+                  </p>
+                </div>
+
+                {useRecoveryCode ? (
+                  <Input
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    placeholder="xxxxx-xxxxx"
+                    autoComplete="one-time-code"
+                    required
+                    data-testid="input-recovery-code"
+                  />
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={6}
+                      value={twoFactorCode}
+                      onChange={setTwoFactorCode}
+                      onComplete={(code: string) => verifyTwoFactorMutation.mutate({ code })}
+                      autoFocus
+                      data-testid="input-two-factor-code"
+                    >
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map((index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
                   </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full bg-blue-600 hover:bg-blue-700"
+                  disabled={verifyTwoFactorMutation.isPending || (!useRecoveryCode && twoFactorCode.length !== 6)}
+                  data-testid="button-verify-two-factor"
+                >
+                  {verifyTwoFactorMutation.isPending ? "Verifying..." : "Verify"}
+                </Button>
+
+                <div className="flex justify-between text-sm">
+                  <button
+                    type="button"
+                    className="text-blue-600 hover:text-blue-800"
+                    onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                    data-testid="button-toggle-recovery-code"
+                  >
+                    {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-gray-600 hover:text-gray-800"
+                    onClick={handleBackToLogin}
+                    data-testid="button-back-to-login"
+                  >
+                    Back to sign in
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <Tabs defaultValue="login" className="space-y-4">
+                {needsSetup && (
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="login" data-testid="tab-login">Login</TabsTrigger>
+                    <TabsTrigger value="register" data-testid="tab-register">First-Time Setup</TabsTrigger>
+                  </TabsList>
+                )}
+              
+                <TabsContent value="login">
+                  <form onSubmit={handleLogin} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="login-email">Email Address</Label>
+                      <Input
+                        id="login-email"
+                        type="email"
+                        value={loginForm.email}
+                        onChange={(e) => setLoginForm({ ...loginForm, email: e.target.value })}
+                        placeholder="admin@example.com"
+                        required
+                        data-testid="input-login-email"
+                      />
+                    </div>
                   
-                  <div className="space-y-2">
-                    <Label htmlFor="login-password">Password</Label>
-                    <Input
-                      id="login-password"
-                      type="password"
-                      value={loginForm.password}
-                      onChange={(e) => setLoginForm({ ...loginForm, password: e.target.value })}
-                      placeholder="Enter your password"
-                      required
-                      data-testid="input-login-password"
-                    />
-                  </div>
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="login-password">Password</Label>
+                        <Link
+                          href="/forgot-password"
+                          className="text-sm text-blue-600 hover:text-blue-800"
+                          data-testid="link-forgot-password"
+                        >
+                          Forgot password?
+                        </Link>
+                      </div>
+                      <Input
+                        id="login-password"
+                        type="password"
+                        value={loginForm.password}
+                        onChange={(e) => setLoginForm({ ...loginForm, password: e.target.value })}
+                        placeholder="Enter your password"
+                        required
+                        data-testid="input-login-password"
+                      />
+                    </div>
                   
-                  <Alert className="bg-amber-50 border-amber-200">
-                    <TriangleAlert className="h-4 w-4 text-amber-600" />
-                    <AlertDescription className="text-amber-800">
-                      <strong>Default Credentials:</strong><br />
-                      Email: admin@example.com<br />
-                      Password: ChangeMe!2025<br />
-                      <em>Please change on first login</em>
-                    </AlertDescription>
-                  </Alert>
+                    <Alert className="bg-amber-50 border-amber-200">
+                      <TriangleAlert className="h-4 w-4 text-amber-600" />
+                      <AlertDescription className="text-amber-800">
+                        <strong>Default Credentials:</strong><br />
+                        Email: admin@example.com<br />
+                        Password: ChangeMe!2025<br />
+                        <em>Please change on first login</em>
+                      </AlertDescription>
+                    </Alert>
                   
-                  <Button 
-                    type="submit" 
-                    className="w-full bg-blue-600 hover:bg-blue-700" 
-                    disabled={loginMutation.isPending}
-                    data-testid="button-login"
-                  >
-                    {loginMutation.isPending ? "Signing In..." : "Sign In"}
-                  </Button>
-                </form>
-              </TabsContent>
+                    <Button 
+                      type="submit" 
+                      className="w-full bg-blue-600 hover:bg-blue-700" 
+                      disabled={loginMutation.isPending}
+                      data-testid="button-login"
+                    >
+                      {loginMutation.isPending ? "Signing In..." : "Sign In"}
+                    </Button>
+                  </form>
+                </TabsContent>
               
-              <TabsContent value="register">
-                <form onSubmit={handleRegister} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="register-name">Full Name</Label>
-                    <Input
-                      id="register-name"
-                      type="text"
-                      value={registerForm.name}
-                      onChange={(e) => setRegisterForm({ ...registerForm, name: e.target.value })}
-                      placeholder="Your full name"
-                      required
-                      data-testid="input-register-name"
-                    />
-                  </div>
+                <TabsContent value="register">
+                  <form onSubmit={handleRegister} className="space-y-4">
+                    <p className="text-sm text-gray-600">
+                      No dashboard users exist yet. Create the first administrator account; everyone else joins by invitation.
+                    </p>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="register-name">Full Name</Label>
+                      <Input
+                        id="register-name"
+                        type="text"
+                        value={registerForm.name}
+                        onChange={(e) => setRegisterForm({ ...registerForm, name: e.target.value })}
+                        placeholder="Your full name"
+                        required
+                        data-testid="input-register-name"
+                      />
+                    </div>
                   
-                  <div className="space-y-2">
-                    <Label htmlFor="register-email">Email Address</Label>
-                    <Input
-                      id="register-email"
-                      type="email"
-                      value={registerForm.email}
-                      onChange={(e) => setRegisterForm({ ...registerForm, email: e.target.value })}
-                      placeholder="your@email.com"
-                      required
-                      data-testid="input-register-email"
-                    />
-                  </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="register-email">Email Address</Label>
+                      <Input
+                        id="register-email"
+                        type="email"
+                        value={registerForm.email}
+                        onChange={(e) => setRegisterForm({ ...registerForm, email: e.target.value })}
+                        placeholder="your@email.com"
+                        required
+                        data-testid="input-register-email"
+                      />
+                    </div>
                   
-                  <div className="space-y-2">
-                    <Label htmlFor="register-password">Password</Label>
-                    <Input
-                      id="register-password"
-                      type="password"
-                      value={registerForm.password}
-                      onChange={(e) => setRegisterForm({ ...registerForm, password: e.target.value })}
-                      placeholder="Create a strong password"
-                      required
-                      data-testid="input-register-password"
-                    />
-                  </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="register-password">Password</Label>
+                      <Input
+                        id="register-password"
+                        type="password"
+                        value={registerForm.password}
+                        onChange={(e) => setRegisterForm({ ...registerForm, password: e.target.value })}
+                        placeholder="Create a strong password"
+                        required
+                        minLength={8}
+                        data-testid="input-register-password"
+                      />
+                    </div>
                   
-                  <Button 
-                    type="submit" 
-                    className="w-full bg-blue-600 hover:bg-blue-700" 
-                    disabled={registerMutation.isPending}
-                    data-testid="button-register"
-                  >
-                    {registerMutation.isPending ? "Creating Account..." : "Create Account"}
-                  </Button>
-                </form>
-              </TabsContent>
-            </Tabs>
+                    <Button 
+                      type="submit" 
+                      className="w-full bg-blue-600 hover:bg-blue-700" 
+                      disabled={registerMutation.isPending}
+                      data-testid="button-register"
+                    >
+                      {registerMutation.isPending ? "Creating Account..." : "Create Admin Account"}
+                    </Button>
+                  </form>
+                </TabsContent>
+              </Tabs>
+            )}
           </CardContent>
         </Card>
         
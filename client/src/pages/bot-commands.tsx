@@ -9,21 +9,52 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Plus, Edit, Trash2, MessageSquare, Terminal } from "lucide-react";
+import { Plus, Edit, Trash2, MessageSquare, Terminal, X, Image } from "lucide-react";
+import {
+  renderBotTemplate,
+  BOT_TEMPLATE_VARIABLES,
+  BOT_COMMAND_BUTTON_ACTIONS,
+  type BotTemplateContext,
+} from "@shared/bot-template";
+import type { BotCommandButton } from "@shared/schema";
+
+// Sample customer used for the live preview
+const PREVIEW_CONTEXT: BotTemplateContext = {
+  firstName: "Ama",
+  lastName: "Mensah",
+  username: "ama_m",
+  lastOrder: {
+    orderNumber: "ORD-20250101-001",
+    status: "SHIPPED",
+    totalGhs: "245.00",
+    createdAt: new Date().toLocaleDateString(),
+  },
+  store: {
+    name: "EcomBot",
+    supportEmail: "support@ecombot.gh",
+    supportPhone: "+233 24 000 0000",
+    businessHours: "Mon-Fri, 9AM-6PM GMT",
+  },
+};
+
+const emptyForm = {
+  command: "",
+  description: "",
+  response: "",
+  photoUrl: "",
+  buttons: [] as BotCommandButton[],
+  isActive: true
+};
 
 export default function BotCommands() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [editingCommand, setEditingCommand] = useState<any>(null);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
-  const [formData, setFormData] = useState({
-    command: "",
-    description: "",
-    response: "",
-    isActive: true
-  });
+  const [formData, setFormData] = useState(emptyForm);
   const { toast } = useToast();
 
   const { data: commands = [], isLoading } = useQuery({
@@ -40,7 +71,7 @@ export default function BotCommands() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/bot-commands"] });
       setShowCreateDialog(false);
-      setFormData({ command: "", description: "", response: "", isActive: true });
+      setFormData(emptyForm);
       toast({
         title: "Command created",
         description: "Bot command has been successfully created.",
@@ -113,6 +144,8 @@ export default function BotCommands() {
       command: command.command,
       description: command.description,
       response: command.response,
+      photoUrl: command.photoUrl || "",
+      buttons: command.buttons || [],
       isActive: command.isActive
     });
     setShowCreateDialog(true);
@@ -124,8 +157,27 @@ export default function BotCommands() {
     }
   };
 
+  const insertVariable = (variable: string) => {
+    setFormData({ ...formData, response: `${formData.response}{{${variable}}}` });
+  };
+
+  const addButton = () => {
+    setFormData({ ...formData, buttons: [...formData.buttons, { text: "", url: "" }] });
+  };
+
+  const updateButton = (index: number, button: BotCommandButton) => {
+    setFormData({
+      ...formData,
+      buttons: formData.buttons.map((existing, i) => (i === index ? button : existing)),
+    });
+  };
+
+  const removeButton = (index: number) => {
+    setFormData({ ...formData, buttons: formData.buttons.filter((_, i) => i !== index) });
+  };
+
   const resetForm = () => {
-    setFormData({ command: "", description: "", response: "", isActive: true });
+    setFormData(emptyForm);
     setEditingCommand(null);
     setShowCreateDialog(false);
   };
@@ -164,70 +216,172 @@ export default function BotCommands() {
                   Add Command
                 </Button>
               </DialogTrigger>
-              <DialogContent className="sm:max-w-[525px]">
+              <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>{editingCommand ? 'Edit Command' : 'Create New Command'}</DialogTitle>
                   <DialogDescription>
                     {editingCommand ? 'Update the bot command details.' : 'Add a new custom command for your Telegram bot.'}
                   </DialogDescription>
                 </DialogHeader>
-                <form onSubmit={handleSubmit} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="command">Command</Label>
-                    <Input
-                      id="command"
-                      placeholder="e.g., /help, /about, /support"
-                      value={formData.command}
-                      onChange={(e) => setFormData({ ...formData, command: e.target.value })}
-                      required
-                      data-testid="input-command"
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="description">Description</Label>
-                    <Input
-                      id="description"
-                      placeholder="Brief description of what this command does"
-                      value={formData.description}
-                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                      required
-                      data-testid="input-description"
-                    />
-                  </div>
+                <div className="grid gap-6 md:grid-cols-2">
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="command">Command</Label>
+                      <Input
+                        id="command"
+                        placeholder="e.g., /help, /about, /support"
+                        value={formData.command}
+                        onChange={(e) => setFormData({ ...formData, command: e.target.value })}
+                        required
+                        data-testid="input-command"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="description">Description</Label>
+                      <Input
+                        id="description"
+                        placeholder="Brief description of what this command does"
+                        value={formData.description}
+                        onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                        required
+                        data-testid="input-description"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="response">Response Message</Label>
+                      <Textarea
+                        id="response"
+                        placeholder="The message the bot will send when this command is used..."
+                        value={formData.response}
+                        onChange={(e) => setFormData({ ...formData, response: e.target.value })}
+                        required
+                        rows={4}
+                        data-testid="textarea-response"
+                      />
+                      <div className="flex flex-wrap gap-1">
+                        {BOT_TEMPLATE_VARIABLES.map((variable) => (
+                          <button
+                            key={variable}
+                            type="button"
+                            onClick={() => insertVariable(variable)}
+                            className="px-2 py-0.5 bg-gray-100 hover:bg-gray-200 rounded text-xs font-mono text-gray-700"
+                            data-testid={`button-variable-${variable}`}
+                          >
+                            {`{{${variable}}}`}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        Use {"{{firstName | there}}"} to fall back to a default when a value is missing.
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="photoUrl">Photo URL (optional)</Label>
+                      <Input
+                        id="photoUrl"
+                        placeholder="https://example.com/image.jpg"
+                        value={formData.photoUrl}
+                        onChange={(e) => setFormData({ ...formData, photoUrl: e.target.value })}
+                        data-testid="input-photo-url"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label>Buttons (optional)</Label>
+                        <Button type="button" variant="outline" size="sm" onClick={addButton} data-testid="button-add-button">
+                          <Plus className="h-3 w-3 mr-1" />
+                          Add Button
+                        </Button>
+                      </div>
+                      {formData.buttons.map((button, index) => (
+                        <div key={index} className="flex items-center space-x-2" data-testid={`row-button-${index}`}>
+                          <Input
+                            placeholder="Label"
+                            value={button.text}
+                            onChange={(e) => updateButton(index, { ...button, text: e.target.value })}
+                            className="flex-1"
+                          />
+                          <Select
+                            value={button.action || "url"}
+                            onValueChange={(value) =>
+                              updateButton(index, value === "url"
+                                ? { text: button.text, url: "" }
+                                : { text: button.text, action: value })
+                            }
+                          >
+                            <SelectTrigger className="w-40">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="url">Open link</SelectItem>
+                              {Object.entries(BOT_COMMAND_BUTTON_ACTIONS).map(([action, label]) => (
+                                <SelectItem key={action} value={action}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {!button.action && (
+                            <Input
+                              placeholder="https://..."
+                              value={button.url || ""}
+                              onChange={(e) => updateButton(index, { ...button, url: e.target.value })}
+                              className="flex-1"
+                            />
+                          )}
+                          <Button type="button" variant="ghost" size="sm" onClick={() => removeButton(index)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="isActive"
+                        checked={formData.isActive}
+                        onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                        data-testid="switch-active"
+                      />
+                      <Label htmlFor="isActive">Active</Label>
+                    </div>
+                    <div className="flex justify-end space-x-2 pt-4">
+                      <Button type="button" variant="outline" onClick={resetForm}>
+                        Cancel
+                      </Button>
+                      <Button 
+                        type="submit" 
+                        disabled={createCommandMutation.isPending || updateCommandMutation.isPending}
+                        data-testid="button-save-command"
+                      >
+                        {editingCommand ? 'Update' : 'Create'} Command
+                      </Button>
+                    </div>
+                  </form>
                   <div className="space-y-2">
-                    <Label htmlFor="response">Response Message</Label>
-                    <Textarea
-                      id="response"
-                      placeholder="The message the bot will send when this command is used..."
-                      value={formData.response}
-                      onChange={(e) => setFormData({ ...formData, response: e.target.value })}
-                      required
-                      rows={4}
-                      data-testid="textarea-response"
-                    />
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      id="isActive"
-                      checked={formData.isActive}
-                      onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
-                      data-testid="switch-active"
-                    />
-                    <Label htmlFor="isActive">Active</Label>
-                  </div>
-                  <div className="flex justify-end space-x-2 pt-4">
-                    <Button type="button" variant="outline" onClick={resetForm}>
-                      Cancel
-                    </Button>
-                    <Button 
-                      type="submit" 
-                      disabled={createCommandMutation.isPending || updateCommandMutation.isPending}
-                      data-testid="button-save-command"
-                    >
-                      {editingCommand ? 'Update' : 'Create'} Command
-                    </Button>
+                    <Label>Preview</Label>
+                    <div className="rounded-lg bg-sky-50 p-4 min-h-[200px]" data-testid="command-preview">
+                      <div className="max-w-sm rounded-lg bg-white shadow-sm overflow-hidden">
+                        {formData.photoUrl && (
+                          <div className="flex items-center justify-center h-32 bg-gray-100 text-gray-400">
+                            <Image className="h-6 w-6 mr-2" />
+                            <span className="text-xs truncate max-w-[200px]">{formData.photoUrl}</span>
+                          </div>
+                        )}
+                        <p className="p-3 text-sm text-gray-900 whitespace-pre-wrap">
+                          {formData.response
+                            ? renderBotTemplate(formData.response, PREVIEW_CONTEXT)
+                            : <span className="text-gray-400">The bot's reply will appear here.</span>}
+                        </p>
+                      </div>
+                      {formData.buttons.map((button, index) => (
+                        <div key={index} className="max-w-sm mt-1 rounded-md bg-white/80 py-1.5 text-center text-sm text-sky-700">
+                          {button.text || "Button"}
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Previewed for a sample customer, {PREVIEW_CONTEXT.firstName} {PREVIEW_CONTEXT.lastName}.
+                    </p>
                   </div>
-                </form>
+                </div>
               </DialogContent>
             </Dialog>
           </div>
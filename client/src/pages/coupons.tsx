@@ -9,9 +9,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Plus, Search, Tags, Edit, Trash2, Calendar } from "lucide-react";
+import { hasPermission } from "@shared/permissions";
 
 export default function Coupons() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -29,7 +31,9 @@ export default function Coupons() {
     startsAt: "",
     expiresAt: ""
   });
+  const { user } = useAuth();
   const { toast } = useToast();
+  const canWriteCoupons = hasPermission(user?.role, "coupons:write");
 
   const { data: coupons = [], isLoading } = useQuery<any[]>({
     queryKey: ["/api/coupons"],
@@ -166,16 +170,18 @@ export default function Coupons() {
                 <p className="mt-2 text-gray-600">Manage discount codes and promotional offers</p>
               </div>
               <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
-                <DialogTrigger asChild>
-                  <Button 
-                    className="bg-green-600 text-white hover:bg-green-700"
-                    onClick={() => resetForm()}
-                    data-testid="button-add-coupon"
-                  >
-                    <Plus className="mr-2 h-4 w-4" />
-                    Create Coupon
-                  </Button>
-                </DialogTrigger>
+                {canWriteCoupons && (
+                  <DialogTrigger asChild>
+                    <Button 
+                      className="bg-green-600 text-white hover:bg-green-700"
+                      onClick={() => resetForm()}
+                      data-testid="button-add-coupon"
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Create Coupon
+                    </Button>
+                  </DialogTrigger>
+                )}
                 <DialogContent className="max-w-md">
                   <DialogHeader>
                     <DialogTitle>
@@ -420,26 +426,30 @@ export default function Coupons() {
                             {coupon.expiresAt ? formatDate(coupon.expiresAt) : "No expiry"}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              className="text-blue-600 hover:text-blue-900 mr-2"
-                              data-testid={`button-edit-coupon-${coupon.id}`}
-                            >
-                              <Edit className="h-4 w-4 mr-1" />
-                              Edit
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleDeleteCoupon(coupon.id)}
-                              className="text-red-600 hover:text-red-900"
-                              disabled={deleteCouponMutation.isPending}
-                              data-testid={`button-delete-coupon-${coupon.id}`}
-                            >
-                              <Trash2 className="h-4 w-4 mr-1" />
-                              Delete
-                            </Button>
+                            {canWriteCoupons && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-blue-600 hover:text-blue-900 mr-2"
+                                  data-testid={`button-edit-coupon-${coupon.id}`}
+                                >
+                                  <Edit className="h-4 w-4 mr-1" />
+                                  Edit
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDeleteCoupon(coupon.id)}
+                                  className="text-red-600 hover:text-red-900"
+                                  disabled={deleteCouponMutation.isPending}
+                                  data-testid={`button-delete-coupon-${coupon.id}`}
+                                >
+                                  <Trash2 className="h-4 w-4 mr-1" />
+                                  Delete
+                                </Button>
+                              </>
+                            )}
                           </td>
                         </tr>
                       );
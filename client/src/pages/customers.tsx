@@ -1,86 +1,47 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Topbar } from "@/components/layout/topbar";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { ListPagination } from "@/components/tables/list-pagination";
+import { usePaginatedList, dateRangeParams } from "@/hooks/use-paginated-list";
+import { apiRequest } from "@/lib/queryClient";
 import { Search, Users, User, Eye } from "lucide-react";
+import { CUSTOMER_SORTS, MAX_PAGE_SIZE, type Paginated } from "@shared/lists";
+import type { CustomerWithStats, Order } from "@shared/schema";
 
 export default function Customers() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
 
-  const { data: customers = [], isLoading } = useQuery({
-    queryKey: ["/api/customers"],
-  }) as { data: any[], isLoading: boolean };
+  const [sort, setSort] = useState("recent");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
 
-  const { data: orders = [] } = useQuery({
-    queryKey: ["/api/orders"],
-  }) as { data: any[] };
-
-  const filteredCustomers = customers.filter((customer: any) => {
-    const searchTerm = searchQuery.toLowerCase();
-    return (
-      customer.firstName?.toLowerCase().includes(searchTerm) ||
-      customer.lastName?.toLowerCase().includes(searchTerm) ||
-      customer.username?.toLowerCase().includes(searchTerm) ||
-      customer.phone?.toLowerCase().includes(searchTerm) ||
-      customer.telegramId?.toLowerCase().includes(searchTerm)
-    );
+  // Order counts, totals and the latest contact details come with each customer from the server
+  const customers = usePaginatedList<CustomerWithStats>("/api/customers", {
+    search: searchQuery.trim(),
+    sort,
+    ...dateRangeParams(fromDate, toDate),
   });
 
-  const getCustomerOrderCount = (customerId: string) => {
-    return orders.filter((order: any) => order.userId === customerId).length;
-  };
-
-  const getCustomerTotalSpent = (customerId: string) => {
-    const customerOrders = orders.filter((order: any) => order.userId === customerId && order.status === 'PAID');
-    return customerOrders.reduce((total: number, order: any) => total + parseFloat(order.totalGhs || "0"), 0);
-  };
-
-  const getCustomerLatestAddress = (customerId: string) => {
-    const customerOrders = orders.filter((order: any) => order.userId === customerId);
-    if (customerOrders.length === 0) return null;
-    
-    // Get the most recent order with address
-    const ordersWithAddress = customerOrders
-      .filter((order: any) => order.address)
-      .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    
-    return ordersWithAddress.length > 0 ? ordersWithAddress[0].address : null;
-  };
-
-  const getCustomerPhone = (customerId: string) => {
-    // First check user phone, then check latest order phone
-    const customer = customers.find((c: any) => c.id === customerId);
-    if (customer?.phone) return customer.phone;
-    
-    const customerOrders = orders.filter((order: any) => order.userId === customerId);
-    if (customerOrders.length === 0) return null;
-    
-    // Get the most recent order with phone
-    const ordersWithPhone = customerOrders
-      .filter((order: any) => order.customerPhone)
-      .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    
-    return ordersWithPhone.length > 0 ? ordersWithPhone[0].customerPhone : null;
-  };
-
-  const handleViewOrders = (customerId: string) => {
-    const customerOrders = orders.filter((order: any) => order.userId === customerId);
+  const handleViewOrders = async (customerId: string) => {
+    const response = await apiRequest("GET", `/api/orders?userId=${customerId}&limit=${MAX_PAGE_SIZE}`);
+    const { items: customerOrders, total }: Paginated<Order> = await response.json();
     if (customerOrders.length === 0) {
       alert('This customer has no orders yet.');
       return;
     }
     
     // Create a detailed summary
-    const orderSummary = customerOrders.map((order: any) => 
+    const orderSummary = customerOrders.map((order) => 
       `Order #${order.orderNumber} - ${order.status} - ₵${order.totalGhs}`
     ).join('\n');
     
-    alert(`Customer Orders (${customerOrders.length} total):\n\n${orderSummary}`);
+    alert(`Customer Orders (${total} total):\n\n${orderSummary}`);
   };
 
   const formatDate = (dateString: string) => {
@@ -124,21 +85,56 @@ export default function Customers() {
             </div>
           </div>
 
-          {/* Search */}
+          {/* Search and Filters */}
           <Card className="bg-white border border-gray-200 mb-6">
             <CardContent className="p-6">
-              <div className="max-w-md">
-                <Label className="block text-sm font-medium text-gray-700 mb-1">Search Customers</Label>
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-                  <Input
-                    type="text"
-                    placeholder="Search by name, username, phone, or Telegram ID..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-10"
-                    data-testid="input-search-customers"
-                  />
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label className="block text-sm font-medium text-gray-700 mb-1">Search Customers</Label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <Input
+                      type="text"
+                      placeholder="Search by name, username, phone, or Telegram ID..."
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      className="pl-10"
+                      data-testid="input-search-customers"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label className="block text-sm font-medium text-gray-700 mb-1">Sort By</Label>
+                  <Select value={sort} onValueChange={setSort}>
+                    <SelectTrigger data-testid="select-customer-sort">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CUSTOMER_SORTS).map(([value, { label }]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-1">Joined From</Label>
+                    <Input
+                      type="date"
+                      value={fromDate}
+                      onChange={(e) => setFromDate(e.target.value)}
+                      data-testid="input-customers-from"
+                    />
+                  </div>
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-1">To</Label>
+                    <Input
+                      type="date"
+                      value={toDate}
+                      onChange={(e) => setToDate(e.target.value)}
+                      data-testid="input-customers-to"
+                    />
+                  </div>
                 </div>
               </div>
             </CardContent>
@@ -174,7 +170,7 @@ export default function Customers() {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {isLoading ? (
+                  {customers.isLoading ? (
                     <tr>
                       <td colSpan={7} className="px-6 py-12 text-center">
                         <div className="flex items-center justify-center">
@@ -183,13 +179,13 @@ export default function Customers() {
                         </div>
                       </td>
                     </tr>
-                  ) : filteredCustomers.length === 0 ? (
+                  ) : customers.items.length === 0 ? (
                     <tr>
                       <td colSpan={7} className="px-6 py-12 text-center">
                         <Users className="mx-auto h-12 w-12 text-gray-400 mb-4" />
                         <p className="text-gray-500 text-lg">No customers found</p>
                         <p className="text-gray-400 text-sm">
-                          {searchQuery
+                          {searchQuery || fromDate || toDate
                             ? "Try adjusting your search terms"
                             : "Customers will appear here once they start the Telegram bot"
                           }
@@ -197,10 +193,9 @@ export default function Customers() {
                       </td>
                     </tr>
                   ) : (
-                    filteredCustomers.map((customer: any) => {
-                      const orderCount = getCustomerOrderCount(customer.id);
-                      const totalSpent = getCustomerTotalSpent(customer.id);
-                      
+                    customers.items.map((customer: any) => {
+                      const totalSpent = parseFloat(customer.totalSpentGhs || "0");
+
                       return (
                         <tr key={customer.id} className="hover:bg-gray-50" data-testid={`customer-row-${customer.id}`}>
                           <td className="px-6 py-4 whitespace-nowrap">
@@ -236,10 +231,10 @@ export default function Customers() {
                           <td className="px-6 py-4">
                             <div className="text-sm text-gray-900">
                               <div className="font-medium">
-                                📱 {getCustomerPhone(customer.id) || 'No phone'}
+                                📱 {customer.latestPhone || 'No phone'}
                               </div>
                               {(() => {
-                                const address = getCustomerLatestAddress(customer.id);
+                                const address = customer.latestAddress;
                                 return address ? (
                                   <div className="text-xs text-gray-500 mt-1 max-w-xs">
                                     📍 {typeof address === 'string' ? address : 
@@ -253,7 +248,7 @@ export default function Customers() {
                             </div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900" data-testid={`customer-orders-${customer.id}`}>
-                            {orderCount}
+                            {customer.orderCount}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900" data-testid={`customer-spent-${customer.id}`}>
                             ₵{totalSpent.toFixed(2)}
@@ -280,6 +275,18 @@ export default function Customers() {
                 </tbody>
               </table>
             </div>
+
+            <ListPagination
+              noun="customers"
+              offset={customers.offset}
+              shown={customers.items.length}
+              total={customers.total}
+              hasPrevious={customers.hasPrevious}
+              hasNext={customers.hasNext}
+              onPrevious={customers.previous}
+              onNext={customers.next}
+              testId="customers-pagination"
+            />
           </Card>
         </main>
       </div>
@@ -8,6 +8,9 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Plus, Download, Tags, FileText } from "lucide-react";
 import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import type { Paginated } from "@shared/lists";
+import type { Order } from "@shared/schema";
 
 export default function Dashboard() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -16,12 +19,15 @@ export default function Dashboard() {
     queryKey: ["/api/dashboard/metrics"],
   });
 
-  const { data: recentOrders } = useQuery<any[]>({
-    queryKey: ["/api/orders"],
-    select: (data) => (data as any[])?.slice(0, 5) || []
+  const { data: recentOrders } = useQuery<Paginated<Order>>({
+    queryKey: ["/api/orders", { limit: 5 }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/orders?limit=5");
+      return response.json();
+    },
   });
 
-  const recentOrdersData = recentOrders || [];
+  const recentOrdersData = recentOrders?.items || [];
 
   const getStatusColor = (status: string) => {
     switch (status.toUpperCase()) {
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ShoppingCart, MailCheck } from "lucide-react";
+
+export default function ForgotPassword() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+
+  const requestMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const response = await apiRequest("POST", "/api/password-reset", { email });
+      return response.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Request failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    requestMutation.mutate(email);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className="mx-auto h-16 w-16 bg-blue-600 rounded-full flex items-center justify-center mb-4">
+            <ShoppingCart className="text-white text-2xl h-8 w-8" />
+          </div>
+          <h2 className="text-3xl font-bold text-gray-900">EcomBot Admin</h2>
+          <p className="mt-2 text-gray-600">Telegram E-commerce Management System</p>
+        </div>
+
+        <Card className="bg-white shadow-lg border border-gray-200">
+          <CardHeader>
+            <CardTitle>Forgot Password</CardTitle>
+            <CardDescription>
+              Enter your email address and we'll send you a link to choose a new password
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {requestMutation.isSuccess ? (
+              <Alert className="bg-green-50 border-green-200" data-testid="reset-requested">
+                <MailCheck className="h-4 w-4 text-green-600" />
+                <AlertDescription className="text-green-800">
+                  {requestMutation.data.message}
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reset-email">Email Address</Label>
+                  <Input
+                    id="reset-email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="admin@example.com"
+                    required
+                    data-testid="input-reset-email"
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full bg-blue-600 hover:bg-blue-700"
+                  disabled={requestMutation.isPending}
+                  data-testid="button-request-reset"
+                >
+                  {requestMutation.isPending ? "Sending..." : "Send Reset Link"}
+                </Button>
+              </form>
+            )}
+
+            <div className="text-center text-sm">
+              <Link href="/auth" className="text-blue-600 hover:text-blue-800" data-testid="link-back-to-login">
+                Back to sign in
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
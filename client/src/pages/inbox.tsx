@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Topbar } from "@/components/layout/topbar";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { Inbox as InboxIcon, Send, CheckCircle, RotateCcw, AlertCircle } from "lucide-react";
+
+// New customer messages arrive through the Telegram webhook, so keep polling
+const POLL_INTERVAL_MS = 10000;
+
+function customerName(user: any) {
+  const name = [user?.firstName, user?.lastName].filter(Boolean).join(" ");
+  return name || (user?.username ? `@${user.username}` : `Telegram ${user?.telegramId}`);
+}
+
+export default function Inbox() {
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState("OPEN");
+  const [assignedFilter, setAssignedFilter] = useState("all");
+  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: tickets = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/support/tickets", { status: statusFilter, assignedTo: assignedFilter }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ status: statusFilter });
+      if (assignedFilter !== "all") {
+        params.set("assignedTo", assignedFilter);
+      }
+      const response = await apiRequest("GET", `/api/support/tickets?${params}`);
+      return response.json();
+    },
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  const { data: ticket } = useQuery<any>({
+    queryKey: ["/api/support/tickets", selectedTicketId],
+    enabled: !!selectedTicketId,
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  const { data: staff = [] } = useQuery<any[]>({
+    queryKey: ["/api/support/staff"],
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async (body: string) => {
+      const response = await apiRequest("POST", `/api/support/tickets/${selectedTicketId}/messages`, { body });
+      return response.json();
+    },
+    onSuccess: (message) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/support/tickets"] });
+      setReply("");
+      if (!message.deliveredAt) {
+        toast({
+          title: "Reply not delivered",
+          description: "The reply was saved but Telegram did not accept it. The customer may have blocked the bot.",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reply failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateTicketMutation = useMutation({
+    mutationFn: async (updates: { status?: string; assignedToId?: string | null }) => {
+      const response = await apiRequest("PUT", `/api/support/tickets/${selectedTicketId}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/support/tickets"] });
+      toast({
+        title: "Ticket updated",
+        description: "The support ticket has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleReply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reply.trim()) {
+      replyMutation.mutate(reply.trim());
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Mobile sidebar */}
+      <div
+        className={`fixed inset-0 z-50 lg:hidden ${sidebarOpen ? 'block' : 'hidden'}`}
+        onClick={() => setSidebarOpen(false)}
+      >
+        <div className="fixed inset-y-0 left-0 z-50 w-64">
+          <Sidebar />
+        </div>
+      </div>
+
+      {/* Desktop sidebar */}
+      <div className="hidden lg:fixed lg:inset-y-0 lg:left-0 lg:z-50 lg:block lg:w-64">
+        <Sidebar />
+      </div>
+
+      {/* Main content */}
+      <div className="lg:pl-64">
+        <Topbar onToggleSidebar={() => setSidebarOpen(!sidebarOpen)} />
+
+        <main className="py-8 px-4 sm:px-6 lg:px-8" data-testid="inbox-content">
+          <div className="mb-8">
+            <h1 className="text-2xl font-bold text-gray-900">Inbox</h1>
+            <p className="mt-2 text-gray-600">Chat with customers who contacted support through the Telegram bot</p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Ticket list */}
+            <Card className="bg-white shadow-sm border border-gray-200">
+              <CardHeader className="border-b border-gray-200 space-y-3">
+                <div className="flex space-x-2">
+                  <Select value={statusFilter} onValueChange={setStatusFilter}>
+                    <SelectTrigger data-testid="select-ticket-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="OPEN">Open</SelectItem>
+                      <SelectItem value="CLOSED">Closed</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={assignedFilter} onValueChange={setAssignedFilter}>
+                    <SelectTrigger data-testid="select-ticket-assignee-filter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Everyone</SelectItem>
+                      <SelectItem value="me">Assigned to me</SelectItem>
+                      <SelectItem value="unassigned">Unassigned</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent className="p-0">
+                {isLoading ? (
+                  <div className="p-6 text-center text-gray-500">Loading tickets...</div>
+                ) : tickets.length === 0 ? (
+                  <div className="p-6 text-center text-gray-500" data-testid="inbox-empty">
+                    <InboxIcon className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+                    No {statusFilter === "OPEN" ? "open" : "closed"} conversations
+                  </div>
+                ) : (
+                  <ul className="divide-y divide-gray-200 max-h-[640px] overflow-y-auto">
+                    {tickets.map((item: any) => (
+                      <li key={item.id}>
+                        <button
+                          type="button"
+                          onClick={() => setSelectedTicketId(item.id)}
+                          className={cn(
+                            "w-full text-left px-4 py-3 hover:bg-gray-50",
+                            selectedTicketId === item.id && "bg-blue-50"
+                          )}
+                          data-testid={`ticket-${item.id}`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-gray-900 truncate">
+                              {customerName(item.user)}
+                            </span>
+                            <span className="text-xs text-gray-500 ml-2 flex-shrink-0">
+                              {new Date(item.lastMessageAt).toLocaleString()}
+                            </span>
+                          </div>
+                          <p className="text-sm text-gray-600 truncate">{item.subject}</p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {item.assignedTo ? `Assigned to ${item.assignedTo.name}` : "Unassigned"}
+                          </p>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Conversation */}
+            <Card className="bg-white shadow-sm border border-gray-200 lg:col-span-2">
+              {!ticket ? (
+                <CardContent className="p-12 text-center text-gray-500">
+                  Select a conversation to read and reply
+                </CardContent>
+              ) : (
+                <>
+                  <CardHeader className="border-b border-gray-200">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <CardTitle className="flex items-center space-x-2">
+                          <span data-testid="ticket-customer">{customerName(ticket.user)}</span>
+                          <Badge variant={ticket.status === "OPEN" ? "default" : "secondary"}>
+                            {ticket.status}
+                          </Badge>
+                        </CardTitle>
+                        {ticket.user?.phone && (
+                          <p className="text-sm text-gray-500 mt-1">{ticket.user.phone}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Select
+                          value={ticket.assignedToId ?? "unassigned"}
+                          onValueChange={(value) => updateTicketMutation.mutate({
+                            assignedToId: value === "unassigned" ? null : value
+                          })}
+                        >
+                          <SelectTrigger className="w-48" data-testid="select-ticket-assignee">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="unassigned">Unassigned</SelectItem>
+                            {staff.map((member: any) => (
+                              <SelectItem key={member.id} value={member.id}>
+                                {member.id === user?.id ? `${member.name} (you)` : member.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {ticket.status === "OPEN" ? (
+                          <Button
+                            variant="outline"
+                            onClick={() => updateTicketMutation.mutate({ status: "CLOSED" })}
+                            disabled={updateTicketMutation.isPending}
+                            data-testid="button-close-ticket"
+                          >
+                            <CheckCircle className="h-4 w-4 mr-2" />
+                            Close
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            onClick={() => updateTicketMutation.mutate({ status: "OPEN" })}
+                            disabled={updateTicketMutation.isPending}
+                            data-testid="button-reopen-ticket"
+                          >
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Reopen
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="p-6">
+                    <div className="space-y-3 max-h-[480px] overflow-y-auto mb-4" data-testid="ticket-messages">
+                      {ticket.messages.map((message: any) => (
+                        <div
+                          key={message.id}
+                          className={cn("flex", message.sender === "STAFF" ? "justify-end" : "justify-start")}
+                        >
+                          <div
+                            className={cn(
+                              "max-w-[75%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap",
+                              message.sender === "STAFF" ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-900"
+                            )}
+                          >
+                            {message.body}
+                            <div
+                              className={cn(
+                                "flex items-center mt-1 text-xs",
+                                message.sender === "STAFF" ? "text-blue-100" : "text-gray-500"
+                              )}
+                            >
+                              {new Date(message.createdAt).toLocaleString()}
+                              {message.sender === "STAFF" && !message.deliveredAt && (
+                                <span className="flex items-center ml-2">
+                                  <AlertCircle className="h-3 w-3 mr-1" />
+                                  Not delivered
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+
+                    {ticket.status === "OPEN" ? (
+                      <form onSubmit={handleReply} className="flex items-end space-x-2">
+                        <Textarea
+                          value={reply}
+                          onChange={(e) => setReply(e.target.value)}
+                          placeholder="Type your reply..."
+                          rows={3}
+                          maxLength={4000}
+                          data-testid="input-ticket-reply"
+                        />
+                        <Button
+                          type="submit"
+                          disabled={replyMutation.isPending || !reply.trim()}
+                          className="bg-blue-600 hover:bg-blue-700"
+                          data-testid="button-send-reply"
+                        >
+                          <Send className="h-4 w-4 mr-2" />
+                          Send
+                        </Button>
+                      </form>
+                    ) : (
+                      <p className="text-sm text-gray-500 text-center">
+                        This conversation is closed. Reopen it to reply.
+                      </p>
+                    )}
+                  </CardContent>
+                </>
+              )}
+            </Card>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
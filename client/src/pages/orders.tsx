@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Topbar } from "@/components/layout/topbar";
 import { Button } from "@/components/ui/button";
@@ -9,24 +9,78 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { ListPagination } from "@/components/tables/list-pagination";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { usePaginatedList, dateRangeParams } from "@/hooks/use-paginated-list";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Search, FileText, Eye, Truck } from "lucide-react";
+import { Search, FileText, Eye, Truck, Undo2 } from "lucide-react";
+import { ORDER_SORTS } from "@shared/lists";
+import { nextOrderStatuses } from "@shared/order-status";
+import { hasPermission } from "@shared/permissions";
+import type { Order, OrderRefunds, OrderStatusHistoryWithAdmin } from "@shared/schema";
 
 export default function Orders() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [sort, setSort] = useState("recent");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
   const [selectedOrder, setSelectedOrder] = useState<any>(null);
   const [showOrderDetails, setShowOrderDetails] = useState(false);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+  const { user } = useAuth();
   const { toast } = useToast();
 
-  const { data: orders = [], isLoading } = useQuery({
-    queryKey: ["/api/orders"],
+  const orders = usePaginatedList<Order>("/api/orders", {
+    search: searchQuery.trim(),
+    status: statusFilter,
+    sort,
+    ...dateRangeParams(fromDate, toDate),
+  });
+
+  const { data: statusHistory = [] } = useQuery<OrderStatusHistoryWithAdmin[]>({
+    queryKey: ["/api/orders", selectedOrder?.id, "history"],
+    enabled: showOrderDetails && !!selectedOrder,
+  });
+
+  const { data: orderRefunds } = useQuery<OrderRefunds>({
+    queryKey: ["/api/orders", selectedOrder?.id, "refunds"],
+    enabled: showOrderDetails && !!selectedOrder,
+  });
+
+  const issueRefundMutation = useMutation({
+    mutationFn: async ({ orderId, amountGhs, reason }: { orderId: string; amountGhs: string; reason: string }) => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/refunds`, { amountGhs, reason });
+      return response.json();
+    },
+    onSuccess: (refund) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setRefundAmount("");
+      setRefundReason("");
+      toast({
+        title: refund.status === "FAILED" ? "Refund failed" : "Refund sent",
+        description: refund.status === "FAILED"
+          ? refund.failureReason
+          : `₵${refund.amountGhs} is on its way back to the customer.`,
+        variant: refund.status === "FAILED" ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Refund failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const handleViewOrder = (order: any) => {
     setSelectedOrder(order);
+    setRefundAmount("");
+    setRefundReason("");
     setShowOrderDetails(true);
   };
 
@@ -51,16 +105,6 @@ export default function Orders() {
     },
   });
 
-  const filteredOrders = (orders as any[]).filter((order: any) => {
-    const matchesSearch = 
-      order.orderNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      order.customerPhone?.toLowerCase().includes(searchQuery.toLowerCase());
-    
-    const matchesStatus = statusFilter === "all" || order.status === statusFilter;
-
-    return matchesSearch && matchesStatus;
-  });
-
   const getStatusColor = (status: string) => {
     switch (status.toUpperCase()) {
       case 'PAID':
@@ -137,7 +181,7 @@ export default function Orders() {
           {/* Search and Filters */}
           <Card className="bg-white border border-gray-200 mb-6">
             <CardContent className="p-6">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div>
                   <Label className="block text-sm font-medium text-gray-700 mb-1">Search Orders</Label>
                   <div className="relative">
@@ -170,18 +214,37 @@ export default function Orders() {
                 </div>
                 <div>
                   <Label className="block text-sm font-medium text-gray-700 mb-1">Sort By</Label>
-                  <Select defaultValue="recent">
+                  <Select value={sort} onValueChange={setSort}>
                     <SelectTrigger data-testid="select-sort">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="recent">Most Recent</SelectItem>
-                      <SelectItem value="oldest">Oldest First</SelectItem>
-                      <SelectItem value="amount-high">Amount High-Low</SelectItem>
-                      <SelectItem value="amount-low">Amount Low-High</SelectItem>
+                      {Object.entries(ORDER_SORTS).map(([value, { label }]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-1">From</Label>
+                    <Input
+                      type="date"
+                      value={fromDate}
+                      onChange={(e) => setFromDate(e.target.value)}
+                      data-testid="input-orders-from"
+                    />
+                  </div>
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-1">To</Label>
+                    <Input
+                      type="date"
+                      value={toDate}
+                      onChange={(e) => setToDate(e.target.value)}
+                      data-testid="input-orders-to"
+                    />
+                  </div>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -213,7 +276,7 @@ export default function Orders() {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {isLoading ? (
+                  {orders.isLoading ? (
                     <tr>
                       <td colSpan={6} className="px-6 py-12 text-center">
                         <div className="flex items-center justify-center">
@@ -222,13 +285,13 @@ export default function Orders() {
                         </div>
                       </td>
                     </tr>
-                  ) : filteredOrders.length === 0 ? (
+                  ) : orders.items.length === 0 ? (
                     <tr>
                       <td colSpan={6} className="px-6 py-12 text-center">
                         <FileText className="mx-auto h-12 w-12 text-gray-400 mb-4" />
                         <p className="text-gray-500 text-lg">No orders found</p>
                         <p className="text-gray-400 text-sm">
-                          {searchQuery || statusFilter !== "all"
+                          {searchQuery || statusFilter !== "all" || fromDate || toDate
                             ? "Try adjusting your filters"
                             : "Orders will appear here once customers start purchasing"
                           }
@@ -236,7 +299,7 @@ export default function Orders() {
                       </td>
                     </tr>
                   ) : (
-                    filteredOrders.map((order: any) => (
+                    orders.items.map((order: any) => (
                       <tr key={order.id} className="hover:bg-gray-50" data-testid={`order-row-${order.id}`}>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div>
@@ -248,6 +311,11 @@ export default function Orders() {
                                 Tracking: {order.trackingNumber}
                               </div>
                             )}
+                            {order.status === 'CANCELLED' && order.refundDueAt && (
+                              <Badge className="bg-red-100 text-red-800 border-0 mt-1" data-testid={`order-refund-due-${order.id}`}>
+                                Refund due
+                              </Badge>
+                            )}
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
@@ -262,7 +330,7 @@ export default function Orders() {
                           <Select
                             value={order.status}
                             onValueChange={(value) => handleStatusChange(order.id, value)}
-                            disabled={updateOrderMutation.isPending}
+                            disabled={updateOrderMutation.isPending || nextOrderStatuses(order.status).length === 0}
                           >
                             <SelectTrigger className="w-32">
                               <Badge className={`${getStatusColor(order.status)} border-0`} data-testid={`order-status-${order.id}`}>
@@ -270,7 +338,8 @@ export default function Orders() {
                               </Badge>
                             </SelectTrigger>
                             <SelectContent>
-                              {orderStatuses.map((status) => (
+                              {/* Only the statuses the order may move to next */}
+                              {[order.status, ...nextOrderStatuses(order.status)].map((status) => (
                                 <SelectItem key={status} value={status}>
                                   {status}
                                 </SelectItem>
@@ -311,6 +380,18 @@ export default function Orders() {
                 </tbody>
               </table>
             </div>
+
+            <ListPagination
+              noun="orders"
+              offset={orders.offset}
+              shown={orders.items.length}
+              total={orders.total}
+              hasPrevious={orders.hasPrevious}
+              hasNext={orders.hasNext}
+              onPrevious={orders.previous}
+              onNext={orders.next}
+              testId="orders-pagination"
+            />
           </Card>
         </main>
       </div>
@@ -348,6 +429,11 @@ export default function Orders() {
                   <Badge className={`${getStatusColor(selectedOrder.status)} mt-1`}>
                     {selectedOrder.status}
                   </Badge>
+                  {selectedOrder.status === 'CANCELLED' && selectedOrder.refundDueAt && (
+                    <p className="mt-1 text-sm text-red-600">
+                      The customer paid after this order was cancelled. Refund the payment below.
+                    </p>
+                  )}
                 </div>
                 <div>
                   <Label className="text-sm font-medium text-gray-500">Date Created</Label>
@@ -369,6 +455,97 @@ export default function Orders() {
                 </div>
               )}
 
+              {orderRefunds && parseFloat(orderRefunds.paidGhs) > 0 && (
+                <div data-testid="order-refunds">
+                  <Label className="text-sm font-medium text-gray-500">Refunds</Label>
+                  <p className="mt-1 text-sm text-gray-900">
+                    Paid ₵{orderRefunds.paidGhs} · Refunded ₵{orderRefunds.refundedGhs}
+                    {parseFloat(orderRefunds.pendingGhs) > 0 && ` · Pending ₵${orderRefunds.pendingGhs}`}
+                  </p>
+                  {orderRefunds.refunds.length > 0 && (
+                    <ul className="mt-2 space-y-2">
+                      {orderRefunds.refunds.map((refund) => (
+                        <li key={refund.id} className="flex items-center justify-between text-sm" data-testid={`refund-row-${refund.id}`}>
+                          <span className="text-gray-900">
+                            ₵{refund.amountGhs}
+                            {refund.reason && <span className="text-gray-500"> ({refund.reason})</span>}
+                            {refund.failureReason && <span className="text-red-600"> – {refund.failureReason}</span>}
+                          </span>
+                          <Badge className={
+                            refund.status === 'SUCCESS' ? 'bg-green-100 text-green-800'
+                              : refund.status === 'FAILED' ? 'bg-red-100 text-red-800'
+                              : 'bg-yellow-100 text-yellow-800'
+                          }>
+                            {refund.status}
+                          </Badge>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {hasPermission(user?.role, "refunds:issue") && parseFloat(orderRefunds.refundableGhs) > 0 && (
+                    <div className="mt-3 flex items-end space-x-2">
+                      <div className="w-32">
+                        <Label htmlFor="refund-amount" className="text-xs text-gray-500">Amount (₵)</Label>
+                        <Input
+                          id="refund-amount"
+                          inputMode="decimal"
+                          placeholder={orderRefunds.refundableGhs}
+                          value={refundAmount}
+                          onChange={(e) => setRefundAmount(e.target.value)}
+                          data-testid="input-refund-amount"
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Label htmlFor="refund-reason" className="text-xs text-gray-500">Reason</Label>
+                        <Input
+                          id="refund-reason"
+                          placeholder="Optional"
+                          value={refundReason}
+                          onChange={(e) => setRefundReason(e.target.value)}
+                          data-testid="input-refund-reason"
+                        />
+                      </div>
+                      <Button
+                        variant="outline"
+                        onClick={() => issueRefundMutation.mutate({
+                          orderId: selectedOrder.id,
+                          // An empty amount refunds everything that is left
+                          amountGhs: refundAmount.trim() || orderRefunds.refundableGhs,
+                          reason: refundReason,
+                        })}
+                        disabled={issueRefundMutation.isPending}
+                        data-testid="button-issue-refund"
+                      >
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        {refundAmount.trim() ? "Refund" : "Refund All"}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <Label className="text-sm font-medium text-gray-500">Status History</Label>
+                {statusHistory.length === 0 ? (
+                  <p className="mt-1 text-sm text-gray-500">No status changes yet</p>
+                ) : (
+                  <ul className="mt-2 space-y-2" data-testid="order-status-history">
+                    {statusHistory.map((entry) => (
+                      <li key={entry.id} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-900">
+                          {entry.fromStatus} → {entry.toStatus}
+                          <span className="text-gray-500">
+                            {" "}by {entry.adminUser?.name || entry.actor}
+                            {entry.reason && ` (${entry.reason})`}
+                          </span>
+                        </span>
+                        <span className="text-gray-500">{formatDate(String(entry.createdAt))}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
               <div className="flex justify-end space-x-2 pt-4 border-t">
                 <Button variant="outline" onClick={() => setShowOrderDetails(false)}>
                   Close
@@ -3,19 +3,48 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Topbar } from "@/components/layout/topbar";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ListPagination } from "@/components/tables/list-pagination";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { usePaginatedList, dateRangeParams } from "@/hooks/use-paginated-list";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { RefreshCw, CheckCircle, Clock, XCircle, Percent, Info } from "lucide-react";
+import { RefreshCw, CheckCircle, Clock, XCircle, Percent, Info, Search, ShieldAlert } from "lucide-react";
+import { hasPermission } from "@shared/permissions";
+import { PAYMENT_SORTS, type StatusSummary } from "@shared/lists";
+import type { Payment, RejectedCallback } from "@shared/schema";
+
+const PAYMENT_STATUSES = ['PENDING', 'SUCCESS', 'FAILED', 'TIMEOUT', 'CANCELLED'];
 
 export default function Payments() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { user } = useAuth();
   const { toast } = useToast();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [sort, setSort] = useState("recent");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const payments = usePaginatedList<Payment>("/api/payments", {
+    search: searchQuery.trim(),
+    status: statusFilter,
+    sort,
+    ...dateRangeParams(fromDate, toDate),
+  });
+
+  const { data: summary } = useQuery<StatusSummary>({
+    queryKey: ["/api/payments/summary"],
+  });
 
-  const { data: payments = [], isLoading } = useQuery({
-    queryKey: ["/api/payments"],
+  // MTN callbacks refused for a bad signature, a replay or a mismatched amount
+  const { data: rejectedCallbacks = [] } = useQuery<RejectedCallback[]>({
+    queryKey: ["/api/payments/rejected-callbacks"],
   });
 
   const { data: reconciliationStatus } = useQuery({
@@ -29,6 +58,7 @@ export default function Payments() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payments/summary"] });
       queryClient.invalidateQueries({ queryKey: ["/api/reconciliation/status"] });
       toast({
         title: "Reconciliation completed",
@@ -63,12 +93,14 @@ export default function Payments() {
     return new Date(dateString).toLocaleString();
   };
 
+  // Metrics cover every payment, not just the page on screen
+  const countFor = (status: string) => summary?.byStatus[status]?.count ?? 0;
   const paymentMetrics = {
-    successful: payments.filter((p: any) => p.status === 'SUCCESS').length,
-    pending: payments.filter((p: any) => p.status === 'PENDING').length,
-    failed: payments.filter((p: any) => p.status === 'FAILED' || p.status === 'TIMEOUT').length,
-    successRate: payments.length > 0 
-      ? ((payments.filter((p: any) => p.status === 'SUCCESS').length / payments.length) * 100).toFixed(1)
+    successful: countFor('SUCCESS'),
+    pending: countFor('PENDING'),
+    failed: countFor('FAILED') + countFor('TIMEOUT'),
+    successRate: summary && summary.total > 0
+      ? ((countFor('SUCCESS') / summary.total) * 100).toFixed(1)
       : '0'
   };
 
@@ -100,15 +132,17 @@ export default function Payments() {
                 <h1 className="text-2xl font-bold text-gray-900">Payment Logs</h1>
                 <p className="mt-2 text-gray-600">MTN Mobile Money transaction history and reconciliation</p>
               </div>
-              <Button 
-                className="bg-blue-600 text-white hover:bg-blue-700"
-                onClick={() => forceReconciliationMutation.mutate()}
-                disabled={forceReconciliationMutation.isPending}
-                data-testid="button-force-reconciliation"
-              >
-                <RefreshCw className={`mr-2 h-4 w-4 ${forceReconciliationMutation.isPending ? 'animate-spin' : ''}`} />
-                Force Reconciliation
-              </Button>
+              {hasPermission(user?.role, "payments:reconcile") && (
+                <Button 
+                  className="bg-blue-600 text-white hover:bg-blue-700"
+                  onClick={() => forceReconciliationMutation.mutate()}
+                  disabled={forceReconciliationMutation.isPending}
+                  data-testid="button-force-reconciliation"
+                >
+                  <RefreshCw className={`mr-2 h-4 w-4 ${forceReconciliationMutation.isPending ? 'animate-spin' : ''}`} />
+                  Force Reconciliation
+                </Button>
+              )}
             </div>
           </div>
 
@@ -187,6 +221,77 @@ export default function Payments() {
             </Card>
           </div>
 
+          {/* Search and Filters */}
+          <Card className="bg-white border border-gray-200 mb-6">
+            <CardContent className="p-6">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <Label className="block text-sm font-medium text-gray-700 mb-1">Search Payments</Label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <Input
+                      type="text"
+                      placeholder="Order ID, MTN reference or phone..."
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      className="pl-10"
+                      data-testid="input-search-payments"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label className="block text-sm font-medium text-gray-700 mb-1">Status</Label>
+                  <Select value={statusFilter} onValueChange={setStatusFilter}>
+                    <SelectTrigger data-testid="select-payment-status-filter">
+                      <SelectValue placeholder="All Status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Status</SelectItem>
+                      {PAYMENT_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {status}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="block text-sm font-medium text-gray-700 mb-1">Sort By</Label>
+                  <Select value={sort} onValueChange={setSort}>
+                    <SelectTrigger data-testid="select-payment-sort">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PAYMENT_SORTS).map(([value, { label }]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-1">From</Label>
+                    <Input
+                      type="date"
+                      value={fromDate}
+                      onChange={(e) => setFromDate(e.target.value)}
+                      data-testid="input-payments-from"
+                    />
+                  </div>
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-1">To</Label>
+                    <Input
+                      type="date"
+                      value={toDate}
+                      onChange={(e) => setToDate(e.target.value)}
+                      data-testid="input-payments-to"
+                    />
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Payment Transactions Table */}
           <Card className="bg-white shadow-sm border border-gray-200">
             <CardHeader className="border-b border-gray-200">
@@ -229,7 +334,7 @@ export default function Payments() {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {isLoading ? (
+                  {payments.isLoading ? (
                     <tr>
                       <td colSpan={7} className="px-6 py-12 text-center">
                         <div className="flex items-center justify-center">
@@ -238,18 +343,21 @@ export default function Payments() {
                         </div>
                       </td>
                     </tr>
-                  ) : payments.length === 0 ? (
+                  ) : payments.items.length === 0 ? (
                     <tr>
                       <td colSpan={7} className="px-6 py-12 text-center">
                         <CheckCircle className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-                        <p className="text-gray-500 text-lg">No payment transactions yet</p>
+                        <p className="text-gray-500 text-lg">No payment transactions found</p>
                         <p className="text-gray-400 text-sm">
-                          Payment logs will appear here once customers start making purchases
+                          {searchQuery || statusFilter !== "all" || fromDate || toDate
+                            ? "Try adjusting your filters"
+                            : "Payment logs will appear here once customers start making purchases"
+                          }
                         </p>
                       </td>
                     </tr>
                   ) : (
-                    payments.map((payment: any) => (
+                    payments.items.map((payment: any) => (
                       <tr key={payment.id} className="hover:bg-gray-50" data-testid={`payment-row-${payment.id}`}>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <span className="font-mono text-sm text-blue-600" data-testid={`payment-order-${payment.id}`}>
@@ -260,6 +368,14 @@ export default function Payments() {
                           <span className="font-mono text-sm text-gray-900">
                             {payment.providerReference || 'PENDING'}
                           </span>
+                          {payment.financialTransactionId && (
+                            <p className="font-mono text-xs text-gray-500" data-testid={`payment-transaction-${payment.id}`}>
+                              Txn {payment.financialTransactionId}
+                            </p>
+                          )}
+                          {payment.status === 'PENDING' && payment.verificationQueuedAt && (
+                            <p className="text-xs text-yellow-700">Awaiting confirmation from MTN</p>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {payment.customerPhone}
@@ -291,6 +407,83 @@ export default function Payments() {
                 </tbody>
               </table>
             </div>
+
+            <ListPagination
+              noun="payments"
+              offset={payments.offset}
+              shown={payments.items.length}
+              total={payments.total}
+              hasPrevious={payments.hasPrevious}
+              hasNext={payments.hasNext}
+              onPrevious={payments.previous}
+              onNext={payments.next}
+              testId="payments-pagination"
+            />
+          </Card>
+
+          {/* Rejected Callbacks */}
+          <Card className="bg-white shadow-sm border border-gray-200 mt-8">
+            <CardHeader className="border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg font-medium text-gray-900">Rejected Callbacks</CardTitle>
+                <span className="text-sm text-gray-500">Latest {rejectedCallbacks.length}</span>
+              </div>
+            </CardHeader>
+            {rejectedCallbacks.length === 0 ? (
+              <CardContent className="py-8 text-center">
+                <ShieldAlert className="mx-auto h-10 w-10 text-gray-400 mb-3" />
+                <p className="text-gray-500 text-sm">No payment callbacks have been rejected</p>
+              </CardContent>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Reason
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Details
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Reference
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        IP Address
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Timestamp
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {rejectedCallbacks.map((callback) => (
+                      <tr key={callback.id} className="hover:bg-gray-50" data-testid={`rejected-callback-row-${callback.id}`}>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <Badge className="bg-red-100 text-red-800">
+                            {callback.reason.replace(/_/g, ' ')}
+                          </Badge>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {callback.message}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className="font-mono text-sm text-gray-900">
+                            {callback.payload?.referenceId || callback.payload?.externalId || 'N/A'}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {callback.ipAddress || 'Unknown'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatDate(String(callback.createdAt))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </Card>
 
           {/* Reconciliation Job Status */}
@@ -9,10 +9,13 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { ListPagination } from "@/components/tables/list-pagination";
 import { useToast } from "@/hooks/use-toast";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Plus, Search, Edit, Trash2, Package } from "lucide-react";
 import type { Product, Category } from "@shared/schema";
+import { PRODUCT_SORTS, PRODUCT_STATUSES } from "@shared/lists";
 
 export default function Products() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -21,10 +24,14 @@ export default function Products() {
   const [searchQuery, setSearchQuery] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [sort, setSort] = useState("recent");
   const { toast } = useToast();
 
-  const { data: products = [], isLoading } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  const products = usePaginatedList<Product>("/api/products", {
+    search: searchQuery.trim(),
+    categoryId: categoryFilter,
+    status: statusFilter,
+    sort,
   });
 
   const { data: categories = [] } = useQuery<Category[]>({
@@ -51,21 +58,6 @@ export default function Products() {
     },
   });
 
-  const filteredProducts = products.filter((product: Product) => {
-    const matchesSearch = 
-      product.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      product.sku.toLowerCase().includes(searchQuery.toLowerCase());
-    
-    const matchesCategory = categoryFilter === "all" || product.categoryId === categoryFilter;
-    
-    const matchesStatus = statusFilter === "all" || 
-      (statusFilter === "active" && product.isActive && product.stock > 0) ||
-      (statusFilter === "draft" && !product.isActive) ||
-      (statusFilter === "out-of-stock" && product.stock === 0);
-
-    return matchesSearch && matchesCategory && matchesStatus;
-  });
-
   const handleEditProduct = (product: Product) => {
     setEditingProduct(product);
     setIsModalOpen(true);
@@ -167,23 +159,22 @@ export default function Products() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Status</SelectItem>
-                      <SelectItem value="active">Active</SelectItem>
-                      <SelectItem value="draft">Draft</SelectItem>
-                      <SelectItem value="out-of-stock">Out of Stock</SelectItem>
+                      {Object.entries(PRODUCT_STATUSES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
                 <div>
                   <Label className="block text-sm font-medium text-gray-700 mb-1">Sort By</Label>
-                  <Select defaultValue="recent">
+                  <Select value={sort} onValueChange={setSort}>
                     <SelectTrigger data-testid="select-sort">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="recent">Recently Added</SelectItem>
-                      <SelectItem value="name">Name A-Z</SelectItem>
-                      <SelectItem value="price-low">Price Low-High</SelectItem>
-                      <SelectItem value="stock">Stock Level</SelectItem>
+                      {Object.entries(PRODUCT_SORTS).map(([value, { label }]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -221,7 +212,7 @@ export default function Products() {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {isLoading ? (
+                  {products.isLoading ? (
                     <tr>
                       <td colSpan={7} className="px-6 py-12 text-center">
                         <div className="flex items-center justify-center">
@@ -230,7 +221,7 @@ export default function Products() {
                         </div>
                       </td>
                     </tr>
-                  ) : filteredProducts.length === 0 ? (
+                  ) : products.items.length === 0 ? (
                     <tr>
                       <td colSpan={7} className="px-6 py-12 text-center">
                         <Package className="mx-auto h-12 w-12 text-gray-400 mb-4" />
@@ -244,7 +235,7 @@ export default function Products() {
                       </td>
                     </tr>
                   ) : (
-                    filteredProducts.map((product: any) => {
+                    products.items.map((product: any) => {
                       const stockStatus = getStockStatus(product.stock);
                       const category = categories.find((c: any) => c.id === product.categoryId);
                       
@@ -316,6 +307,18 @@ export default function Products() {
                 </tbody>
               </table>
             </div>
+
+            <ListPagination
+              noun="products"
+              offset={products.offset}
+              shown={products.items.length}
+              total={products.total}
+              hasPrevious={products.hasPrevious}
+              hasNext={products.hasNext}
+              onPrevious={products.previous}
+              onNext={products.next}
+              testId="products-pagination"
+            />
           </Card>
         </main>
       </div>
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ShoppingCart, TriangleAlert, Loader2 } from "lucide-react";
+
+export default function ResetPassword() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [form, setForm] = useState({ password: "", confirmPassword: "" });
+
+  const { data: resetRequest, isLoading, error } = useQuery<{ email: string }>({
+    queryKey: ["/api/password-reset", token],
+    retry: false,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (password: string) => {
+      const response = await apiRequest("POST", `/api/password-reset/${token}`, { password });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Password reset",
+        description: data.message,
+      });
+      setLocation("/auth");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not reset password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.password !== form.confirmPassword) {
+      toast({
+        title: "Password mismatch",
+        description: "Password and confirmation password do not match.",
+        variant: "destructive",
+      });
+      return;
+    }
+    resetMutation.mutate(form.password);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className="mx-auto h-16 w-16 bg-blue-600 rounded-full flex items-center justify-center mb-4">
+            <ShoppingCart className="text-white text-2xl h-8 w-8" />
+          </div>
+          <h2 className="text-3xl font-bold text-gray-900">EcomBot Admin</h2>
+          <p className="mt-2 text-gray-600">Telegram E-commerce Management System</p>
+        </div>
+
+        <Card className="bg-white shadow-lg border border-gray-200">
+          <CardHeader>
+            <CardTitle>Choose a New Password</CardTitle>
+            <CardDescription>
+              You will be signed out on every device and can then sign in with the new password
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+              </div>
+            ) : error || !resetRequest ? (
+              <div className="space-y-4">
+                <Alert className="bg-amber-50 border-amber-200" data-testid="reset-invalid">
+                  <TriangleAlert className="h-4 w-4 text-amber-600" />
+                  <AlertDescription className="text-amber-800">
+                    This reset link is invalid, has expired or was already used.
+                  </AlertDescription>
+                </Alert>
+                <div className="text-center text-sm">
+                  <Link href="/forgot-password" className="text-blue-600 hover:text-blue-800">
+                    Request a new link
+                  </Link>
+                </div>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Email Address</Label>
+                  <div className="text-sm text-gray-900" data-testid="reset-email">{resetRequest.email}</div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="reset-password">New Password</Label>
+                  <Input
+                    id="reset-password"
+                    type="password"
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                    placeholder="Create a strong password"
+                    required
+                    minLength={8}
+                    data-testid="input-reset-password"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="reset-confirm-password">Confirm New Password</Label>
+                  <Input
+                    id="reset-confirm-password"
+                    type="password"
+                    value={form.confirmPassword}
+                    onChange={(e) => setForm({ ...form, confirmPassword: e.target.value })}
+                    placeholder="Confirm your new password"
+                    required
+                    data-testid="input-reset-confirm-password"
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full bg-blue-600 hover:bg-blue-700"
+                  disabled={resetMutation.isPending}
+                  data-testid="button-reset-password"
+                >
+                  {resetMutation.isPending ? "Saving..." : "Reset Password"}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
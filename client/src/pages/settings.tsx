@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Topbar } from "@/components/layout/topbar";
 import { Button } from "@/components/ui/button";
@@ -8,9 +8,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { Settings, User, Lock, AlertTriangle, Bot, Webhook, CreditCard, Globe } from "lucide-react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
+import { TwoFactorCard } from "@/components/account/two-factor-card";
+import { SessionsCard } from "@/components/account/sessions-card";
+import { SettingsGroupCard } from "@/components/settings/settings-group-card";
+import type { SystemSetting } from "@shared/schema";
+import { Settings, User, Lock, AlertTriangle, Bot, Webhook, CreditCard, Globe, Store, ShoppingCart } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 
 export default function SettingsPage() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -19,22 +23,12 @@ export default function SettingsPage() {
     newPassword: "",
     confirmPassword: ""
   });
-  const [telegramBotToken, setTelegramBotToken] = useState("");
-  const [mtnSettings, setMtnSettings] = useState({
-    userId: "",
-    primaryKey: "",
-    secondaryKey: "",
-    subscriptionKey: "",
-    apiBaseUrl: "https://sandbox.momodeveloper.mtn.com",
-    environment: "sandbox",
-    callbackSecret: ""
-  });
   const { user, changePasswordMutation } = useAuth();
   const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const canWriteSettings = hasPermission(user?.role, 'settings:write');
 
   // Fetch system settings
-  const { data: settings = [] } = useQuery({
+  const { data: settings = [] } = useQuery<SystemSetting[]>({
     queryKey: ['/api/settings'],
     queryFn: async () => {
       const response = await fetch('/api/settings', {
@@ -42,36 +36,10 @@ export default function SettingsPage() {
       });
       if (!response.ok) throw new Error('Failed to fetch settings');
       return response.json();
-    }
-  });
-
-  // Update system setting mutation
-  const updateSettingMutation = useMutation({
-    mutationFn: async ({ key, value, description }: { key: string; value: string; description?: string }) => {
-      const response = await fetch('/api/settings', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ key, value, description })
-      });
-      if (!response.ok) throw new Error('Failed to save setting');
-      return response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
-      toast({
-        title: "Settings Updated",
-        description: "Your settings have been saved successfully.",
-      });
-    },
-    onError: (error: any) => {
-      toast({
-        title: "Error",
-        description: "Failed to save settings. Please try again.",
-        variant: "destructive",
-      });
-    }
+    enabled: canWriteSettings
   });
+  const hasBotToken = !!settings.find((setting) => setting.key === 'TELEGRAM_BOT_TOKEN')?.value;
 
   // Webhook registration mutation
   const registerWebhookMutation = useMutation({
@@ -115,119 +83,6 @@ export default function SettingsPage() {
     enabled: false // Only fetch when explicitly requested
   });
 
-  // Load current settings
-  useEffect(() => {
-    if (Array.isArray(settings)) {
-      const botTokenSetting = settings.find((s: any) => s.key === 'TELEGRAM_BOT_TOKEN');
-      if (botTokenSetting) {
-        setTelegramBotToken(botTokenSetting.value || '');
-      }
-
-      // Load MTN MoMo settings
-      const mtnUserId = settings.find((s: any) => s.key === 'MTN_USER_ID');
-      const mtnPrimaryKey = settings.find((s: any) => s.key === 'MTN_PRIMARY_KEY');
-      const mtnSecondaryKey = settings.find((s: any) => s.key === 'MTN_SECONDARY_KEY');
-      const mtnSubscriptionKey = settings.find((s: any) => s.key === 'MTN_SUBSCRIPTION_KEY');
-      const mtnApiBaseUrl = settings.find((s: any) => s.key === 'MTN_API_BASE_URL');
-      const mtnEnvironment = settings.find((s: any) => s.key === 'MTN_ENV');
-      const mtnCallbackSecret = settings.find((s: any) => s.key === 'MTN_CALLBACK_SECRET');
-
-      setMtnSettings({
-        userId: mtnUserId?.value || '',
-        primaryKey: mtnPrimaryKey?.value || '',
-        secondaryKey: mtnSecondaryKey?.value || '',
-        subscriptionKey: mtnSubscriptionKey?.value || '',
-        apiBaseUrl: mtnApiBaseUrl?.value || 'https://sandbox.momodeveloper.mtn.com',
-        environment: mtnEnvironment?.value || 'sandbox',
-        callbackSecret: mtnCallbackSecret?.value || ''
-      });
-    }
-  }, [settings]);
-
-  const handleTelegramSave = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!telegramBotToken.trim()) {
-      toast({
-        title: "Validation Error",
-        description: "Please enter a valid Telegram bot token.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    updateSettingMutation.mutate({
-      key: 'TELEGRAM_BOT_TOKEN',
-      value: telegramBotToken,
-      description: 'Telegram bot token for e-commerce bot'
-    });
-  };
-
-  const handleMtnSave = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!mtnSettings.userId.trim() || !mtnSettings.primaryKey.trim() || !mtnSettings.subscriptionKey.trim()) {
-      toast({
-        title: "Validation Error",
-        description: "Please enter User ID, Primary Key, and Subscription Key.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    // Save all MTN settings
-    const promises = [
-      updateSettingMutation.mutateAsync({
-        key: 'MTN_USER_ID',
-        value: mtnSettings.userId,
-        description: 'MTN MoMo API User ID'
-      }),
-      updateSettingMutation.mutateAsync({
-        key: 'MTN_PRIMARY_KEY',
-        value: mtnSettings.primaryKey,
-        description: 'MTN MoMo API Primary Key'
-      }),
-      updateSettingMutation.mutateAsync({
-        key: 'MTN_SECONDARY_KEY',
-        value: mtnSettings.secondaryKey,
-        description: 'MTN MoMo API Secondary Key'
-      }),
-      updateSettingMutation.mutateAsync({
-        key: 'MTN_SUBSCRIPTION_KEY',
-        value: mtnSettings.subscriptionKey,
-        description: 'MTN MoMo Subscription Key'
-      }),
-      updateSettingMutation.mutateAsync({
-        key: 'MTN_API_BASE_URL',
-        value: mtnSettings.apiBaseUrl,
-        description: 'MTN MoMo API Base URL'
-      }),
-      updateSettingMutation.mutateAsync({
-        key: 'MTN_ENV',
-        value: mtnSettings.environment,
-        description: 'MTN MoMo Environment (sandbox/production)'
-      }),
-      updateSettingMutation.mutateAsync({
-        key: 'MTN_CALLBACK_SECRET',
-        value: mtnSettings.callbackSecret,
-        description: 'MTN MoMo Webhook Callback Secret'
-      })
-    ];
-
-    Promise.all(promises).then(() => {
-      toast({
-        title: "MTN MoMo Settings Updated",
-        description: "Your payment settings have been saved successfully.",
-      });
-    }).catch(() => {
-      toast({
-        title: "Error",
-        description: "Failed to save MTN MoMo settings. Please try again.",
-        variant: "destructive",
-      });
-    });
-  };
-
   const handlePasswordChange = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -347,31 +202,13 @@ export default function SettingsPage() {
               </CardContent>
             </Card>
 
-            {/* Telegram Bot Configuration */}
-            <Card className="bg-white shadow-sm border border-gray-200">
-              <CardHeader className="border-b border-gray-200">
-                <CardTitle className="flex items-center space-x-2">
-                  <Bot className="h-5 w-5" />
-                  <span>Telegram Bot Configuration</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="p-6">
-                <form onSubmit={handleTelegramSave} className="space-y-4">
-                  <div>
-                    <Label htmlFor="telegramBotToken">Telegram Bot Token</Label>
-                    <Input
-                      id="telegramBotToken"
-                      type="password"
-                      value={telegramBotToken}
-                      onChange={(e) => setTelegramBotToken(e.target.value)}
-                      placeholder="Enter your Telegram bot token (e.g., 123456789:ABC...)"
-                      data-testid="input-telegram-bot-token"
-                    />
-                    <p className="mt-1 text-sm text-gray-500">
-                      Get your bot token from <a href="https://t.me/BotFather" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">@BotFather</a> on Telegram
-                    </p>
-                  </div>
-                  
+            {canWriteSettings && (
+              <>
+                {/* Store Profile */}
+                <SettingsGroupCard group="store" icon={Store} settings={settings} />
+
+                {/* Telegram Bot Configuration */}
+                <SettingsGroupCard group="telegram" icon={Bot} settings={settings}>
                   <div className="space-y-3">
                     <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
                       <div className="flex items-start space-x-2">
@@ -384,7 +221,7 @@ export default function SettingsPage() {
                         </div>
                       </div>
                     </div>
-                    
+
                     {/* Bot Status and Test Section */}
                     <div className="border border-gray-200 rounded-md p-4 bg-gray-50">
                       <div className="flex items-center justify-between mb-3">
@@ -400,7 +237,7 @@ export default function SettingsPage() {
                           Check Status
                         </Button>
                       </div>
-                      
+
                       {botStatus && (
                         <div className="space-y-2 mb-3">
                           <div className="flex items-center space-x-2 text-xs">
@@ -409,7 +246,7 @@ export default function SettingsPage() {
                               Bot Token: {botStatus.configured ? 'Configured' : 'Not Configured'}
                             </span>
                           </div>
-                          
+
                           {botStatus.webhookInfo && (
                             <div className="text-xs text-gray-600">
                               <p>Current Webhook: {botStatus.webhookInfo.url || 'Not set'}</p>
@@ -418,7 +255,7 @@ export default function SettingsPage() {
                               )}
                             </div>
                           )}
-                          
+
                           {botStatus.environment && (
                             <div className="text-xs text-gray-600">
                               <p>Mode: {botStatus.environment.isProduction ? 'Production' : 'Development'}</p>
@@ -431,148 +268,28 @@ export default function SettingsPage() {
                           )}
                         </div>
                       )}
-                      
+
                       <Button
                         type="button"
                         variant="outline"
                         size="sm"
                         onClick={() => registerWebhookMutation.mutate()}
-                        disabled={registerWebhookMutation.isPending || !telegramBotToken}
+                        disabled={registerWebhookMutation.isPending || !hasBotToken}
                         className="w-full text-sm bg-green-50 hover:bg-green-100 text-green-700 border-green-200"
                         data-testid="button-register-webhook"
                       >
                         {registerWebhookMutation.isPending ? "Registering..." : "🚀 Test Webhook Registration"}
                       </Button>
-                      
+
                       <p className="text-xs text-gray-500 mt-2">
                         This will register your bot webhook in the current environment so you can test bot functionality immediately.
                       </p>
                     </div>
                   </div>
-                  
-                  <Button 
-                    type="submit" 
-                    disabled={updateSettingMutation.isPending}
-                    className="bg-blue-600 hover:bg-blue-700"
-                    data-testid="button-save-telegram-bot"
-                  >
-                    {updateSettingMutation.isPending ? "Saving..." : "Save Bot Token"}
-                  </Button>
-                </form>
-              </CardContent>
-            </Card>
+                </SettingsGroupCard>
 
-            {/* MTN Mobile Money Configuration */}
-            <Card className="bg-white shadow-sm border border-gray-200">
-              <CardHeader className="border-b border-gray-200">
-                <CardTitle className="flex items-center space-x-2">
-                  <CreditCard className="h-5 w-5" />
-                  <span>MTN Mobile Money Configuration</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="p-6">
-                <form onSubmit={handleMtnSave} className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="mtnUserId">User ID</Label>
-                      <Input
-                        id="mtnUserId"
-                        type="text"
-                        value={mtnSettings.userId}
-                        onChange={(e) => setMtnSettings({ ...mtnSettings, userId: e.target.value })}
-                        placeholder="Enter MTN MoMo User ID"
-                        data-testid="input-mtn-user-id"
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="mtnPrimaryKey">Primary Key</Label>
-                      <Input
-                        id="mtnPrimaryKey"
-                        type="password"
-                        value={mtnSettings.primaryKey}
-                        onChange={(e) => setMtnSettings({ ...mtnSettings, primaryKey: e.target.value })}
-                        placeholder="Enter your Primary Key from MTN Developer Portal"
-                        data-testid="input-mtn-primary-key"
-                      />
-                    </div>
-                  </div>
-                  
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="mtnSecondaryKey">Secondary Key (Optional)</Label>
-                      <Input
-                        id="mtnSecondaryKey"
-                        type="password"
-                        value={mtnSettings.secondaryKey}
-                        onChange={(e) => setMtnSettings({ ...mtnSettings, secondaryKey: e.target.value })}
-                        placeholder="Enter your Secondary Key (optional)"
-                        data-testid="input-mtn-secondary-key"
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="mtnSubscriptionKey">Subscription Key</Label>
-                      <Input
-                        id="mtnSubscriptionKey"
-                        type="password"
-                        value={mtnSettings.subscriptionKey}
-                        onChange={(e) => setMtnSettings({ ...mtnSettings, subscriptionKey: e.target.value })}
-                        placeholder="Enter your Subscription Key"
-                        data-testid="input-mtn-subscription-key"
-                      />
-                    </div>
-                  </div>
-                  
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="mtnEnvironment">Environment</Label>
-                      <select
-                        id="mtnEnvironment"
-                        value={mtnSettings.environment}
-                        onChange={(e) => {
-                          const env = e.target.value;
-                          setMtnSettings({ 
-                            ...mtnSettings, 
-                            environment: env,
-                            apiBaseUrl: env === 'production' 
-                              ? 'https://momodeveloper.mtn.com' 
-                              : 'https://sandbox.momodeveloper.mtn.com'
-                          });
-                        }}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                        data-testid="select-mtn-environment"
-                      >
-                        <option value="sandbox">Sandbox (Testing)</option>
-                        <option value="production">Production (Live)</option>
-                      </select>
-                    </div>
-                    <div>
-                      <Label htmlFor="mtnApiBaseUrl">API Base URL</Label>
-                      <Input
-                        id="mtnApiBaseUrl"
-                        type="url"
-                        value={mtnSettings.apiBaseUrl}
-                        onChange={(e) => setMtnSettings({ ...mtnSettings, apiBaseUrl: e.target.value })}
-                        placeholder="MTN MoMo API Base URL"
-                        data-testid="input-mtn-api-url"
-                      />
-                    </div>
-                  </div>
-
-                  <div>
-                    <Label htmlFor="mtnCallbackSecret">Webhook Callback Secret</Label>
-                    <Input
-                      id="mtnCallbackSecret"
-                      type="password"
-                      value={mtnSettings.callbackSecret}
-                      onChange={(e) => setMtnSettings({ ...mtnSettings, callbackSecret: e.target.value })}
-                      placeholder="Enter webhook callback secret for payment notifications"
-                      data-testid="input-mtn-callback-secret"
-                    />
-                    <p className="mt-1 text-sm text-gray-500">
-                      Used to verify payment webhook notifications for security
-                    </p>
-                  </div>
-                  
+                {/* MTN Mobile Money Configuration */}
+                <SettingsGroupCard group="mtn" icon={CreditCard} settings={settings}>
                   <div className="bg-amber-50 border border-amber-200 rounded-md p-3">
                     <div className="flex items-start space-x-2">
                       <Globe className="h-4 w-4 text-amber-600 mt-0.5" />
@@ -590,18 +307,12 @@ export default function SettingsPage() {
                       </div>
                     </div>
                   </div>
-                  
-                  <Button 
-                    type="submit" 
-                    disabled={updateSettingMutation.isPending}
-                    className="bg-blue-600 hover:bg-blue-700"
-                    data-testid="button-save-mtn-settings"
-                  >
-                    {updateSettingMutation.isPending ? "Saving..." : "Save MTN MoMo Settings"}
-                  </Button>
-                </form>
-              </CardContent>
-            </Card>
+                </SettingsGroupCard>
+
+                {/* Checkout */}
+                <SettingsGroupCard group="checkout" icon={ShoppingCart} settings={settings} />
+              </>
+            )}
 
             {/* Change Password */}
             <Card className="bg-white shadow-sm border border-gray-200">
@@ -668,6 +379,12 @@ export default function SettingsPage() {
               </CardContent>
             </Card>
 
+            {/* Two-Factor Authentication */}
+            <TwoFactorCard />
+
+            {/* Active Sessions */}
+            <SessionsCard />
+
             {/* System Information */}
             <Card className="bg-white shadow-sm border border-gray-200">
               <CardHeader className="border-b border-gray-200">
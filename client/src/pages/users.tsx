@@ -0,0 +1,519 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Topbar } from "@/components/layout/topbar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { UserPlus, UserCog, Link as LinkIcon, Copy, Mail, ShieldCheck } from "lucide-react";
+import { ROLE_PERMISSIONS, PERMISSIONS } from "@shared/permissions";
+
+const emptyInvite = { name: "", email: "", role: "staff" };
+
+export default function Users() {
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [inviteForm, setInviteForm] = useState(emptyInvite);
+  const [createdInvitation, setCreatedInvitation] = useState<any>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: users = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/admin-users"],
+  });
+
+  const { data: invitations = [] } = useQuery<any[]>({
+    queryKey: ["/api/admin-users/invitations"],
+  });
+
+  const { data: twoFactorPolicy } = useQuery<{ requiredRoles: string[] }>({
+    queryKey: ["/api/admin-users/two-factor-policy"],
+  });
+  const requiredRoles = twoFactorPolicy?.requiredRoles ?? [];
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: typeof emptyInvite) => {
+      const response = await apiRequest("POST", "/api/admin-users/invitations", data);
+      return response.json();
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin-users/invitations"] });
+      setCreatedInvitation(created);
+      setInviteForm(emptyInvite);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Invite failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      await apiRequest("DELETE", `/api/admin-users/invitations/${invitationId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin-users/invitations"] });
+      toast({
+        title: "Invitation revoked",
+        description: "The invitation link no longer works.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Revoke failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; role?: string; isActive?: boolean }) => {
+      const response = await apiRequest("PUT", `/api/admin-users/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: (_data, { isActive }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin-users"] });
+      toast({
+        title: "User updated",
+        description: isActive === false
+          ? "The user has been deactivated and signed out of every session."
+          : "The user's access has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const twoFactorPolicyMutation = useMutation({
+    mutationFn: async (roles: string[]) => {
+      const response = await apiRequest("PUT", "/api/admin-users/two-factor-policy", { requiredRoles: roles });
+      return response.json();
+    },
+    onSuccess: (policy) => {
+      queryClient.setQueryData(["/api/admin-users/two-factor-policy"], policy);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Two-factor policy updated",
+        description: "Users in the selected roles must set up two-factor authentication.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/admin-users/${id}/reset-two-factor`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin-users"] });
+      toast({
+        title: "Two-factor authentication reset",
+        description: "The user can sign in with their password and set it up again.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reset failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unlockUserMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/admin-users/${id}/unlock`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin-users"] });
+      toast({
+        title: "User unlocked",
+        description: "The user can sign in again.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Unlock failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRequiredRoleChange = (role: string, required: boolean) => {
+    twoFactorPolicyMutation.mutate(
+      required ? [...requiredRoles, role] : requiredRoles.filter((r) => r !== role)
+    );
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    inviteMutation.mutate(inviteForm);
+  };
+
+  const handleInviteOpenChange = (open: boolean) => {
+    setIsInviteOpen(open);
+    if (!open) {
+      setCreatedInvitation(null);
+    }
+  };
+
+  const copyInviteLink = async () => {
+    await navigator.clipboard.writeText(createdInvitation.inviteUrl);
+    toast({
+      title: "Link copied",
+      description: "Send it to the invitee; it can only be used once.",
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Mobile sidebar */}
+      <div
+        className={`fixed inset-0 z-50 lg:hidden ${sidebarOpen ? 'block' : 'hidden'}`}
+        onClick={() => setSidebarOpen(false)}
+      >
+        <div className="fixed inset-y-0 left-0 z-50 w-64">
+          <Sidebar />
+        </div>
+      </div>
+
+      {/* Desktop sidebar */}
+      <div className="hidden lg:fixed lg:inset-y-0 lg:left-0 lg:z-50 lg:block lg:w-64">
+        <Sidebar />
+      </div>
+
+      {/* Main content */}
+      <div className="lg:pl-64">
+        <Topbar onToggleSidebar={() => setSidebarOpen(!sidebarOpen)} />
+
+        <main className="py-8 px-4 sm:px-6 lg:px-8" data-testid="users-content">
+          <div className="mb-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+                <p className="mt-2 text-gray-600">Manage who can access the dashboard and what they can do</p>
+              </div>
+              <Dialog open={isInviteOpen} onOpenChange={handleInviteOpenChange}>
+                <DialogTrigger asChild>
+                  <Button
+                    className="bg-green-600 text-white hover:bg-green-700"
+                    data-testid="button-invite-user"
+                  >
+                    <UserPlus className="mr-2 h-4 w-4" />
+                    Invite User
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-md">
+                  <DialogHeader>
+                    <DialogTitle>Invite User</DialogTitle>
+                  </DialogHeader>
+                  {createdInvitation ? (
+                    <div className="space-y-4">
+                      <Alert className="bg-green-50 border-green-200">
+                        <LinkIcon className="h-4 w-4 text-green-600" />
+                        <AlertDescription className="text-green-800">
+                          Send this link to <strong>{createdInvitation.email}</strong>. It works once, expires on{" "}
+                          {new Date(createdInvitation.expiresAt).toLocaleString()} and will not be shown again.
+                        </AlertDescription>
+                      </Alert>
+                      <div className="flex space-x-2">
+                        <Input readOnly value={createdInvitation.inviteUrl} className="font-mono text-xs" data-testid="text-invite-url" />
+                        <Button type="button" variant="outline" onClick={copyInviteLink} data-testid="button-copy-invite-url">
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="flex justify-end">
+                        <Button onClick={() => handleInviteOpenChange(false)} data-testid="button-invite-done">
+                          Done
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <form onSubmit={handleInvite} className="space-y-4">
+                      <div>
+                        <Label htmlFor="inviteName">Name</Label>
+                        <Input
+                          id="inviteName"
+                          value={inviteForm.name}
+                          onChange={(e) => setInviteForm({ ...inviteForm, name: e.target.value })}
+                          required
+                          data-testid="input-invite-name"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="inviteEmail">Email</Label>
+                        <Input
+                          id="inviteEmail"
+                          type="email"
+                          value={inviteForm.email}
+                          onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                          required
+                          data-testid="input-invite-email"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="inviteRole">Role</Label>
+                        <Select value={inviteForm.role} onValueChange={(value) => setInviteForm({ ...inviteForm, role: value })}>
+                          <SelectTrigger id="inviteRole" data-testid="select-invite-role">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="staff">Staff</SelectItem>
+                            <SelectItem value="admin">Admin</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex justify-end space-x-2">
+                        <Button type="button" variant="outline" onClick={() => handleInviteOpenChange(false)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          type="submit"
+                          disabled={inviteMutation.isPending}
+                          className="bg-green-600 text-white hover:bg-green-700"
+                          data-testid="button-send-invite"
+                        >
+                          {inviteMutation.isPending ? "Creating..." : "Create Invite Link"}
+                        </Button>
+                      </div>
+                    </form>
+                  )}
+                </DialogContent>
+              </Dialog>
+            </div>
+          </div>
+
+          {/* Users Table */}
+          <Card className="bg-white shadow-sm border border-gray-200 mb-6">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      User
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Role
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      2FA
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Active
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {isLoading ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-12 text-center">
+                        <div className="flex items-center justify-center">
+                          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                          <span className="ml-2 text-gray-500">Loading users...</span>
+                        </div>
+                      </td>
+                    </tr>
+                  ) : (
+                    users.map((member: any) => {
+                      const isSelf = member.id === user?.id;
+
+                      return (
+                        <tr key={member.id} className="hover:bg-gray-50" data-testid={`user-row-${member.id}`}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm font-medium text-gray-900">
+                              {member.name}{isSelf && " (you)"}
+                            </div>
+                            <div className="text-sm text-gray-500">{member.email}</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <Select
+                              value={member.role}
+                              disabled={isSelf || updateUserMutation.isPending}
+                              onValueChange={(role) => updateUserMutation.mutate({ id: member.id, role })}
+                            >
+                              <SelectTrigger className="w-32" data-testid={`select-user-role-${member.id}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="staff">Staff</SelectItem>
+                                <SelectItem value="admin">Admin</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {!member.isActive ? (
+                              <Badge className="bg-gray-100 text-gray-800">Deactivated</Badge>
+                            ) : member.lockedUntil ? (
+                              <div className="flex items-center space-x-2">
+                                <Badge
+                                  className="bg-red-100 text-red-800"
+                                  title={`Locked until ${new Date(member.lockedUntil).toLocaleString()}`}
+                                >
+                                  Locked
+                                </Badge>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-blue-600 hover:text-blue-900"
+                                  onClick={() => unlockUserMutation.mutate(member.id)}
+                                  disabled={unlockUserMutation.isPending}
+                                  data-testid={`button-unlock-user-${member.id}`}
+                                >
+                                  Unlock
+                                </Button>
+                              </div>
+                            ) : member.mustChangePassword ? (
+                              <Badge className="bg-yellow-100 text-yellow-800">Password Change Required</Badge>
+                            ) : (
+                              <Badge className="bg-green-100 text-green-800">Active</Badge>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {member.twoFactorEnabled ? (
+                              <div className="flex items-center space-x-2">
+                                <Badge className="bg-green-100 text-green-800">On</Badge>
+                                {!isSelf && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="text-red-600 hover:text-red-900"
+                                    onClick={() => resetTwoFactorMutation.mutate(member.id)}
+                                    disabled={resetTwoFactorMutation.isPending}
+                                    data-testid={`button-reset-two-factor-${member.id}`}
+                                  >
+                                    Reset
+                                  </Button>
+                                )}
+                              </div>
+                            ) : (
+                              <Badge className="bg-gray-100 text-gray-800">Off</Badge>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <Switch
+                              checked={member.isActive}
+                              disabled={isSelf || updateUserMutation.isPending}
+                              onCheckedChange={(isActive) => updateUserMutation.mutate({ id: member.id, isActive })}
+                              data-testid={`switch-user-active-${member.id}`}
+                            />
+                          </td>
+                        </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+
+          {/* Pending Invitations */}
+          {invitations.length > 0 && (
+            <Card className="bg-white shadow-sm border border-gray-200 mb-6 p-6">
+              <h3 className="flex items-center text-lg font-medium text-gray-900 mb-4">
+                <Mail className="mr-2 h-5 w-5" />
+                Pending Invitations
+              </h3>
+              <ul className="divide-y divide-gray-200">
+                {invitations.map((invitation: any) => (
+                  <li key={invitation.id} className="flex items-center justify-between py-3" data-testid={`invitation-row-${invitation.id}`}>
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{invitation.name} · {invitation.email}</p>
+                      <p className="text-xs text-gray-500">
+                        <span className="capitalize">{invitation.role}</span> · expires {new Date(invitation.expiresAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-900"
+                      onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                      disabled={revokeInvitationMutation.isPending}
+                      data-testid={`button-revoke-invitation-${invitation.id}`}
+                    >
+                      Revoke
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </Card>
+          )}
+
+          {/* Two-factor policy */}
+          <Card className="bg-white shadow-sm border border-gray-200 mb-6 p-6">
+            <h3 className="flex items-center text-lg font-medium text-gray-900 mb-2">
+              <ShieldCheck className="mr-2 h-5 w-5" />
+              Two-Factor Authentication Policy
+            </h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Users in these roles must set up two-factor authentication before they can use the dashboard.
+            </p>
+            <div className="space-y-3">
+              {Object.keys(ROLE_PERMISSIONS).map((role) => (
+                <div key={role} className="flex items-center justify-between">
+                  <Label htmlFor={`require-2fa-${role}`} className="capitalize">{role}</Label>
+                  <Switch
+                    id={`require-2fa-${role}`}
+                    checked={requiredRoles.includes(role)}
+                    disabled={twoFactorPolicyMutation.isPending}
+                    onCheckedChange={(required) => handleRequiredRoleChange(role, required)}
+                    data-testid={`switch-require-2fa-${role}`}
+                  />
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          {/* Role reference */}
+          <Card className="bg-white shadow-sm border border-gray-200 p-6">
+            <h3 className="flex items-center text-lg font-medium text-gray-900 mb-4">
+              <UserCog className="mr-2 h-5 w-5" />
+              Role Permissions
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {Object.entries(ROLE_PERMISSIONS).map(([role, permissions]) => (
+                <div key={role}>
+                  <p className="text-sm font-medium text-gray-900 capitalize mb-2">{role}</p>
+                  <ul className="space-y-1 text-sm text-gray-600 list-disc list-inside">
+                    {permissions.map((permission) => (
+                      <li key={permission}>{PERMISSIONS[permission]}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </Card>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,18 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { AdminUser as SelectAdminUser } from "@shared/schema";
+import { twoFactorService } from "./services/two-factor";
+import { auditService } from "./services/audit";
+import { loginProtectionService } from "./services/login-protection";
+import { emailService } from "./services/email";
+import { storeProfileService } from "./services/store-profile";
+import { WebhookHelper } from "./services/webhook-helper";
+import { sessionService } from "./services/sessions";
+import { AdminUser as SelectAdminUser, type SessionMetadata } from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -13,8 +20,23 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Set once the password of a 2FA user checks out; the user is only logged in after the code
+    twoFactorPending?: { userId: string; expiresAt: number; attempts: number };
+    // Where and when the session was used, shown to its owner under "My sessions"
+    meta?: SessionMetadata;
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
+const MIN_PASSWORD_LENGTH = 8;
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60');
+const ACCOUNT_LOCKED_MESSAGE = "This account is temporarily locked after too many failed logins. Try again later or ask an administrator to unlock it.";
+
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
@@ -28,6 +50,29 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Invitation links carry a random token; only its SHA-256 hash is stored
+function generateToken() {
+  return randomBytes(32).toString("hex");
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// The signed-in user as the dashboard sees it; never includes the password or 2FA secrets
+async function toAuthUserResponse(user: SelectAdminUser) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    mustChangePassword: user.mustChangePassword,
+    twoFactorEnabled: !!user.twoFactorEnabledAt,
+    twoFactorRequired: await twoFactorService.isRequiredFor(user.role),
+    recoveryCodesRemaining: user.twoFactorEnabledAt ? user.twoFactorRecoveryCodes.length : 0
+  };
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || 'telegram-ecom-bot-secret-key',
@@ -45,14 +90,28 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use((req, res, next) => {
+    if (req.isAuthenticated()) sessionService.touch(req);
+    next();
+  });
 
   passport.use(
     new LocalStrategy(
-      { usernameField: 'email' },
-      async (email, password, done) => {
+      { usernameField: 'email', passReqToCallback: true },
+      async (req, email, password, done) => {
         try {
           const user = await storage.getAdminUserByEmail(email);
+          // Checked before the password so a locked account can't be used to confirm a guess
+          if (user && loginProtectionService.isLocked(user)) {
+            await loginProtectionService.recordFailure(req, email, user, 'locked');
+            return done(null, false, { message: ACCOUNT_LOCKED_MESSAGE });
+          }
           if (!user || !user.isActive || !(await comparePasswords(password, user.password))) {
+            const reason = user && !user.isActive ? 'inactive' : 'invalid_credentials';
+            const updated = await loginProtectionService.recordFailure(req, email, user, reason);
+            if (updated && loginProtectionService.isLocked(updated)) {
+              return done(null, false, { message: ACCOUNT_LOCKED_MESSAGE });
+            }
             return done(null, false, { message: 'Invalid credentials' });
           }
           return done(null, user);
@@ -63,16 +122,30 @@ export function setupAuth(app: Express) {
     )
   );
 
-  passport.serializeUser((user, done) => done(null, user.id));
+  // Runs on the session passport regenerates at login, so metadata starts fresh for each sign-in
+  passport.serializeUser((req: Request, user: Express.User, done: (err: any, id?: string) => void) => {
+    sessionService.start(req);
+    done(null, user.id);
+  });
   passport.deserializeUser(async (id: string, done) => {
     try {
       const user = await storage.getAdminUser(id);
-      done(null, user);
+      // Deactivated users lose their existing sessions on the next request
+      done(null, user?.isActive ? user : false);
     } catch (error) {
       done(error);
     }
   });
 
+  // First-run bootstrap: self-registration only works while no dashboard user exists
+  app.get("/api/setup-status", async (req, res, next) => {
+    try {
+      res.json({ needsSetup: !(await storage.hasAdminUsers()) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.post("/api/register", async (req, res, next) => {
     try {
       const { email, password, name } = req.body;
@@ -80,56 +153,241 @@ export function setupAuth(app: Express) {
       if (!email || !password || !name) {
         return res.status(400).json({ message: "Email, password, and name are required" });
       }
-
-      const existingUser = await storage.getAdminUserByEmail(email);
-      if (existingUser) {
-        return res.status(400).json({ message: "Email already exists" });
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
       }
 
       const hashedPassword = await hashPassword(password);
-      const user = await storage.createAdminUser({
+      const user = await storage.createFirstAdminUser({
         email,
         password: hashedPassword,
         name,
         role: 'admin',
         mustChangePassword: false
       });
+      if (!user) {
+        return res.status(403).json({ message: "Registration is closed. Ask an administrator for an invitation." });
+      }
 
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(201).json({ 
-          id: user.id, 
-          email: user.email, 
-          name: user.name, 
-          role: user.role,
-          mustChangePassword: user.mustChangePassword
+        toAuthUserResponse(user).then(body => res.status(201).json(body), next);
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/invitations/:token", async (req, res, next) => {
+    try {
+      const invitation = await storage.getValidAdminInvitation(hashToken(req.params.token));
+      if (!invitation) {
+        return res.status(404).json({ message: "This invitation is invalid or has expired" });
+      }
+      res.json({ email: invitation.email, name: invitation.name, role: invitation.role });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/invitations/:token/accept", async (req, res, next) => {
+    try {
+      const { password, name } = req.body;
+      
+      if (!password || !name) {
+        return res.status(400).json({ message: "Name and password are required" });
+      }
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
+      }
+
+      const user = await storage.acceptAdminInvitation(hashToken(req.params.token), {
+        name,
+        password: await hashPassword(password)
+      });
+      if (!user) {
+        return res.status(404).json({ message: "This invitation is invalid or has expired" });
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        toAuthUserResponse(user).then(body => res.status(201).json(body), next);
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Forgotten passwords: the answer is the same whether or not the email belongs to an account
+  app.post("/api/password-reset", async (req, res, next) => {
+    try {
+      const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+      if (!email) {
+        return res.status(400).json({ message: "Email is required" });
+      }
+
+      const user = await storage.getAdminUserByEmail(email);
+      if (user?.isActive) {
+        const token = generateToken();
+        await storage.createPasswordResetToken({
+          adminUserId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000)
+        });
+        await auditService.record(req, {
+          action: 'auth.password_reset_requested',
+          entityType: 'admin_user',
+          entityId: user.id
         });
+
+        const baseUrl = WebhookHelper.getPublicBaseUrl();
+        try {
+          if (!baseUrl) {
+            throw new Error('APP_URL is not set, so no reset link can be sent');
+          }
+          const resetUrl = `${baseUrl}/reset-password/${token}`;
+          const { name: storeName } = await storeProfileService.getProfile();
+          await emailService.send({
+            to: user.email,
+            subject: `Reset your ${storeName} dashboard password`,
+            text: `Hi ${user.name},\n\nSomeone (hopefully you) asked to reset your dashboard password. ` +
+              `Open this link within ${PASSWORD_RESET_TTL_MINUTES} minutes to choose a new one:\n\n${resetUrl}\n\n` +
+              `If you didn't ask for this, you can ignore this email; your password stays the same.`
+          });
+        } catch (error) {
+          console.error('Error sending password reset email:', error);
+        }
+      }
+
+      res.json({ message: "If that email belongs to an account, a reset link is on its way." });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/password-reset/:token", async (req, res, next) => {
+    try {
+      const token = await storage.getValidPasswordResetToken(hashToken(req.params.token));
+      const user = token && await storage.getAdminUser(token.adminUserId);
+      if (!user || !user.isActive) {
+        return res.status(404).json({ message: "This reset link is invalid or has expired" });
+      }
+      res.json({ email: user.email });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/password-reset/:token", async (req, res, next) => {
+    try {
+      const { password } = req.body;
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
+      }
+
+      const user = await storage.resetPasswordWithToken(hashToken(req.params.token), await hashPassword(password));
+      if (!user) {
+        return res.status(404).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      // Whoever knew the old password is signed out everywhere; the user signs in again with the new one
+      await sessionService.revokeAll(user.id);
+      await auditService.record(req, {
+        action: 'auth.password_reset',
+        entityType: 'admin_user',
+        entityId: user.id
       });
+      res.json({ message: "Your password has been reset. You can now sign in." });
     } catch (error) {
       next(error);
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
+  app.post("/api/login", async (req, res, next) => {
+    try {
+      if (await loginProtectionService.isIpBlocked(req.ip)) {
+        return res.status(429).json({ message: "Too many failed login attempts from this network. Try again later." });
+      }
+    } catch (error) {
+      return next(error);
+    }
+
     passport.authenticate("local", (err: any, user: SelectAdminUser | false, info: any) => {
       if (err) return next(err);
       if (!user) {
-        return res.status(401).json({ message: info?.message || "Invalid credentials" });
+        return res.status(info?.message === ACCOUNT_LOCKED_MESSAGE ? 423 : 401).json({ message: info?.message || "Invalid credentials" });
+      }
+      
+      if (user.twoFactorEnabledAt) {
+        req.session.twoFactorPending = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+          attempts: 0
+        };
+        return res.status(200).json({ twoFactorPending: true });
       }
       
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(200).json({ 
-          id: user.id, 
-          email: user.email, 
-          name: user.name, 
-          role: user.role,
-          mustChangePassword: user.mustChangePassword
-        });
+        loginProtectionService.recordSuccess(req, user)
+          .then(toAuthUserResponse)
+          .then(body => res.status(200).json(body), next);
       });
     })(req, res, next);
   });
 
+  // Second step of the login for users with 2FA: a code from their app or a recovery code
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const pending = req.session.twoFactorPending;
+      const user = pending && pending.expiresAt > Date.now()
+        ? await storage.getAdminUser(pending.userId)
+        : undefined;
+      if (!pending || !user || !user.isActive || !user.twoFactorEnabledAt || !user.twoFactorSecret) {
+        delete req.session.twoFactorPending;
+        return res.status(401).json({ message: "Your sign-in has expired. Please enter your password again." });
+      }
+      if (loginProtectionService.isLocked(user)) {
+        delete req.session.twoFactorPending;
+        return res.status(423).json({ message: ACCOUNT_LOCKED_MESSAGE });
+      }
+
+      const { code, recoveryCode } = req.body;
+      let verified = false;
+      if (typeof recoveryCode === 'string' && recoveryCode.trim()) {
+        verified = await storage.consumeTwoFactorRecoveryCode(user.id, twoFactorService.hashRecoveryCode(recoveryCode));
+      } else if (typeof code === 'string') {
+        verified = twoFactorService.verifyCode(user.twoFactorSecret, code);
+      }
+
+      if (!verified) {
+        const updated = await loginProtectionService.recordFailure(req, user.email, user, 'invalid_two_factor_code');
+        if (updated && loginProtectionService.isLocked(updated)) {
+          delete req.session.twoFactorPending;
+          return res.status(423).json({ message: ACCOUNT_LOCKED_MESSAGE });
+        }
+        pending.attempts += 1;
+        if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.twoFactorPending;
+          return res.status(401).json({ message: "Too many incorrect codes. Please sign in again." });
+        }
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      delete req.session.twoFactorPending;
+      // Re-read so a just-used recovery code is reflected in the remaining count
+      const signedIn = (await storage.getAdminUser(user.id)) ?? user;
+      req.login(signedIn, (err) => {
+        if (err) return next(err);
+        loginProtectionService.recordSuccess(req, signedIn)
+          .then(toAuthUserResponse)
+          .then(body => res.status(200).json(body), next);
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
@@ -137,16 +395,13 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.get("/api/user", (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    const user = req.user!;
-    res.json({ 
-      id: user.id, 
-      email: user.email, 
-      name: user.name, 
-      role: user.role,
-      mustChangePassword: user.mustChangePassword
-    });
+  app.get("/api/user", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      res.json(await toAuthUserResponse(req.user!));
+    } catch (error) {
+      next(error);
+    }
   });
 
   app.post("/api/change-password", async (req, res, next) => {
@@ -176,6 +431,167 @@ export function setupAuth(app: Express) {
       next(error);
     }
   });
+
+  // The signed-in user's own sessions, e.g. to sign out a lost laptop
+  app.get("/api/sessions", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      res.json(await sessionService.list(req.user!.id, req.sessionID));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/sessions/:id", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      const user = req.user!;
+      const revoked = await sessionService.revoke(user.id, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      await auditService.record(req, {
+        action: 'auth.session_revoke',
+        entityType: 'admin_user',
+        entityId: user.id,
+        oldValues: { ipAddress: revoked.sess.meta?.ipAddress, userAgent: revoked.sess.meta?.userAgent }
+      });
+      if (revoked.sid !== req.sessionID) {
+        return res.json({ success: true, current: false });
+      }
+      // Destroying rather than just deleting the row stops express-session from saving it again
+      req.session.destroy((err) => {
+        if (err) return next(err);
+        res.json({ success: true, current: true });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // "Log out everywhere": every session except the one making the request
+  app.delete("/api/sessions", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      const user = req.user!;
+      const revoked = await sessionService.revokeOthers(user.id, req.sessionID);
+      await auditService.record(req, {
+        action: 'auth.sessions_revoke_others',
+        entityType: 'admin_user',
+        entityId: user.id,
+        newValues: { revoked }
+      });
+      res.json({ revoked });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Two-factor enrolment only needs a session, so users whose role requires 2FA can reach it
+  app.post("/api/2fa/setup", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      const user = req.user!;
+      if (user.twoFactorEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const enrolment = await twoFactorService.createEnrolment(user.email);
+      await storage.updateAdminUser(user.id, { twoFactorSecret: enrolment.secret });
+      res.json(enrolment);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/2fa/enable", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      const user = req.user!;
+      if (user.twoFactorEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!user.twoFactorSecret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+      if (!twoFactorService.verifyCode(user.twoFactorSecret, String(req.body.code ?? ''))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+      const updated = await storage.updateAdminUser(user.id, {
+        twoFactorEnabledAt: new Date(),
+        twoFactorRecoveryCodes: hashes
+      });
+      await auditService.record(req, {
+        action: 'admin_user.two_factor_enable',
+        entityType: 'admin_user',
+        entityId: user.id
+      });
+      res.json({ recoveryCodes: codes, user: await toAuthUserResponse(updated!) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/2fa/recovery-codes", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      const user = req.user!;
+      if (!user.twoFactorEnabledAt || !user.twoFactorSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!twoFactorService.verifyCode(user.twoFactorSecret, String(req.body.code ?? ''))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+      const updated = await storage.updateAdminUser(user.id, { twoFactorRecoveryCodes: hashes });
+      await auditService.record(req, {
+        action: 'admin_user.two_factor_recovery_codes',
+        entityType: 'admin_user',
+        entityId: user.id
+      });
+      res.json({ recoveryCodes: codes, user: await toAuthUserResponse(updated!) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/2fa/disable", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      const user = req.user!;
+      const { password, code } = req.body;
+      if (!user.twoFactorEnabledAt || !user.twoFactorSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (await twoFactorService.isRequiredFor(user.role)) {
+        return res.status(403).json({ message: "Your role requires two-factor authentication" });
+      }
+      if (
+        typeof password !== 'string' ||
+        !(await comparePasswords(password, user.password)) ||
+        !twoFactorService.verifyCode(user.twoFactorSecret, String(code ?? ''))
+      ) {
+        return res.status(400).json({ message: "Incorrect password or authentication code" });
+      }
+
+      const updated = await storage.updateAdminUser(user.id, {
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorRecoveryCodes: []
+      });
+      await auditService.record(req, {
+        action: 'admin_user.two_factor_disable',
+        entityType: 'admin_user',
+        entityId: user.id
+      });
+      res.json(await toAuthUserResponse(updated!));
+    } catch (error) {
+      next(error);
+    }
+  });
 }
 
-export { hashPassword };
+export { hashPassword, generateToken, hashToken };
@@ -0,0 +1,25 @@
+import { storage } from './storage';
+
+/**
+ * Re-encrypts secret system settings under the current SETTINGS_ENCRYPTION_KEY.
+ * To rotate: set the new key as SETTINGS_ENCRYPTION_KEY, put the old one in
+ * SETTINGS_ENCRYPTION_KEY_PREVIOUS, run `npm run settings:rotate-key`, then drop the old key.
+ * Also encrypts secrets that were saved before encryption existed.
+ */
+async function rotateSettingsKey() {
+  console.log('🔐 Re-encrypting secret settings...');
+  const changed = await storage.reencryptSystemSettings();
+  console.log(`✅ Re-encrypted ${changed} ${changed === 1 ? 'setting' : 'settings'}`);
+}
+
+// Run rotation if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  rotateSettingsKey()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('❌ Error re-encrypting settings:', error);
+      process.exit(1);
+    });
+}
+
+export { rotateSettingsKey };
@@ -1,11 +1,39 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { setupAuth } from "./auth";
-import { storage } from "./storage";
-import { telegramService } from "./services/telegram";
-import { mtnMomoService } from "./services/mtn-momo";
+import { setupAuth, generateToken, hashToken } from "./auth";
+import { storage, type ListFilters } from "./storage";
+import { telegramService, BUILT_IN_BOT_COMMANDS, BOT_COMMAND_PATTERN, normalizeBotCommand } from "./services/telegram";
+import { paymentEventService } from "./services/payment-events";
+import { callbackGuard, CallbackRejectedError } from "./services/callback-guard";
+import { paymentProviders } from "./services/payment-provider";
+import { orderStatusService, IllegalTransitionError } from "./services/order-status";
+import { refundService, RefundError } from "./services/refunds";
 import { reconciliationService } from "./services/reconciliation";
+import { supportService } from "./services/support";
+import { auditService } from "./services/audit";
+import { twoFactorService, TWO_FACTOR_REQUIRED_ROLES_SETTING } from "./services/two-factor";
+import { sessionService } from "./services/sessions";
+import { settingEncryption } from "./services/setting-encryption";
+import { settingsService, SettingValidationError } from "./services/settings";
 import rateLimit from "express-rate-limit";
+import { BOT_COMMAND_BUTTON_ACTIONS } from "@shared/bot-template";
+import { hasPermission, isRole, type Permission, type Role } from "@shared/permissions";
+import { canTransitionOrder, isSystemOrderStatus } from "@shared/order-status";
+import { orderStatusEnum, paymentStatusEnum, updateOrderSchema, type AdminUser, type InsertAdminUser, type InsertBotCommand, type SystemSetting } from "@shared/schema";
+import {
+  ORDER_SORTS,
+  PAYMENT_SORTS,
+  PRODUCT_SORTS,
+  CUSTOMER_SORTS,
+  PRODUCT_STATUSES,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  type ProductStatus
+} from "@shared/lists";
+
+const INVITATION_TTL_HOURS = parseInt(process.env.INVITATION_TTL_HOURS || '72');
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 // Rate limiting middleware
 const webhookLimiter = rateLimit({
@@ -20,20 +48,191 @@ const authLimiter = rateLimit({
   message: { error: 'Too many authentication requests' }
 });
 
-function requireAuth(req: any, res: any, next: any) {
+function validateBotCommand(body: any, partial: boolean): { data?: Partial<InsertBotCommand>; error?: string } {
+  const data: Partial<InsertBotCommand> = {};
+
+  if (body.command !== undefined || !partial) {
+    if (typeof body.command !== 'string' || !body.command.trim()) {
+      return { error: 'Command is required' };
+    }
+    const command = normalizeBotCommand(body.command);
+    if (!BOT_COMMAND_PATTERN.test(command)) {
+      return { error: 'Command must be 1-32 lowercase letters, digits or underscores, e.g. /help' };
+    }
+    if (BUILT_IN_BOT_COMMANDS.some(builtIn => `/${builtIn.command}` === command)) {
+      return { error: `${command} is a built-in bot command` };
+    }
+    data.command = command;
+  }
+
+  for (const field of ['description', 'response'] as const) {
+    if (body[field] !== undefined || !partial) {
+      if (typeof body[field] !== 'string' || !body[field].trim()) {
+        return { error: `${field[0].toUpperCase()}${field.slice(1)} is required` };
+      }
+      data[field] = body[field];
+    }
+  }
+
+  if (body.isActive !== undefined) {
+    data.isActive = Boolean(body.isActive);
+  }
+
+  if (body.photoUrl !== undefined) {
+    const photoUrl = typeof body.photoUrl === 'string' ? body.photoUrl.trim() : '';
+    if (photoUrl && !/^https?:\/\//.test(photoUrl)) {
+      return { error: 'Photo URL must start with http:// or https://' };
+    }
+    data.photoUrl = photoUrl || null;
+  }
+
+  if (body.buttons !== undefined) {
+    if (!Array.isArray(body.buttons) || body.buttons.length > 10) {
+      return { error: 'Buttons must be a list of at most 10 items' };
+    }
+    const buttons = [];
+    for (const button of body.buttons) {
+      if (typeof button?.text !== 'string' || !button.text.trim()) {
+        return { error: 'Every button needs a label' };
+      }
+      if (button.url) {
+        if (!/^https?:\/\//.test(button.url)) {
+          return { error: `Button "${button.text}" needs an http(s) URL` };
+        }
+        buttons.push({ text: button.text.trim(), url: button.url });
+      } else if (button.action && BOT_COMMAND_BUTTON_ACTIONS[button.action]) {
+        buttons.push({ text: button.text.trim(), action: button.action });
+      } else {
+        return { error: `Button "${button.text}" needs a URL or a valid action` };
+      }
+    }
+    data.buttons = buttons;
+  }
+
+  return { data };
+}
+
+function queryParam(query: Record<string, unknown>, name: string): string | undefined {
+  const value = query[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// The query parameters every paginated list endpoint accepts: search, status, from, to, sort, cursor and limit
+function parseListQuery<S extends string, T extends string>(
+  query: Record<string, unknown>,
+  sorts: Record<S, unknown>,
+  statuses: readonly T[]
+): { data?: ListFilters & { sort?: S; status?: T }; error?: string } {
+  const sort = queryParam(query, 'sort');
+  if (sort && !Object.hasOwn(sorts, sort)) {
+    return { error: `Unknown sort: ${sort}` };
+  }
+  const status = queryParam(query, 'status');
+  if (status && !statuses.includes(status as T)) {
+    return { error: `Unknown status: ${status}` };
+  }
+  const cursor = queryParam(query, 'cursor');
+  if (cursor && !UUID_PATTERN.test(cursor)) {
+    return { error: 'Invalid cursor' };
+  }
+
+  const from = queryParam(query, 'from');
+  const to = queryParam(query, 'to');
+  const fromDate = from ? new Date(from) : undefined;
+  const toDate = to ? new Date(to) : undefined;
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    return { error: 'Invalid date range' };
+  }
+
+  const limit = parseInt(queryParam(query, 'limit') ?? '') || DEFAULT_PAGE_SIZE;
+  return {
+    data: {
+      search: queryParam(query, 'search'),
+      status: status as T | undefined,
+      sort: sort as S | undefined,
+      from: fromDate,
+      to: toDate,
+      cursor,
+      limit: Math.min(Math.max(limit, 1), MAX_PAGE_SIZE)
+    }
+  };
+}
+
+// `from` for the status summaries; undefined when absent, null when it is not a date
+function parseSince(query: Record<string, unknown>): Date | undefined | null {
+  const from = queryParam(query, 'from');
+  if (!from) {
+    return undefined;
+  }
+  const date = new Date(from);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+async function requireAuth(req: any, res: any, next: any) {
   if (!req.isAuthenticated()) {
     return res.status(401).json({ error: 'Authentication required' });
   }
+  // Temporary passwords (e.g. the seeded admin) only unlock /api/change-password
+  if (req.user.mustChangePassword) {
+    return res.status(403).json({ error: 'You must change your password before continuing', mustChangePassword: true });
+  }
+  try {
+    // Likewise, roles that require 2FA only reach the /api/2fa enrolment endpoints until they enrol
+    if (!req.user.twoFactorEnabledAt && await twoFactorService.isRequiredFor(req.user.role)) {
+      return res.status(403).json({
+        error: 'You must set up two-factor authentication before continuing',
+        twoFactorSetupRequired: true
+      });
+    }
+  } catch (error) {
+    console.error('Error checking two-factor policy:', error);
+    return res.status(500).json({ error: 'Failed to check two-factor policy' });
+  }
   next();
 }
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Setup authentication routes
-  setupAuth(app);
+// Never send password hashes to the client
+function toAdminUserResponse(user: AdminUser) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    isActive: user.isActive,
+    mustChangePassword: user.mustChangePassword,
+    twoFactorEnabled: !!user.twoFactorEnabledAt,
+    lockedUntil: user.lockedUntil && user.lockedUntil > new Date() ? user.lockedUntil : null,
+    createdAt: user.createdAt
+  };
+}
+
+// Secret settings leave the server masked; the plain value needs an explicit, audited reveal
+function toSettingResponse(setting: SystemSetting) {
+  if (!setting.isEncrypted) {
+    return setting;
+  }
+  return { ...setting, value: settingEncryption.mask(setting.value) };
+}
 
-  // Apply rate limiting to auth routes
+function requirePermission(permission: Permission) {
+  return (req: any, res: any, next: any) => {
+    requireAuth(req, res, () => {
+      if (!hasPermission(req.user.role, permission)) {
+        return res.status(403).json({ error: 'You do not have permission to perform this action' });
+      }
+      next();
+    });
+  };
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Apply rate limiting to auth routes; must come before setupAuth registers the handlers
   app.use('/api/login', authLimiter);
   app.use('/api/register', authLimiter);
+  app.use('/api/password-reset', authLimiter);
+
+  // Setup authentication routes
+  setupAuth(app);
 
   // Health check
   app.get('/healthz', (req, res) => {
@@ -53,75 +252,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     await telegramService.handleWebhook(req, res);
   });
 
-  // MTN MoMo webhook
-  app.post('/api/webhooks/mtn-callback', webhookLimiter, async (req, res) => {
-    try {
-      const signature = req.headers['x-mtn-signature'] as string;
-      const payload = JSON.stringify(req.body);
-      
-      // Validate webhook signature if provided
-      if (signature && !mtnMomoService.validateWebhookSignature(payload, signature)) {
-        console.warn('Invalid MTN webhook signature');
-        return res.status(401).json({ error: 'Invalid signature' });
-      }
-
-      const webhookData = req.body;
-      console.log('MTN MoMo webhook received:', webhookData);
-
-      // Find payment by reference ID or external ID
-      let payment;
-      if (webhookData.referenceId) {
-        payment = await storage.getAllPayments().then(payments => 
-          payments.find(p => p.providerReference === webhookData.referenceId)
-        );
-      }
-
-      if (!payment && webhookData.externalId) {
-        payment = await storage.getAllPayments().then(payments => 
-          payments.find(p => p.externalId === webhookData.externalId)
-        );
-      }
-
-      if (!payment) {
-        console.warn('Payment not found for webhook:', webhookData);
-        return res.status(404).json({ error: 'Payment not found' });
-      }
-
-      // Update payment status based on webhook
-      let newStatus: 'SUCCESS' | 'FAILED' | 'PENDING' = 'PENDING';
-      let orderStatus: 'PAID' | 'CANCELLED' | 'PENDING' = 'PENDING';
+  // Payment provider webhooks, one route per provider
+  for (const provider of paymentProviders.all()) {
+    app.post(provider.webhookPath, webhookLimiter, async (req, res) => {
+      try {
+        const callback = await provider.verifyWebhook(req);
+        console.log(`${provider.name} webhook received:`, callback.payload);
 
-      if (webhookData.status === 'SUCCESSFUL' || webhookData.status === 'SUCCESS') {
-        newStatus = 'SUCCESS';
-        orderStatus = 'PAID';
-      } else if (webhookData.status === 'FAILED' || webhookData.status === 'REJECTED') {
-        newStatus = 'FAILED';
-        orderStatus = 'CANCELLED';
+        const result = await paymentEventService.handleCallback(provider, callback);
+        if (result.queued) {
+          return res.status(202).json({ success: true, message: 'Webhook accepted, payment confirmation queued' });
+        }
+        res.json({ success: true, message: 'Webhook processed' });
+      } catch (error) {
+        if (error instanceof CallbackRejectedError) {
+          console.warn(`Rejected ${provider.name} webhook (${error.reason}):`, error.message);
+          await callbackGuard.recordRejection(req, provider, error);
+          return res.status(error.status).json({ error: error.message });
+        }
+        if (error instanceof IllegalTransitionError) {
+          console.warn(`Ignored ${provider.name} webhook for a settled payment:`, error.message);
+          return res.status(409).json({ error: error.message });
+        }
+        console.error(`Error processing ${provider.name} webhook:`, error);
+        res.status(500).json({ error: 'Webhook processing failed' });
       }
-
-      // Update payment
-      await storage.updatePayment(payment.id, {
-        status: newStatus,
-        providerReference: webhookData.referenceId || payment.providerReference,
-        webhookPayload: webhookData
-      });
-
-      // Update order
-      await storage.updateOrder(payment.orderId, {
-        status: orderStatus
-      });
-
-      console.log(`Payment ${payment.id} updated to ${newStatus}, order ${payment.orderId} updated to ${orderStatus}`);
-
-      res.json({ success: true, message: 'Webhook processed' });
-    } catch (error) {
-      console.error('Error processing MTN webhook:', error);
-      res.status(500).json({ error: 'Webhook processing failed' });
-    }
-  });
+    });
+  }
 
   // Dashboard API routes (require authentication)
-  app.get('/api/dashboard/metrics', requireAuth, async (req, res) => {
+  app.get('/api/dashboard/metrics', requirePermission('dashboard:read'), async (req, res) => {
     try {
       const metrics = await storage.getDashboardMetrics();
       res.json(metrics);
@@ -132,17 +292,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Products API
-  app.get('/api/products', requireAuth, async (req, res) => {
+  app.get('/api/products', requirePermission('products:read'), async (req, res) => {
     try {
-      const products = await storage.getAllProducts();
-      res.json(products);
+      const { data, error } = parseListQuery(req.query, PRODUCT_SORTS, Object.keys(PRODUCT_STATUSES) as ProductStatus[]);
+      if (error || !data) {
+        return res.status(400).json({ error });
+      }
+      const categoryId = queryParam(req.query, 'categoryId');
+      if (categoryId && !UUID_PATTERN.test(categoryId)) {
+        return res.status(400).json({ error: 'Invalid category' });
+      }
+      res.json(await storage.listProducts({ ...data, categoryId }));
     } catch (error) {
       console.error('Error fetching products:', error);
       res.status(500).json({ error: 'Failed to fetch products' });
     }
   });
 
-  app.post('/api/products', requireAuth, async (req, res) => {
+  app.post('/api/products', requirePermission('products:write'), async (req, res) => {
     try {
       // Clean the data before sending to storage
       const productData = {
@@ -150,6 +317,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         categoryId: req.body.categoryId && req.body.categoryId !== "" && req.body.categoryId !== "no-category" ? req.body.categoryId : null
       };
       const product = await storage.createProduct(productData);
+      await auditService.record(req, {
+        action: 'product.create',
+        entityType: 'product',
+        entityId: product.id,
+        newValues: product
+      });
       res.status(201).json(product);
     } catch (error) {
       console.error('Error creating product:', error);
@@ -157,7 +330,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/products/:id', requireAuth, async (req, res) => {
+  app.put('/api/products/:id', requirePermission('products:write'), async (req, res) => {
     try {
       const { id } = req.params;
       // Clean the data before sending to storage
@@ -165,10 +338,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         categoryId: req.body.categoryId && req.body.categoryId !== "" && req.body.categoryId !== "no-category" ? req.body.categoryId : null
       };
+      const previous = await storage.getProduct(id);
       const product = await storage.updateProduct(id, productData);
       if (!product) {
         return res.status(404).json({ error: 'Product not found' });
       }
+      await auditService.record(req, {
+        action: 'product.update',
+        entityType: 'product',
+        entityId: id,
+        oldValues: previous,
+        newValues: product
+      });
       res.json(product);
     } catch (error) {
       console.error('Error updating product:', error);
@@ -176,13 +357,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/products/:id', requireAuth, async (req, res) => {
+  app.get('/api/products/:id/stock-movements', requirePermission('products:read'), async (req, res) => {
     try {
       const { id } = req.params;
+      const movements = await storage.getStockMovements(id);
+      res.json(movements);
+    } catch (error) {
+      console.error('Error fetching stock movements:', error);
+      res.status(500).json({ error: 'Failed to fetch stock movements' });
+    }
+  });
+
+  app.delete('/api/products/:id', requirePermission('products:write'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const previous = await storage.getProduct(id);
       const success = await storage.deleteProduct(id);
       if (!success) {
         return res.status(404).json({ error: 'Product not found' });
       }
+      await auditService.record(req, {
+        action: 'product.delete',
+        entityType: 'product',
+        entityId: id,
+        oldValues: previous
+      });
       res.json({ success: true });
     } catch (error) {
       console.error('Error deleting product:', error);
@@ -191,7 +390,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Categories API
-  app.get('/api/categories', requireAuth, async (req, res) => {
+  app.get('/api/categories', requirePermission('products:read'), async (req, res) => {
     try {
       const categories = await storage.getAllCategories();
       res.json(categories);
@@ -201,9 +400,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/categories', requireAuth, async (req, res) => {
+  app.post('/api/categories', requirePermission('products:write'), async (req, res) => {
     try {
       const category = await storage.createCategory(req.body);
+      await auditService.record(req, {
+        action: 'category.create',
+        entityType: 'category',
+        entityId: category.id,
+        newValues: category
+      });
       res.status(201).json(category);
     } catch (error) {
       console.error('Error creating category:', error);
@@ -211,13 +416,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/categories/:id', requireAuth, async (req, res) => {
+  app.put('/api/categories/:id', requirePermission('products:write'), async (req, res) => {
     try {
       const { id } = req.params;
+      const previous = await storage.getCategory(id);
       const category = await storage.updateCategory(id, req.body);
       if (!category) {
         return res.status(404).json({ error: 'Category not found' });
       }
+      await auditService.record(req, {
+        action: 'category.update',
+        entityType: 'category',
+        entityId: id,
+        oldValues: previous,
+        newValues: category
+      });
       res.json(category);
     } catch (error) {
       console.error('Error updating category:', error);
@@ -225,13 +438,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/categories/:id', requireAuth, async (req, res) => {
+  app.delete('/api/categories/:id', requirePermission('products:write'), async (req, res) => {
     try {
       const { id } = req.params;
+      const previous = await storage.getCategory(id);
       const success = await storage.deleteCategory(id);
       if (!success) {
         return res.status(404).json({ error: 'Category not found' });
       }
+      await auditService.record(req, {
+        action: 'category.delete',
+        entityType: 'category',
+        entityId: id,
+        oldValues: previous
+      });
       res.json({ success: true });
     } catch (error) {
       console.error('Error deleting category:', error);
@@ -240,46 +460,185 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Orders API
-  app.get('/api/orders', requireAuth, async (req, res) => {
+  app.get('/api/orders', requirePermission('orders:read'), async (req, res) => {
     try {
-      const orders = await storage.getAllOrders();
-      res.json(orders);
+      const { data, error } = parseListQuery(req.query, ORDER_SORTS, orderStatusEnum.enumValues);
+      if (error || !data) {
+        return res.status(400).json({ error });
+      }
+      const userId = queryParam(req.query, 'userId');
+      if (userId && !UUID_PATTERN.test(userId)) {
+        return res.status(400).json({ error: 'Invalid customer' });
+      }
+      res.json(await storage.listOrders({ ...data, userId }));
     } catch (error) {
       console.error('Error fetching orders:', error);
       res.status(500).json({ error: 'Failed to fetch orders' });
     }
   });
 
-  app.put('/api/orders/:id', requireAuth, async (req, res) => {
+  app.get('/api/orders/summary', requirePermission('orders:read'), async (req, res) => {
     try {
-      const { id } = req.params;
-      const order = await storage.updateOrder(id, req.body);
+      const since = parseSince(req.query);
+      if (since === null) {
+        return res.status(400).json({ error: 'Invalid date range' });
+      }
+      res.json(await storage.getOrderStatusSummary(since));
+    } catch (error) {
+      console.error('Error fetching order summary:', error);
+      res.status(500).json({ error: 'Failed to fetch order summary' });
+    }
+  });
+
+  app.get('/api/orders/:id/history', requirePermission('orders:read'), async (req, res) => {
+    try {
+      res.json(await storage.getOrderStatusHistory(req.params.id));
+    } catch (error) {
+      console.error('Error fetching order history:', error);
+      res.status(500).json({ error: 'Failed to fetch order history' });
+    }
+  });
+
+  app.get('/api/orders/:id/refunds', requirePermission('orders:read'), async (req, res) => {
+    try {
+      res.json(await refundService.getOrderRefunds(req.params.id));
+    } catch (error) {
+      console.error('Error fetching order refunds:', error);
+      res.status(500).json({ error: 'Failed to fetch refunds' });
+    }
+  });
+
+  app.post('/api/orders/:id/refunds', requirePermission('refunds:issue'), async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
       if (!order) {
         return res.status(404).json({ error: 'Order not found' });
       }
+
+      const { amountGhs, reason } = req.body;
+      const refund = await refundService.issueRefund(
+        order,
+        String(amountGhs ?? '').trim(),
+        typeof reason === 'string' && reason.trim() ? reason.trim() : null,
+        req.user!
+      );
+      await auditService.record(req, {
+        action: 'refund.issue',
+        entityType: 'order',
+        entityId: order.id,
+        newValues: refund
+      });
+      res.status(201).json(refund);
+    } catch (error) {
+      if (error instanceof RefundError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error issuing refund:', error);
+      res.status(500).json({ error: 'Failed to issue refund' });
+    }
+  });
+
+  app.put('/api/orders/:id', requirePermission('orders:update'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const previous = await storage.getOrder(id);
+      if (!previous) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      const parsed = updateOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message ?? 'Invalid order update' });
+      }
+
+      // Status changes go through the transition table; everything else is a plain update
+      const { status, ...updates } = parsed.data;
+      let order = previous;
+      if (status !== undefined) {
+        if (isSystemOrderStatus(status)) {
+          return res.status(400).json({ error: 'Orders are refunded by issuing a refund' });
+        }
+        if (status === 'CANCELLED' && previous.status !== 'CANCELLED' && canTransitionOrder(previous.status, 'REFUNDED')) {
+          return res.status(409).json({ error: 'Paid orders cannot be cancelled; issue a refund instead' });
+        }
+        // Otherwise the payment could still succeed after the stock has gone back on sale
+        if (status === 'CANCELLED' && previous.status === 'PENDING') {
+          const payments = await storage.getPaymentsByOrderId(id);
+          if (payments.some(payment => payment.status === 'PENDING')) {
+            return res.status(409).json({ error: "The customer's payment is still in progress; wait until it completes or times out" });
+          }
+        }
+        order = await orderStatusService.transitionOrder(previous, status, 'admin', {
+          adminUserId: req.user!.id
+        });
+      }
+      if (Object.keys(updates).length > 0) {
+        order = (await storage.updateOrder(id, updates)) ?? order;
+      }
+      if (order.status === 'CANCELLED') {
+        await storage.releaseOrderStock(order.id, 'Order cancelled');
+      }
+      await auditService.record(req, {
+        action: 'order.update',
+        entityType: 'order',
+        entityId: id,
+        oldValues: previous,
+        newValues: order
+      });
       res.json(order);
     } catch (error) {
+      if (error instanceof IllegalTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
       console.error('Error updating order:', error);
       res.status(500).json({ error: 'Failed to update order' });
     }
   });
 
   // Payments API
-  app.get('/api/payments', requireAuth, async (req, res) => {
+  app.get('/api/payments', requirePermission('payments:read'), async (req, res) => {
     try {
-      const payments = await storage.getAllPayments();
-      res.json(payments);
+      const { data, error } = parseListQuery(req.query, PAYMENT_SORTS, paymentStatusEnum.enumValues);
+      if (error || !data) {
+        return res.status(400).json({ error });
+      }
+      res.json(await storage.listPayments(data));
     } catch (error) {
       console.error('Error fetching payments:', error);
       res.status(500).json({ error: 'Failed to fetch payments' });
     }
   });
 
+  app.get('/api/payments/summary', requirePermission('payments:read'), async (req, res) => {
+    try {
+      const since = parseSince(req.query);
+      if (since === null) {
+        return res.status(400).json({ error: 'Invalid date range' });
+      }
+      res.json(await storage.getPaymentStatusSummary(since));
+    } catch (error) {
+      console.error('Error fetching payment summary:', error);
+      res.status(500).json({ error: 'Failed to fetch payment summary' });
+    }
+  });
+
+  app.get('/api/payments/rejected-callbacks', requirePermission('payments:read'), async (req, res) => {
+    try {
+      res.json(await storage.getRejectedCallbacks());
+    } catch (error) {
+      console.error('Error fetching rejected callbacks:', error);
+      res.status(500).json({ error: 'Failed to fetch rejected callbacks' });
+    }
+  });
+
   // Users/Customers API
-  app.get('/api/customers', requireAuth, async (req, res) => {
+  app.get('/api/customers', requirePermission('customers:read'), async (req, res) => {
     try {
-      const customers = await storage.getAllUsers();
-      res.json(customers);
+      const { data, error } = parseListQuery(req.query, CUSTOMER_SORTS, []);
+      if (error || !data) {
+        return res.status(400).json({ error });
+      }
+      res.json(await storage.listCustomers(data));
     } catch (error) {
       console.error('Error fetching customers:', error);
       res.status(500).json({ error: 'Failed to fetch customers' });
@@ -287,7 +646,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Coupons API
-  app.get('/api/coupons', requireAuth, async (req, res) => {
+  app.get('/api/coupons', requirePermission('coupons:read'), async (req, res) => {
     try {
       const coupons = await storage.getAllCoupons();
       res.json(coupons);
@@ -297,9 +656,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/coupons', requireAuth, async (req, res) => {
+  app.post('/api/coupons', requirePermission('coupons:write'), async (req, res) => {
     try {
       const coupon = await storage.createCoupon(req.body);
+      await auditService.record(req, {
+        action: 'coupon.create',
+        entityType: 'coupon',
+        entityId: coupon.id,
+        newValues: coupon
+      });
       res.status(201).json(coupon);
     } catch (error) {
       console.error('Error creating coupon:', error);
@@ -307,13 +672,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/coupons/:id', requireAuth, async (req, res) => {
+  app.delete('/api/coupons/:id', requirePermission('coupons:write'), async (req, res) => {
     try {
       const { id } = req.params;
+      const previous = await storage.getCoupon(id);
       const success = await storage.deleteCoupon(id);
       if (!success) {
         return res.status(404).json({ error: 'Coupon not found' });
       }
+      await auditService.record(req, {
+        action: 'coupon.delete',
+        entityType: 'coupon',
+        entityId: id,
+        oldValues: previous
+      });
       res.json({ success: true });
     } catch (error) {
       console.error('Error deleting coupon:', error);
@@ -321,8 +693,465 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Bot Commands API
+  app.get('/api/bot-commands', requirePermission('bot-commands:write'), async (req, res) => {
+    try {
+      const commands = await storage.getAllBotCommands();
+      res.json(commands);
+    } catch (error) {
+      console.error('Error fetching bot commands:', error);
+      res.status(500).json({ error: 'Failed to fetch bot commands' });
+    }
+  });
+
+  app.post('/api/bot-commands', requirePermission('bot-commands:write'), async (req, res) => {
+    try {
+      const { data, error } = validateBotCommand(req.body, false);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      if (await storage.getBotCommandByCommand(data!.command!)) {
+        return res.status(409).json({ error: `${data!.command} already exists` });
+      }
+      const command = await storage.createBotCommand(data as InsertBotCommand);
+      telegramService.syncBotCommands();
+      await auditService.record(req, {
+        action: 'bot_command.create',
+        entityType: 'bot_command',
+        entityId: command.id,
+        newValues: command
+      });
+      res.status(201).json(command);
+    } catch (error) {
+      console.error('Error creating bot command:', error);
+      res.status(500).json({ error: 'Failed to create bot command' });
+    }
+  });
+
+  app.put('/api/bot-commands/:id', requirePermission('bot-commands:write'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { data, error } = validateBotCommand(req.body, true);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      if (data!.command) {
+        const existing = await storage.getBotCommandByCommand(data!.command);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ error: `${data!.command} already exists` });
+        }
+      }
+      const previous = await storage.getBotCommand(id);
+      const command = await storage.updateBotCommand(id, data!);
+      if (!command) {
+        return res.status(404).json({ error: 'Bot command not found' });
+      }
+      telegramService.syncBotCommands();
+      await auditService.record(req, {
+        action: 'bot_command.update',
+        entityType: 'bot_command',
+        entityId: id,
+        oldValues: previous,
+        newValues: command
+      });
+      res.json(command);
+    } catch (error) {
+      console.error('Error updating bot command:', error);
+      res.status(500).json({ error: 'Failed to update bot command' });
+    }
+  });
+
+  app.delete('/api/bot-commands/:id', requirePermission('bot-commands:write'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const previous = await storage.getBotCommand(id);
+      const success = await storage.deleteBotCommand(id);
+      if (!success) {
+        return res.status(404).json({ error: 'Bot command not found' });
+      }
+      telegramService.syncBotCommands();
+      await auditService.record(req, {
+        action: 'bot_command.delete',
+        entityType: 'bot_command',
+        entityId: id,
+        oldValues: previous
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting bot command:', error);
+      res.status(500).json({ error: 'Failed to delete bot command' });
+    }
+  });
+
+  // Dashboard Users API
+  app.get('/api/admin-users', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const admins = await storage.getAllAdminUsers();
+      res.json(admins.map(toAdminUserResponse));
+    } catch (error) {
+      console.error('Error fetching admin users:', error);
+      res.status(500).json({ error: 'Failed to fetch admin users' });
+    }
+  });
+
+  app.get('/api/admin-users/invitations', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const invitations = await storage.getPendingAdminInvitations();
+      res.json(invitations.map(({ tokenHash, ...invitation }) => invitation));
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      res.status(500).json({ error: 'Failed to fetch invitations' });
+    }
+  });
+
+  app.post('/api/admin-users/invitations', requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+      const role = req.body.role ?? 'staff';
+      if (!email || !name) {
+        return res.status(400).json({ error: 'Email and name are required' });
+      }
+      if (!isRole(role)) {
+        return res.status(400).json({ error: 'Invalid role' });
+      }
+      if (await storage.getAdminUserByEmail(email)) {
+        return res.status(409).json({ error: 'A user with this email already exists' });
+      }
+
+      // The plain token only ever appears in this response, inside the invite link
+      const token = generateToken();
+      const invitation = await storage.createAdminInvitation({
+        email,
+        name,
+        role,
+        tokenHash: hashToken(token),
+        invitedById: req.user.id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_HOURS * 60 * 60 * 1000)
+      });
+      const { tokenHash, ...response } = invitation;
+      await auditService.record(req, {
+        action: 'admin_invitation.create',
+        entityType: 'admin_invitation',
+        entityId: invitation.id,
+        newValues: response
+      });
+      res.status(201).json({
+        ...response,
+        inviteUrl: `${req.protocol}://${req.get('host')}/accept-invite/${token}`
+      });
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      res.status(500).json({ error: 'Failed to create invitation' });
+    }
+  });
+
+  app.delete('/api/admin-users/invitations/:id', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const success = await storage.revokeAdminInvitation(id);
+      if (!success) {
+        return res.status(404).json({ error: 'Invitation not found' });
+      }
+      await auditService.record(req, {
+        action: 'admin_invitation.revoke',
+        entityType: 'admin_invitation',
+        entityId: id
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      res.status(500).json({ error: 'Failed to revoke invitation' });
+    }
+  });
+
+  app.get('/api/admin-users/two-factor-policy', requirePermission('users:manage'), async (req, res) => {
+    try {
+      res.json({ requiredRoles: await twoFactorService.getRequiredRoles() });
+    } catch (error) {
+      console.error('Error fetching two-factor policy:', error);
+      res.status(500).json({ error: 'Failed to fetch two-factor policy' });
+    }
+  });
+
+  app.put('/api/admin-users/two-factor-policy', requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const { requiredRoles } = req.body;
+      if (!Array.isArray(requiredRoles) || requiredRoles.some((role: unknown) => !isRole(role))) {
+        return res.status(400).json({ error: 'requiredRoles must be a list of roles' });
+      }
+      // Requiring 2FA for your own role before enrolling would lock you out of this page
+      if (requiredRoles.includes(req.user.role) && !req.user.twoFactorEnabledAt) {
+        return res.status(400).json({ error: 'Enable two-factor authentication on your own account first' });
+      }
+
+      const previous = await twoFactorService.getRequiredRoles();
+      const updated = await twoFactorService.setRequiredRoles(Array.from(new Set(requiredRoles as Role[])));
+      await auditService.record(req, {
+        action: 'two_factor_policy.update',
+        entityType: 'system_setting',
+        entityId: TWO_FACTOR_REQUIRED_ROLES_SETTING,
+        oldValues: { requiredRoles: previous },
+        newValues: { requiredRoles: updated }
+      });
+      res.json({ requiredRoles: updated });
+    } catch (error) {
+      console.error('Error updating two-factor policy:', error);
+      res.status(500).json({ error: 'Failed to update two-factor policy' });
+    }
+  });
+
+  app.post('/api/admin-users/:id/unlock', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const previous = await storage.getAdminUser(id);
+      const admin = await storage.resetFailedLogins(id);
+      if (!admin) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      await auditService.record(req, {
+        action: 'admin_user.unlock',
+        entityType: 'admin_user',
+        entityId: id,
+        oldValues: { failedLoginAttempts: previous?.failedLoginAttempts, lockedUntil: previous?.lockedUntil },
+        newValues: { failedLoginAttempts: 0, lockedUntil: null }
+      });
+      res.json(toAdminUserResponse(admin));
+    } catch (error) {
+      console.error('Error unlocking admin user:', error);
+      res.status(500).json({ error: 'Failed to unlock user' });
+    }
+  });
+
+  // For users who lost their phone and their recovery codes; they enrol again on next login
+  app.post('/api/admin-users/:id/reset-two-factor', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const admin = await storage.updateAdminUser(id, {
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorRecoveryCodes: []
+      });
+      if (!admin) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      await auditService.record(req, {
+        action: 'admin_user.two_factor_reset',
+        entityType: 'admin_user',
+        entityId: id
+      });
+      res.json(toAdminUserResponse(admin));
+    } catch (error) {
+      console.error('Error resetting two-factor authentication:', error);
+      res.status(500).json({ error: 'Failed to reset two-factor authentication' });
+    }
+  });
+
+  app.put('/api/admin-users/:id', requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { name, role, isActive } = req.body;
+      if (role !== undefined && !isRole(role)) {
+        return res.status(400).json({ error: 'Invalid role' });
+      }
+      if (isActive !== undefined && typeof isActive !== 'boolean') {
+        return res.status(400).json({ error: 'isActive must be a boolean' });
+      }
+      // Keeps at least one admin around: nobody can demote or lock out themselves
+      if (id === req.user.id && ((role !== undefined && role !== req.user.role) || isActive === false)) {
+        return res.status(400).json({ error: 'You cannot change your own role or deactivate yourself' });
+      }
+
+      const updates: Partial<InsertAdminUser> = {};
+      if (typeof name === 'string' && name.trim()) updates.name = name.trim();
+      if (role !== undefined) updates.role = role;
+      if (isActive !== undefined) updates.isActive = isActive;
+
+      const previous = await storage.getAdminUser(id);
+      const admin = await storage.updateAdminUser(id, updates);
+      if (!admin) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (isActive === false) {
+        await sessionService.revokeAll(id);
+      }
+      await auditService.record(req, {
+        action: 'admin_user.update',
+        entityType: 'admin_user',
+        entityId: id,
+        oldValues: previous && toAdminUserResponse(previous),
+        newValues: toAdminUserResponse(admin)
+      });
+      res.json(toAdminUserResponse(admin));
+    } catch (error) {
+      console.error('Error updating admin user:', error);
+      res.status(500).json({ error: 'Failed to update user' });
+    }
+  });
+
+  // Support Inbox API
+  app.get('/api/support/staff', requirePermission('support:reply'), async (req, res) => {
+    try {
+      const admins = await storage.getActiveAdminUsers();
+      res.json(admins.map(({ id, name, email }) => ({ id, name, email })));
+    } catch (error) {
+      console.error('Error fetching support staff:', error);
+      res.status(500).json({ error: 'Failed to fetch support staff' });
+    }
+  });
+
+  app.get('/api/support/tickets', requirePermission('support:reply'), async (req: any, res) => {
+    try {
+      const { status, assignedTo } = req.query;
+      if (status && status !== 'OPEN' && status !== 'CLOSED') {
+        return res.status(400).json({ error: 'Status must be OPEN or CLOSED' });
+      }
+
+      let assignedToId: string | null | undefined;
+      if (assignedTo === 'me') {
+        assignedToId = req.user.id;
+      } else if (assignedTo === 'unassigned') {
+        assignedToId = null;
+      } else if (typeof assignedTo === 'string' && assignedTo) {
+        if (!UUID_PATTERN.test(assignedTo)) {
+          return res.status(400).json({ error: 'Invalid assignee' });
+        }
+        assignedToId = assignedTo;
+      }
+
+      const tickets = await storage.getSupportTickets({ status, assignedToId });
+      res.json(tickets);
+    } catch (error) {
+      console.error('Error fetching support tickets:', error);
+      res.status(500).json({ error: 'Failed to fetch support tickets' });
+    }
+  });
+
+  app.get('/api/support/tickets/:id', requirePermission('support:reply'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const ticket = await storage.getSupportTicket(id);
+      if (!ticket) {
+        return res.status(404).json({ error: 'Support ticket not found' });
+      }
+      const messages = await storage.getSupportMessages(id);
+      res.json({ ...ticket, messages });
+    } catch (error) {
+      console.error('Error fetching support ticket:', error);
+      res.status(500).json({ error: 'Failed to fetch support ticket' });
+    }
+  });
+
+  app.post('/api/support/tickets/:id/messages', requirePermission('support:reply'), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+      if (!body) {
+        return res.status(400).json({ error: 'Message is required' });
+      }
+      if (body.length > 4000) {
+        return res.status(400).json({ error: 'Message must be 4000 characters or fewer' });
+      }
+
+      const ticket = await storage.getSupportTicket(id);
+      if (!ticket) {
+        return res.status(404).json({ error: 'Support ticket not found' });
+      }
+      if (ticket.status === 'CLOSED') {
+        return res.status(400).json({ error: 'Reopen the ticket before replying' });
+      }
+
+      const message = await supportService.reply(ticket, req.user, body);
+      res.status(201).json(message);
+    } catch (error) {
+      console.error('Error replying to support ticket:', error);
+      res.status(500).json({ error: 'Failed to send reply' });
+    }
+  });
+
+  app.put('/api/support/tickets/:id', requirePermission('support:reply'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { status, assignedToId } = req.body;
+      if (status !== undefined && status !== 'OPEN' && status !== 'CLOSED') {
+        return res.status(400).json({ error: 'Status must be OPEN or CLOSED' });
+      }
+      if (assignedToId !== undefined && assignedToId !== null && (typeof assignedToId !== 'string' || !UUID_PATTERN.test(assignedToId))) {
+        return res.status(400).json({ error: 'Assignee must be an active staff member' });
+      }
+
+      const ticket = await storage.getSupportTicket(id);
+      if (!ticket) {
+        return res.status(404).json({ error: 'Support ticket not found' });
+      }
+
+      if (assignedToId !== undefined) {
+        if (assignedToId !== null) {
+          const assignee = await storage.getAdminUser(assignedToId);
+          if (!assignee || !assignee.isActive) {
+            return res.status(400).json({ error: 'Assignee must be an active staff member' });
+          }
+        }
+        await storage.assignSupportTicket(id, assignedToId);
+      }
+
+      if (status === 'CLOSED' && ticket.status === 'OPEN') {
+        await supportService.close(ticket);
+      } else if (status === 'OPEN' && ticket.status === 'CLOSED') {
+        if (await storage.getOpenSupportTicket(ticket.userId)) {
+          return res.status(409).json({ error: 'This customer already has an open ticket' });
+        }
+        await storage.setSupportTicketStatus(id, 'OPEN');
+      }
+
+      const updated = await storage.getSupportTicket(id);
+      await auditService.record(req, {
+        action: 'support_ticket.update',
+        entityType: 'support_ticket',
+        entityId: id,
+        oldValues: { status: ticket.status, assignedToId: ticket.assignedToId },
+        newValues: { status: updated?.status, assignedToId: updated?.assignedToId }
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating support ticket:', error);
+      res.status(500).json({ error: 'Failed to update support ticket' });
+    }
+  });
+
+  // Audit Log API
+  app.get('/api/audit-logs', requirePermission('audit:read'), async (req, res) => {
+    try {
+      const { entityType, entityId, action, adminUserId, search, from, to } = req.query;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ error: 'Invalid date range' });
+      }
+
+      const result = await storage.getAuditLogs({
+        entityType: entityType as string | undefined,
+        entityId: entityId as string | undefined,
+        action: action as string | undefined,
+        adminUserId: adminUserId as string | undefined,
+        search: typeof search === 'string' && search.trim() ? search.trim() : undefined,
+        from: fromDate,
+        to: toDate,
+        limit,
+        offset
+      });
+      res.json(result);
+    } catch (error) {
+      console.error('Error fetching audit logs:', error);
+      res.status(500).json({ error: 'Failed to fetch audit logs' });
+    }
+  });
+
   // Export Orders API
-  app.get('/api/export/orders', requireAuth, async (req, res) => {
+  app.get('/api/export/orders', requirePermission('orders:read'), async (req, res) => {
     try {
       const orders = await storage.getAllOrders();
       
@@ -346,9 +1175,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reconciliation API
-  app.post('/api/reconciliation/force', requireAuth, async (req, res) => {
+  app.post('/api/reconciliation/force', requirePermission('payments:reconcile'), async (req, res) => {
     try {
       const result = await reconciliationService.forceReconciliation();
+      await auditService.record(req, {
+        action: 'reconciliation.force',
+        entityType: 'reconciliation',
+        entityId: 'payments',
+        newValues: result
+      });
       res.json(result);
     } catch (error) {
       console.error('Error forcing reconciliation:', error);
@@ -356,7 +1191,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/reconciliation/status', requireAuth, async (req, res) => {
+  app.get('/api/reconciliation/status', requirePermission('payments:read'), async (req, res) => {
     try {
       const status = reconciliationService.getStatus();
       res.json(status);
@@ -367,103 +1202,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // System Settings API
-  app.get('/api/settings', requireAuth, async (req, res) => {
+  app.get('/api/settings', requirePermission('settings:write'), async (req, res) => {
     try {
       const settings = await storage.getAllSystemSettings();
-      res.json(settings);
+      res.json(settings.map(toSettingResponse));
     } catch (error) {
       console.error('Error fetching system settings:', error);
       res.status(500).json({ error: 'Failed to fetch settings' });
     }
   });
 
-  app.post('/api/settings', requireAuth, async (req, res) => {
+  app.post('/api/settings', requirePermission('settings:write'), async (req, res) => {
     try {
-      const { key, value, description } = req.body;
-      const setting = await storage.setSystemSetting({ key, value, description });
-      
-      // If Telegram bot token was updated, refresh the service and webhook
-      if (key === 'TELEGRAM_BOT_TOKEN') {
-        console.log('Telegram bot token updated, refreshing service...');
-        const { telegramService } = await import('./services/telegram');
-        await telegramService.refreshBotToken();
-        
-        // Register webhook using correct URL priority
-        let webhookUrl = process.env.REPLIT_DEPLOYMENT_URL; // Production URL
-        
-        // If no deployment URL, use development URL with correct priority
-        if (!webhookUrl) {
-          // Priority 1: Use REPLIT_DOMAINS (most reliable for development)
-          if (process.env.REPLIT_DOMAINS) {
-            const domains = process.env.REPLIT_DOMAINS.split(',');
-            if (domains.length > 0) {
-              webhookUrl = `https://${domains[0].trim()}`;
-            }
-          } 
-          // Priority 2: Fallback to REPL_ID and REPL_OWNER format (less reliable)
-          else if (process.env.REPL_ID && process.env.REPL_OWNER) {
-            webhookUrl = `https://${process.env.REPL_ID}--${process.env.REPL_OWNER}.replit.dev`;
-          }
-        }
-        
-        console.log('🌐 Environment info:');
-        console.log('   REPLIT_DOMAINS:', process.env.REPLIT_DOMAINS);
-        console.log('   REPL_ID:', process.env.REPL_ID);
-        console.log('   REPL_OWNER:', process.env.REPL_OWNER);
-        console.log('   Final webhook URL:', webhookUrl);
-        
-        if (webhookUrl && value) {
-          const environment = process.env.REPLIT_DEPLOYMENT_URL ? 'production' : 'development';
-          console.log(`Re-registering webhook with new bot token (${environment} mode)...`);
-          console.log('Webhook URL:', webhookUrl);
-          
-          const webhookSet = await telegramService.setWebhook(webhookUrl);
-          console.log('Webhook registration result:', webhookSet);
-          
-          if (webhookSet) {
-            console.log(`✅ Telegram webhook successfully registered in ${environment} mode! Your bot is now active.`);
-            if (environment === 'development') {
-              console.log('🔧 Development mode: You can now test your bot by sending messages.');
-            }
-          } else {
-            console.log('❌ Failed to register webhook. Please check your bot token and URL accessibility.');
-          }
-        } else {
-          console.log('⚠️  Unable to determine webhook URL. Please check your environment configuration.');
-          console.log('💡 Your bot token has been saved but webhook registration failed.');
-        }
-      }
-
-      // If MTN MoMo settings were updated, refresh the service
-      if (key.startsWith('MTN_')) {
-        console.log('MTN MoMo setting updated, refreshing service...');
-        await mtnMomoService.refreshCredentials();
+      const { key, value } = req.body;
+      const previous = await storage.getSystemSetting(key);
+      // The form sends back the masked value for secrets the user didn't retype
+      if (previous?.isEncrypted && settingEncryption.isMask(value)) {
+        return res.status(201).json(toSettingResponse(previous));
       }
-      
-      res.status(201).json(setting);
+      const setting = await settingsService.save(key, value);
+      await auditService.record(req, {
+        action: 'setting.update',
+        entityType: 'system_setting',
+        entityId: key,
+        oldValues: previous && toSettingResponse(previous),
+        newValues: toSettingResponse(setting)
+      });
+      res.status(201).json(toSettingResponse(setting));
     } catch (error) {
+      if (error instanceof SettingValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error('Error creating/updating system setting:', error);
       res.status(500).json({ error: 'Failed to save setting' });
     }
   });
 
-  app.put('/api/settings/:key', requireAuth, async (req, res) => {
+  app.put('/api/settings/:key', requirePermission('settings:write'), async (req, res) => {
     try {
       const { key } = req.params;
       const { value } = req.body;
-      const setting = await storage.updateSystemSetting(key, value);
-      if (!setting) {
+      const previous = await storage.getSystemSetting(key);
+      if (!previous) {
         return res.status(404).json({ error: 'Setting not found' });
       }
-      res.json(setting);
+      if (previous.isEncrypted && settingEncryption.isMask(value)) {
+        return res.json(toSettingResponse(previous));
+      }
+      const setting = await settingsService.save(key, value);
+      await auditService.record(req, {
+        action: 'setting.update',
+        entityType: 'system_setting',
+        entityId: key,
+        oldValues: toSettingResponse(previous),
+        newValues: toSettingResponse(setting)
+      });
+      res.json(toSettingResponse(setting));
     } catch (error) {
+      if (error instanceof SettingValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error('Error updating system setting:', error);
       res.status(500).json({ error: 'Failed to update setting' });
     }
   });
 
+  app.post('/api/settings/:key/reveal', requirePermission('settings:write'), async (req, res) => {
+    try {
+      const { key } = req.params;
+      const setting = await storage.getSystemSetting(key);
+      if (!setting) {
+        return res.status(404).json({ error: 'Setting not found' });
+      }
+      await auditService.record(req, {
+        action: 'setting.reveal',
+        entityType: 'system_setting',
+        entityId: key
+      });
+      res.json({ key: setting.key, value: setting.value });
+    } catch (error) {
+      console.error('Error revealing system setting:', error);
+      res.status(500).json({ error: 'Failed to reveal setting' });
+    }
+  });
+
   // Manual Telegram webhook registration endpoint
-  app.post('/api/telegram/register-webhook', requireAuth, async (req, res) => {
+  app.post('/api/telegram/register-webhook', requirePermission('settings:write'), async (req, res) => {
     try {
       const { telegramService } = await import('./services/telegram');
       const { WebhookHelper } = await import('./services/webhook-helper');
@@ -486,6 +1310,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log('Manual webhook registration requested...');
       const webhookSet = await telegramService.setWebhook(webhookUrl);
+      await auditService.record(req, {
+        action: 'telegram.register_webhook',
+        entityType: 'telegram_webhook',
+        entityId: 'telegram',
+        newValues: { webhookUrl, success: webhookSet }
+      });
       
       if (webhookSet) {
         const envInfo = WebhookHelper.getEnvironmentInfo();
@@ -508,7 +1338,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Check Telegram bot status
-  app.get('/api/telegram/status', requireAuth, async (req, res) => {
+  app.get('/api/telegram/status', requirePermission('settings:write'), async (req, res) => {
     try {
       const { telegramService } = await import('./services/telegram');
       const { WebhookHelper } = await import('./services/webhook-helper');
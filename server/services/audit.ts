@@ -0,0 +1,67 @@
+import type { Request } from 'express';
+import { storage } from '../storage';
+import { getSettingDefinition } from '@shared/settings';
+
+export const REDACTED = '[REDACTED]';
+
+// Settings such as TELEGRAM_BOT_TOKEN, MTN_PRIMARY_KEY or MTN_CALLBACK_SECRET hold credentials
+const SECRET_SETTING_PATTERN = /KEY|SECRET|TOKEN|PASSWORD/i;
+// Fields such as password or tokenHash on any audited record
+const SECRET_FIELD_PATTERN = /password|secret|token/i;
+
+export interface AuditEntry {
+  action: string;
+  entityType: string;
+  entityId: string;
+  oldValues?: Record<string, any> | null;
+  newValues?: Record<string, any> | null;
+}
+
+export function isSecretSettingKey(key: string): boolean {
+  return !!getSettingDefinition(key)?.secret || SECRET_SETTING_PATTERN.test(key);
+}
+
+export function redactAuditValues(values: Record<string, any> | null | undefined): Record<string, any> {
+  if (!values) {
+    return {};
+  }
+
+  const redacted: Record<string, any> = {};
+  for (const [field, value] of Object.entries(values)) {
+    if (SECRET_FIELD_PATTERN.test(field)) {
+      redacted[field] = value == null ? value : REDACTED;
+    } else if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+      redacted[field] = redactAuditValues(value);
+    } else {
+      redacted[field] = value;
+    }
+  }
+
+  // System settings are stored as { key, value }, so the key decides whether the value is secret
+  if (typeof redacted.key === 'string' && isSecretSettingKey(redacted.key) && redacted.value != null) {
+    redacted.value = REDACTED;
+  }
+  return redacted;
+}
+
+class AuditService {
+  // Never throws: a failed audit write is logged but must not fail the change it describes
+  async record(req: Request, entry: AuditEntry): Promise<void> {
+    try {
+      await storage.createAuditLog({
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        adminUserId: req.user?.id ?? null,
+        oldValues: redactAuditValues(entry.oldValues),
+        newValues: redactAuditValues(entry.newValues),
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent') ?? null,
+      });
+    } catch (error) {
+      console.error('Error writing audit log:', error);
+    }
+  }
+}
+
+export const auditService = new AuditService();
@@ -0,0 +1,93 @@
+import type { Request } from 'express';
+import { storage } from '../storage';
+import type { Payment } from '@shared/schema';
+import type { PaymentProvider, ProviderCallback } from './payment-provider';
+
+export type CallbackRejectionReason =
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'stale_timestamp'
+  | 'replayed_nonce'
+  | 'amount_mismatch'
+  | 'currency_mismatch'
+  | 'unverifiable_payment'
+  | 'unknown_payment';
+
+const STATUS_FOR_REASON: Record<CallbackRejectionReason, number> = {
+  missing_signature: 401,
+  invalid_signature: 401,
+  stale_timestamp: 401,
+  replayed_nonce: 401,
+  amount_mismatch: 422,
+  currency_mismatch: 422,
+  unverifiable_payment: 422,
+  unknown_payment: 404,
+};
+
+export class CallbackRejectedError extends Error {
+  public status: number;
+
+  constructor(public reason: CallbackRejectionReason, message: string, public paymentId?: string) {
+    super(message);
+    this.name = 'CallbackRejectedError';
+    this.status = STATUS_FOR_REASON[reason];
+  }
+}
+
+// Amounts are compared in pesewas so "60", "60.0" and "60.00" agree
+function toPesewas(amount: unknown): number | null {
+  const value = typeof amount === 'number' ? amount : parseFloat(String(amount ?? ''));
+  return Number.isFinite(value) ? Math.round(value * 100) : null;
+}
+
+/**
+ * Checks shared by every provider's callbacks once the provider has verified the request
+ * itself: the callback must report the amount and currency the payment was created for.
+ * Refused callbacks are stored so they can be reviewed from the payments page.
+ */
+class CallbackGuard {
+  verifyAmount(payment: Payment, callback: ProviderCallback, expectedCurrency: string) {
+    const reported = toPesewas(callback.amount);
+    if (reported === null || reported !== toPesewas(payment.amountGhs)) {
+      throw new CallbackRejectedError(
+        'amount_mismatch',
+        `Callback amount ${callback.amount ?? '(none)'} does not match payment amount ${payment.amountGhs}`,
+        payment.id
+      );
+    }
+
+    if (callback.currency !== expectedCurrency) {
+      throw new CallbackRejectedError(
+        'currency_mismatch',
+        `Callback currency ${callback.currency ?? '(none)'} does not match ${expectedCurrency}`,
+        payment.id
+      );
+    }
+  }
+
+  // Never throws; failing to store a rejection must not change the response
+  async recordRejection(req: Request, provider: PaymentProvider, error: CallbackRejectedError) {
+    try {
+      // Only the provider's own headers are kept; cookies and auth never are
+      const headers: Record<string, any> = {};
+      for (const name of [...provider.callbackHeaders, 'user-agent', 'content-type']) {
+        const value = req.headers[name];
+        if (value) headers[name] = Array.isArray(value) ? value[0] : value;
+      }
+
+      await storage.createRejectedCallback({
+        provider: provider.id,
+        reason: error.reason,
+        message: error.message,
+        paymentId: error.paymentId ?? null,
+        payload: (req.body ?? {}) as Record<string, any>,
+        headers,
+        ipAddress: req.ip ?? null,
+      });
+    } catch (recordError) {
+      console.error(`Failed to record rejected ${provider.name} callback:`, recordError);
+    }
+  }
+}
+
+export const callbackGuard = new CallbackGuard();
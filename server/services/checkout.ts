@@ -0,0 +1,170 @@
+import { storage } from '../storage';
+import type { CartItemWithProduct, Coupon, Order } from '@shared/schema';
+import { SETTINGS_BY_KEY } from '@shared/settings';
+
+const DEFAULT_SHIPPING_GHS = SETTINGS_BY_KEY.SHIPPING_FEE_GHS.default!;
+
+export interface CheckoutQuoteItem {
+  productId: string;
+  title: string;
+  quantity: number;
+  unitPriceGhs: string;
+  lineTotalGhs: string;
+}
+
+export interface CheckoutQuote {
+  items: CheckoutQuoteItem[];
+  unavailable: CartItemWithProduct[];
+  subtotalGhs: string;
+  shippingGhs: string;
+  discountGhs: string;
+  totalGhs: string;
+  coupon?: Coupon;
+  couponError?: string;
+}
+
+export interface CheckoutDetails {
+  customerPhone: string;
+  deliveryAddress?: string;
+  address?: Record<string, any>;
+  paymentProvider?: string;
+}
+
+// Money is summed in pesewas so decimal strings from Postgres don't pick up float drift
+function toPesewas(amount: string | number): number {
+  return Math.round(parseFloat(String(amount)) * 100);
+}
+
+function fromPesewas(pesewas: number): string {
+  return (pesewas / 100).toFixed(2);
+}
+
+class CheckoutService {
+  async getShippingFee(): Promise<string> {
+    try {
+      const setting = await storage.getSystemSetting('SHIPPING_FEE_GHS');
+      if (setting?.value && !isNaN(parseFloat(setting.value))) {
+        return fromPesewas(toPesewas(setting.value));
+      }
+    } catch (error) {
+      console.warn('Could not load shipping fee from database:', error);
+    }
+
+    return process.env.SHIPPING_FEE_GHS || DEFAULT_SHIPPING_GHS;
+  }
+
+  async findValidCoupon(code: string, subtotalGhs: string): Promise<{ coupon?: Coupon; error?: string }> {
+    const coupon = await storage.getCouponByCode(code.trim().toUpperCase());
+    if (!coupon || !coupon.isActive) {
+      return { error: 'This coupon code is not valid.' };
+    }
+
+    const now = new Date();
+    if (coupon.startsAt && coupon.startsAt > now) {
+      return { error: 'This coupon is not active yet.' };
+    }
+    if (coupon.expiresAt && coupon.expiresAt < now) {
+      return { error: 'This coupon has expired.' };
+    }
+    if (coupon.maxUses !== null && coupon.usedCount >= coupon.maxUses) {
+      return { error: 'This coupon has reached its usage limit.' };
+    }
+    if (coupon.minOrderAmount && toPesewas(subtotalGhs) < toPesewas(coupon.minOrderAmount)) {
+      return { error: `This coupon needs a minimum order of ₵${coupon.minOrderAmount}.` };
+    }
+
+    return { coupon };
+  }
+
+  calculateDiscount(coupon: Coupon, subtotalGhs: string): string {
+    const subtotal = toPesewas(subtotalGhs);
+    const discount = coupon.type === 'percent'
+      ? Math.round(subtotal * parseFloat(coupon.value) / 100)
+      : toPesewas(coupon.value);
+
+    // Coupons only discount the goods, never shipping, and never below zero
+    return fromPesewas(Math.min(Math.max(discount, 0), subtotal));
+  }
+
+  async getQuote(userId: string, couponCode?: string): Promise<CheckoutQuote> {
+    const cartItems = await storage.getCartItems(userId);
+
+    const unavailable = cartItems.filter(item =>
+      !item.product.isActive || item.quantity > item.product.stock
+    );
+
+    const items = cartItems.map(item => ({
+      productId: item.productId,
+      title: item.product.title,
+      quantity: item.quantity,
+      unitPriceGhs: item.product.priceGhs,
+      lineTotalGhs: fromPesewas(toPesewas(item.product.priceGhs) * item.quantity),
+    }));
+
+    const subtotal = items.reduce((sum, item) => sum + toPesewas(item.lineTotalGhs), 0);
+    const shipping = items.length > 0 ? toPesewas(await this.getShippingFee()) : 0;
+
+    let discount = 0;
+    let coupon: Coupon | undefined;
+    let couponError: string | undefined;
+    if (couponCode && items.length > 0) {
+      const result = await this.findValidCoupon(couponCode, fromPesewas(subtotal));
+      coupon = result.coupon;
+      couponError = result.error;
+      if (coupon) {
+        discount = toPesewas(this.calculateDiscount(coupon, fromPesewas(subtotal)));
+      }
+    }
+
+    return {
+      items,
+      unavailable,
+      subtotalGhs: fromPesewas(subtotal),
+      shippingGhs: fromPesewas(shipping),
+      discountGhs: fromPesewas(discount),
+      totalGhs: fromPesewas(Math.max(subtotal + shipping - discount, 0)),
+      coupon,
+      couponError,
+    };
+  }
+
+  async createOrder(userId: string, quote: CheckoutQuote, details: CheckoutDetails): Promise<Order> {
+    if (quote.items.length === 0) {
+      throw new Error('Cannot create an order from an empty cart');
+    }
+
+    // Reserves stock for every item in the same transaction as the order insert
+    return await storage.createOrderWithItems({
+      userId,
+      customerPhone: details.customerPhone,
+      totalGhs: quote.totalGhs,
+      shippingGhs: quote.shippingGhs,
+      discountGhs: quote.discountGhs,
+      couponId: quote.coupon?.id,
+      status: 'PENDING',
+      address: details.address,
+      deliveryAddress: details.deliveryAddress,
+      paymentProvider: details.paymentProvider,
+    }, quote.items.map(item => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      priceGhs: item.unitPriceGhs,
+    })));
+  }
+
+  formatSummary(quote: CheckoutQuote): string {
+    let summary = '';
+    for (const item of quote.items) {
+      summary += `• ${item.title}\n   ${item.quantity} × ₵${item.unitPriceGhs} = ₵${item.lineTotalGhs}\n`;
+    }
+    summary += `\nSubtotal: ₵${quote.subtotalGhs}\n`;
+    summary += `Shipping: ₵${quote.shippingGhs}\n`;
+    if (toPesewas(quote.discountGhs) > 0) {
+      summary += `Discount${quote.coupon ? ` (${quote.coupon.code})` : ''}: -₵${quote.discountGhs}\n`;
+    }
+    summary += `*Total: ₵${quote.totalGhs}*`;
+    return summary;
+  }
+}
+
+export const checkoutService = new CheckoutService();
@@ -0,0 +1,83 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { storeProfileService } from './store-profile';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a message; production setups register their own (SMTP, API, ...)
+export interface EmailTransport {
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+// Development default: the email, including any links, ends up in the server log
+export class ConsoleEmailTransport implements EmailTransport {
+  async send(message: EmailMessage & { from: string }): Promise<void> {
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Writes one .txt file per email, for inspecting messages without a mail server
+export class FileEmailTransport implements EmailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage & { from: string }): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.txt`;
+    const content = `From: ${message.from}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+    await writeFile(path.join(this.directory, fileName), content);
+  }
+}
+
+export class EmailNotConfiguredError extends Error {
+  constructor() {
+    super('No email transport is configured; register one with emailService.setTransport');
+    this.name = 'EmailNotConfiguredError';
+  }
+}
+
+// The console and file transports expose links in logs and on disk, so production gets
+// no transport at all until a real one is registered
+function createTransportFromEnv(): EmailTransport | null {
+  const configured = process.env.EMAIL_TRANSPORT || 'console';
+  if (process.env.NODE_ENV === 'production') {
+    console.error(`EMAIL_TRANSPORT "${configured}" is for development only; emails will not be sent until a transport is registered`);
+    return null;
+  }
+
+  switch (configured) {
+    case 'file':
+      return new FileEmailTransport(process.env.EMAIL_FILE_DIR || path.join(tmpdir(), 'ecombot-emails'));
+    case 'console':
+      return new ConsoleEmailTransport();
+    default:
+      console.warn(`Unknown EMAIL_TRANSPORT "${configured}", logging emails to the console`);
+      return new ConsoleEmailTransport();
+  }
+}
+
+class EmailService {
+  private transport: EmailTransport | null = createTransportFromEnv();
+
+  setTransport(transport: EmailTransport) {
+    this.transport = transport;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    if (!this.transport) {
+      throw new EmailNotConfiguredError();
+    }
+
+    const { name } = await storeProfileService.getProfile();
+    await this.transport.send({
+      ...message,
+      from: process.env.EMAIL_FROM || `${name} <no-reply@ecombot.gh>`
+    });
+  }
+}
+
+export const emailService = new EmailService();
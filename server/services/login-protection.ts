@@ -0,0 +1,82 @@
+import type { Request } from 'express';
+import { storage } from '../storage';
+import { auditService } from './audit';
+import type { AdminUser } from '@shared/schema';
+
+// Consecutive failures before an account is locked, and for how long
+export const MAX_FAILED_LOGINS = parseInt(process.env.MAX_FAILED_LOGINS || '5');
+export const LOGIN_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15');
+// Failures from one IP address across all accounts, e.g. password spraying
+export const MAX_FAILED_LOGINS_PER_IP = parseInt(process.env.MAX_FAILED_LOGINS_PER_IP || '20');
+const IP_WINDOW_MINUTES = 15;
+
+// The first failures are free (typos); after that each one is answered more slowly
+const FREE_ATTEMPTS = 2;
+const BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 8000;
+
+export const LOGIN_FAILED_ACTION = 'auth.login_failed';
+
+export type LoginFailureReason = 'invalid_credentials' | 'inactive' | 'locked' | 'invalid_two_factor_code';
+
+class LoginProtectionService {
+  isLocked(user: AdminUser): boolean {
+    return !!user.lockedUntil && user.lockedUntil > new Date();
+  }
+
+  async isIpBlocked(ipAddress: string | undefined): Promise<boolean> {
+    if (!ipAddress) {
+      return false;
+    }
+    const since = new Date(Date.now() - IP_WINDOW_MINUTES * 60 * 1000);
+    return (await storage.countRecentAuditLogs(LOGIN_FAILED_ACTION, ipAddress, since)) >= MAX_FAILED_LOGINS_PER_IP;
+  }
+
+  delayFor(failedAttempts: number): number {
+    if (failedAttempts <= FREE_ATTEMPTS) {
+      return 0;
+    }
+    return Math.min(BASE_DELAY_MS * 2 ** (failedAttempts - FREE_ATTEMPTS - 1), MAX_DELAY_MS);
+  }
+
+  // Returns the updated account (if the email belongs to one) so callers can tell whether it is now locked
+  async recordFailure(
+    req: Request,
+    email: string,
+    user: AdminUser | undefined,
+    reason: LoginFailureReason
+  ): Promise<AdminUser | undefined> {
+    await auditService.record(req, {
+      action: LOGIN_FAILED_ACTION,
+      entityType: 'admin_user',
+      entityId: user?.id ?? email,
+      newValues: { email, reason }
+    });
+
+    if (!user || reason === 'locked') {
+      return user;
+    }
+
+    const updated = await storage.recordFailedLogin(user.id, MAX_FAILED_LOGINS, LOGIN_LOCKOUT_MINUTES);
+    if (updated && !this.isLocked(updated)) {
+      await new Promise(resolve => setTimeout(resolve, this.delayFor(updated.failedLoginAttempts)));
+    }
+    return updated;
+  }
+
+  async recordSuccess(req: Request, user: AdminUser): Promise<AdminUser> {
+    await auditService.record(req, {
+      action: 'auth.login',
+      entityType: 'admin_user',
+      entityId: user.id,
+      newValues: { email: user.email }
+    });
+
+    if (user.failedLoginAttempts === 0 && !user.lockedUntil) {
+      return user;
+    }
+    return (await storage.resetFailedLogins(user.id)) ?? user;
+  }
+}
+
+export const loginProtectionService = new LoginProtectionService();
@@ -0,0 +1,65 @@
+import type { Request } from 'express';
+import { storage } from '../storage';
+import { mtnMomoService } from './mtn-momo';
+import { CallbackRejectedError } from './callback-guard';
+
+const PROVIDER = 'mtn_momo';
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+// The headers MTN callbacks are signed with
+export const MTN_CALLBACK_HEADERS = ['x-mtn-signature', 'x-mtn-timestamp', 'x-mtn-nonce'];
+
+function header(req: Request, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Decides whether a request to the MTN callback route really comes from MTN: the signature
+ * (required in strict mode), a fresh timestamp and an unused nonce. The amount and currency are
+ * checked afterwards by CallbackGuard, like every provider's.
+ */
+class MtnCallbackGuard {
+  getToleranceSeconds(): number {
+    return parseInt(process.env.MTN_CALLBACK_TOLERANCE_SECONDS || String(DEFAULT_TOLERANCE_SECONDS));
+  }
+
+  async verifyRequest(req: Request): Promise<void> {
+    const signature = header(req, 'x-mtn-signature');
+    const timestamp = header(req, 'x-mtn-timestamp');
+    const nonce = header(req, 'x-mtn-nonce');
+
+    if (!signature) {
+      if (mtnMomoService.requiresSignedCallbacks()) {
+        throw new CallbackRejectedError('missing_signature', 'Callback is not signed');
+      }
+      return;
+    }
+
+    if (!mtnMomoService.validateWebhookSignature(JSON.stringify(req.body), signature, timestamp, nonce)) {
+      throw new CallbackRejectedError('invalid_signature', 'Invalid signature');
+    }
+
+    // Unsigned timestamps and nonces can't be trusted, so strict mode needs both
+    if (!timestamp || !nonce) {
+      if (mtnMomoService.requiresSignedCallbacks()) {
+        throw new CallbackRejectedError('missing_signature', 'Signed callbacks must include a timestamp and nonce');
+      }
+      return;
+    }
+
+    const sentAt = parseInt(timestamp);
+    const tolerance = this.getToleranceSeconds();
+    if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > tolerance) {
+      throw new CallbackRejectedError('stale_timestamp', 'Callback timestamp is outside the allowed window');
+    }
+
+    // The nonce only has to be remembered for as long as its timestamp would be accepted
+    const expiresAt = new Date((sentAt + tolerance) * 1000);
+    if (!(await storage.claimWebhookNonce(PROVIDER, nonce, expiresAt))) {
+      throw new CallbackRejectedError('replayed_nonce', 'Callback nonce has already been used');
+    }
+  }
+}
+
+export const mtnCallbackGuard = new MtnCallbackGuard();
@@ -0,0 +1,105 @@
+import type { Request } from 'express';
+import { mtnMomoService, MTN_STATUS_NOT_FOUND, MTN_STATUS_UNREACHABLE } from './mtn-momo';
+import { mtnCallbackGuard, MTN_CALLBACK_HEADERS } from './mtn-callback-guard';
+import type {
+  PaymentProvider,
+  PaymentRequest,
+  ProviderCallback,
+  ProviderRequestResult,
+  ProviderStatus,
+  ProviderStatusResult,
+  RefundRequest
+} from './payment-provider';
+
+function optionalString(value: unknown): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+// MTN MoMo Collections for payments and Disbursement for refunds, via MTNMomoService
+class MtnMomoProvider implements PaymentProvider {
+  readonly id = 'mtn_momo';
+  readonly name = 'MTN Mobile Money';
+  readonly walletName = 'MTN MoMo wallet';
+  readonly webhookPath = '/api/webhooks/mtn-callback';
+  readonly callbackHeaders = MTN_CALLBACK_HEADERS;
+
+  // Maps an MTN request-to-pay or refund status onto ours; anything not final yet stays PENDING
+  fromMtnStatus(status: string | undefined): ProviderStatus {
+    if (status === 'SUCCESSFUL' || status === 'SUCCESS') {
+      return 'SUCCESS';
+    }
+    if (status === 'FAILED' || status === 'REJECTED') {
+      return 'FAILED';
+    }
+    return 'PENDING';
+  }
+
+  private toStatusResult(result: { status: string; reason?: string; financialTransactionId?: string }): ProviderStatusResult {
+    return {
+      status: this.fromMtnStatus(result.status),
+      unreachable: result.status === MTN_STATUS_UNREACHABLE,
+      notFound: result.status === MTN_STATUS_NOT_FOUND,
+      financialTransactionId: result.financialTransactionId,
+      reason: result.reason === undefined ? undefined : String(result.reason),
+      raw: result
+    };
+  }
+
+  getCurrency(): string {
+    return mtnMomoService.getCollectionCurrency();
+  }
+
+  getPaymentTimeoutMinutes(): number {
+    return mtnMomoService.getPaymentTimeoutMinutes();
+  }
+
+  async initiate(request: PaymentRequest): Promise<ProviderRequestResult> {
+    const result = await mtnMomoService.initiateCollection(
+      request.amountGhs,
+      request.customerPhone,
+      request.externalId,
+      request.description
+    );
+    return { success: result.success, providerReference: result.referenceId, error: result.error };
+  }
+
+  async checkStatus(providerReference: string): Promise<ProviderStatusResult> {
+    return this.toStatusResult(await mtnMomoService.checkPaymentStatus(providerReference));
+  }
+
+  async verifyWebhook(req: Request): Promise<ProviderCallback> {
+    await mtnCallbackGuard.verifyRequest(req);
+
+    const body = (req.body ?? {}) as Record<string, any>;
+    return {
+      providerReference: optionalString(body.referenceId),
+      externalId: optionalString(body.externalId),
+      status: this.fromMtnStatus(optionalString(body.status)),
+      amount: optionalString(body.amount),
+      currency: optionalString(body.currency),
+      payload: body
+    };
+  }
+
+  async refund(request: RefundRequest): Promise<ProviderRequestResult> {
+    const result = await mtnMomoService.initiateRefund(
+      request.amountGhs,
+      request.providerReference,
+      request.externalId,
+      request.note,
+      request.referenceId
+    );
+    return {
+      success: result.success,
+      providerReference: result.referenceId,
+      outcomeUnknown: result.outcomeUnknown,
+      error: result.error
+    };
+  }
+
+  async checkRefundStatus(providerReference: string): Promise<ProviderStatusResult> {
+    return this.toStatusResult(await mtnMomoService.checkRefundStatus(providerReference));
+  }
+}
+
+export const mtnMomoProvider = new MtnMomoProvider();
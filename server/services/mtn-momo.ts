@@ -1,6 +1,7 @@
 import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { storage } from '../storage';
+import { storeProfileService } from './store-profile';
 
 interface MTNCollectionRequest {
   amount: string;
@@ -20,6 +21,11 @@ interface MTNCollectionResponse {
   reason?: string;
 }
 
+// Status reported by checkPaymentStatus when MTN couldn't be asked, as opposed to an answer from MTN
+export const MTN_STATUS_UNREACHABLE = 'UNREACHABLE';
+// Status reported by checkRefundStatus when MTN has no record of the refund request
+export const MTN_STATUS_NOT_FOUND = 'NOT_FOUND';
+
 interface MTNTokenResponse {
   access_token: string;
   token_type: string;
@@ -32,8 +38,14 @@ class MTNMomoService {
   private apiBaseUrl: string = '';
   private env: string = '';
   private callbackSecret: string = '';
+  private callbackSignatureMode: string = 'strict';
+  private disbursementUserId: string = '';
+  private disbursementApiKey: string = '';
+  private disbursementSubscriptionKey: string = '';
   private cachedToken: string | null = null;
   private tokenExpiry: Date | null = null;
+  private cachedDisbursementToken: string | null = null;
+  private disbursementTokenExpiry: Date | null = null;
 
   constructor() {
     this.initializeCredentials();
@@ -47,6 +59,10 @@ class MTNMomoService {
       const apiBaseUrlSetting = await storage.getSystemSetting('MTN_API_BASE_URL');
       const envSetting = await storage.getSystemSetting('MTN_ENV');
       const callbackSecretSetting = await storage.getSystemSetting('MTN_CALLBACK_SECRET');
+      const signatureModeSetting = await storage.getSystemSetting('MTN_CALLBACK_SIGNATURE_MODE');
+      const disbursementUserIdSetting = await storage.getSystemSetting('MTN_DISBURSEMENT_USER_ID');
+      const disbursementApiKeySetting = await storage.getSystemSetting('MTN_DISBURSEMENT_API_KEY');
+      const disbursementSubscriptionKeySetting = await storage.getSystemSetting('MTN_DISBURSEMENT_SUBSCRIPTION_KEY');
 
       // Use User ID as clientId and Primary Key as clientSecret
       this.clientId = userIdSetting?.value || process.env.MTN_COLLECTION_USER_ID || '';
@@ -54,6 +70,10 @@ class MTNMomoService {
       this.apiBaseUrl = apiBaseUrlSetting?.value || process.env.MTN_API_BASE_URL || 'https://sandbox.momodeveloper.mtn.com';
       this.env = envSetting?.value || process.env.MTN_ENV || 'sandbox';
       this.callbackSecret = callbackSecretSetting?.value || process.env.MTN_CALLBACK_SECRET || 'default-webhook-secret';
+      this.callbackSignatureMode = signatureModeSetting?.value || process.env.MTN_CALLBACK_SIGNATURE_MODE || 'strict';
+      this.disbursementUserId = disbursementUserIdSetting?.value || process.env.MTN_DISBURSEMENT_USER_ID || '';
+      this.disbursementApiKey = disbursementApiKeySetting?.value || process.env.MTN_DISBURSEMENT_API_KEY || '';
+      this.disbursementSubscriptionKey = disbursementSubscriptionKeySetting?.value || process.env.MTN_DISBURSEMENT_SUBSCRIPTION_KEY || '';
     } catch (error) {
       console.warn('Could not load MTN MoMo settings from database, using environment variables:', error);
       
@@ -62,6 +82,10 @@ class MTNMomoService {
       this.apiBaseUrl = process.env.MTN_API_BASE_URL || 'https://sandbox.momodeveloper.mtn.com';
       this.env = process.env.MTN_ENV || 'sandbox';
       this.callbackSecret = process.env.MTN_CALLBACK_SECRET || 'default-webhook-secret';
+      this.callbackSignatureMode = process.env.MTN_CALLBACK_SIGNATURE_MODE || 'strict';
+      this.disbursementUserId = process.env.MTN_DISBURSEMENT_USER_ID || '';
+      this.disbursementApiKey = process.env.MTN_DISBURSEMENT_API_KEY || '';
+      this.disbursementSubscriptionKey = process.env.MTN_DISBURSEMENT_SUBSCRIPTION_KEY || '';
     }
 
     if (!this.clientId || !this.clientSecret) {
@@ -72,9 +96,11 @@ class MTNMomoService {
   async refreshCredentials() {
     console.log('Refreshing MTN MoMo credentials from database...');
     await this.initializeCredentials();
-    // Clear cached token to force re-authentication
+    // Clear cached tokens to force re-authentication
     this.cachedToken = null;
     this.tokenExpiry = null;
+    this.cachedDisbursementToken = null;
+    this.disbursementTokenExpiry = null;
     console.log('MTN MoMo credentials refreshed successfully');
   }
 
@@ -154,11 +180,12 @@ class MTNMomoService {
     amount: string,
     customerPhone: string,
     externalId: string,
-    description: string = 'EcomBot Purchase'
+    description?: string
   ): Promise<{ referenceId: string; success: boolean; error?: string }> {
     try {
       const token = await this.getAuthToken();
       const referenceId = uuidv4();
+      const { name: storeName } = await storeProfileService.getProfile();
       
       // Validate phone number format (Ghana: +233XXXXXXXXX or 0XXXXXXXXX)
       const phoneRegex = /^(?:\+233|0)\d{9}$/;
@@ -174,14 +201,14 @@ class MTNMomoService {
 
       const requestData: MTNCollectionRequest = {
         amount,
-        currency: this.env === 'sandbox' ? 'EUR' : 'GHS', // Sandbox uses EUR, production uses GHS
+        currency: this.getCollectionCurrency(),
         externalId,
         payer: {
           partyIdType: 'MSISDN',
           partyId: normalizedPhone
         },
-        payerMessage: `Payment for ${description}`,
-        payeeNote: `EcomBot order payment - ${externalId}`
+        payerMessage: `Payment for ${description ?? `${storeName} purchase`}`,
+        payeeNote: `${storeName} order payment - ${externalId}`
       };
       
       // For sandbox development, simulate success
@@ -231,7 +258,12 @@ class MTNMomoService {
   }> {
     try {
       const token = await this.getAuthToken();
-      
+
+      // Payments simulated by requestToPay are paid straight away
+      if (this.env === 'sandbox' && token.startsWith('sandbox_development_token_')) {
+        return { status: 'SUCCESSFUL' };
+      }
+
       const response = await fetch(`${this.apiBaseUrl}/collection/v1_0/requesttopay/${referenceId}`, {
         method: 'GET',
         headers: {
@@ -253,11 +285,167 @@ class MTNMomoService {
       }
     } catch (error) {
       console.error('Error checking payment status:', error);
-      return { status: 'FAILED', reason: 'Status check failed' };
+      return { status: MTN_STATUS_UNREACHABLE, reason: 'Status check failed' };
+    }
+  }
+
+  // Refunds go through the Disbursement product, which has its own API user, key and subscription
+  private async getDisbursementToken(): Promise<string> {
+    if (this.cachedDisbursementToken && this.disbursementTokenExpiry && new Date() < this.disbursementTokenExpiry) {
+      return this.cachedDisbursementToken;
+    }
+
+    if (!this.disbursementUserId || !this.disbursementApiKey || !this.disbursementSubscriptionKey) {
+      throw new Error('MTN disbursement credentials are required to send refunds');
+    }
+
+    // Same development shortcut as getAuthToken
+    if (this.env === 'sandbox') {
+      console.log('MTN Sandbox mode - creating mock disbursement token for development');
+      this.cachedDisbursementToken = 'sandbox_development_token_' + Date.now();
+      this.disbursementTokenExpiry = new Date(Date.now() + 3600000); // 1 hour
+      return this.cachedDisbursementToken;
     }
+
+    const credentials = Buffer.from(`${this.disbursementUserId}:${this.disbursementApiKey}`).toString('base64');
+    const response = await fetch(`${this.apiBaseUrl}/disbursement/token/`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Content-Type': 'application/json',
+        'Ocp-Apim-Subscription-Key': this.disbursementSubscriptionKey,
+        'X-Target-Environment': this.env
+      }
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('MTN Disbursement Token Request Failed:', response.status, errorText);
+      throw new Error(`Failed to get MTN disbursement token: ${response.statusText}`);
+    }
+
+    const tokenData: MTNTokenResponse = await response.json();
+    this.cachedDisbursementToken = tokenData.access_token;
+    this.disbursementTokenExpiry = new Date(Date.now() + (tokenData.expires_in - 300) * 1000); // Refresh 5 minutes early
+    return this.cachedDisbursementToken;
+  }
+
+  // Sends `amount` of the collection `referenceIdToRefund` back to the payer
+  async initiateRefund(
+    amount: string,
+    referenceIdToRefund: string,
+    externalId: string,
+    note?: string,
+    referenceId: string = uuidv4()
+  ): Promise<{ referenceId: string; success: boolean; outcomeUnknown?: boolean; error?: string }> {
+    // Once the request is sent MTN may have taken it even if no answer comes back
+    let sent = false;
+    try {
+      const token = await this.getDisbursementToken();
+      const message = note ?? `${(await storeProfileService.getProfile()).name} refund`;
+
+      if (this.env === 'sandbox' && token.startsWith('sandbox_development_token_')) {
+        console.log('MTN Sandbox mode - simulating refund request success');
+        return { referenceId, success: true };
+      }
+
+      sent = true;
+      const response = await fetch(`${this.apiBaseUrl}/disbursement/v2_0/refund`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          'X-Reference-Id': referenceId,
+          'X-Target-Environment': this.env,
+          'Ocp-Apim-Subscription-Key': this.disbursementSubscriptionKey
+        },
+        body: JSON.stringify({
+          amount,
+          currency: this.getCollectionCurrency(),
+          externalId,
+          payerMessage: message,
+          payeeNote: message,
+          referenceIdToRefund
+        })
+      });
+
+      if (response.status === 202) {
+        return { referenceId, success: true };
+      }
+
+      const errorText = await response.text();
+      console.error('MTN Refund Request Failed:', response.status, errorText);
+      return {
+        referenceId,
+        success: false,
+        outcomeUnknown: response.status >= 500,
+        error: `Refund request failed: ${response.statusText}`
+      };
+    } catch (error) {
+      console.error('Error initiating MTN refund:', error);
+      return {
+        referenceId,
+        success: false,
+        outcomeUnknown: sent,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async checkRefundStatus(referenceId: string): Promise<{
+    status: string;
+    reason?: string;
+    financialTransactionId?: string;
+  }> {
+    try {
+      const token = await this.getDisbursementToken();
+
+      // Refunds simulated by initiateRefund complete straight away
+      if (this.env === 'sandbox' && token.startsWith('sandbox_development_token_')) {
+        return { status: 'SUCCESSFUL' };
+      }
+
+      const response = await fetch(`${this.apiBaseUrl}/disbursement/v1_0/refund/${referenceId}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'X-Target-Environment': this.env,
+          'Ocp-Apim-Subscription-Key': this.disbursementSubscriptionKey
+        }
+      });
+
+      if (response.status === 404) {
+        return { status: MTN_STATUS_NOT_FOUND };
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to check refund status: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return {
+        status: data.status,
+        reason: data.reason,
+        financialTransactionId: data.financialTransactionId
+      };
+    } catch (error) {
+      console.error('Error checking refund status:', error);
+      return { status: MTN_STATUS_UNREACHABLE, reason: 'Status check failed' };
+    }
+  }
+
+  // Sandbox uses EUR, production uses GHS
+  getCollectionCurrency(): string {
+    return this.env === 'sandbox' ? 'EUR' : 'GHS';
+  }
+
+  // Only the lenient mode lets callbacks without a signature through
+  requiresSignedCallbacks(): boolean {
+    return this.callbackSignatureMode !== 'lenient';
   }
 
-  validateWebhookSignature(payload: string, signature: string): boolean {
+  // When the callback carries a timestamp and nonce they are signed along with the payload,
+  // as `${timestamp}.${nonce}.${payload}`, so neither can be swapped on a replayed body
+  validateWebhookSignature(payload: string, signature: string, timestamp?: string, nonce?: string): boolean {
     if (!signature || !this.callbackSecret) {
       console.warn('Missing webhook signature or secret');
       return false;
@@ -266,7 +454,7 @@ class MTNMomoService {
     try {
       const expectedSignature = crypto
         .createHmac('sha256', this.callbackSecret)
-        .update(payload)
+        .update(timestamp && nonce ? `${timestamp}.${nonce}.${payload}` : payload)
         .digest('hex');
       
       return crypto.timingSafeEqual(
@@ -0,0 +1,83 @@
+import { storage } from '../storage';
+import {
+  canTransitionOrder,
+  canTransitionPayment,
+  isSystemOrderStatus,
+  type OrderStatus,
+  type OrderStatusActor,
+  type PaymentStatus
+} from '@shared/order-status';
+import type { InsertPayment, Order, Payment } from '@shared/schema';
+
+export class IllegalTransitionError extends Error {
+  constructor(public entity: 'order' | 'payment', public from: string, public to: string) {
+    super(`Cannot change ${entity} status from ${from} to ${to}`);
+    this.name = 'IllegalTransitionError';
+  }
+}
+
+export interface OrderTransitionOptions {
+  adminUserId?: string | null;
+  reason?: string | null;
+  // Allows a move to a system-only status; set by RefundService alone
+  system?: boolean;
+}
+
+/**
+ * The only way order and payment statuses change. Each move is checked against the transition
+ * tables in @shared/order-status and applied only if the row is still in the status it was read
+ * in, so a late callback can't undo a move that happened in the meantime.
+ */
+class OrderStatusService {
+  // Moving to the status the order already has is a no-op and isn't recorded
+  async transitionOrder(
+    order: Order,
+    to: OrderStatus,
+    actor: OrderStatusActor,
+    options: OrderTransitionOptions = {}
+  ): Promise<Order> {
+    if (order.status === to) {
+      return order;
+    }
+    if (!canTransitionOrder(order.status, to) || (isSystemOrderStatus(to) && !options.system)) {
+      throw new IllegalTransitionError('order', order.status, to);
+    }
+
+    const updated = await storage.transitionOrderStatus(order.id, order.status, {
+      toStatus: to,
+      actor,
+      adminUserId: options.adminUserId ?? null,
+      reason: options.reason ?? null
+    });
+    if (updated) {
+      return updated;
+    }
+
+    // Someone else moved the order first; decide again from where it is now
+    const current = await storage.getOrder(order.id);
+    if (!current) {
+      throw new Error(`Order ${order.id} not found`);
+    }
+    return this.transitionOrder(current, to, actor, options);
+  }
+
+  // Details can still be stored while the status stays the same, e.g. a callback for a pending payment
+  async transitionPayment(payment: Payment, to: PaymentStatus, updates: Partial<InsertPayment> = {}): Promise<Payment> {
+    if (payment.status !== to && !canTransitionPayment(payment.status, to)) {
+      throw new IllegalTransitionError('payment', payment.status, to);
+    }
+
+    const updated = await storage.transitionPayment(payment.id, payment.status, { ...updates, status: to });
+    if (updated) {
+      return updated;
+    }
+
+    const current = await storage.getPayment(payment.id);
+    if (!current) {
+      throw new Error(`Payment ${payment.id} not found`);
+    }
+    return this.transitionPayment(current, to, updates);
+  }
+}
+
+export const orderStatusService = new OrderStatusService();
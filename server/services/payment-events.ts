@@ -0,0 +1,133 @@
+import { storage } from '../storage';
+import { CallbackRejectedError, callbackGuard } from './callback-guard';
+import { orderStatusService, IllegalTransitionError } from './order-status';
+import type { PaymentProvider, ProviderCallback } from './payment-provider';
+import { canTransitionOrder, canTransitionPayment, type OrderStatusActor } from '@shared/order-status';
+import type { Order, Payment } from '@shared/schema';
+
+type PaymentStatus = Payment['status'];
+
+// The order follows its payment: paid when it succeeds, cancelled when it can no longer succeed
+const ORDER_STATUS_FOR_PAYMENT: Record<PaymentStatus, Order['status']> = {
+  PENDING: 'PENDING',
+  SUCCESS: 'PAID',
+  FAILED: 'CANCELLED',
+  TIMEOUT: 'CANCELLED',
+  CANCELLED: 'CANCELLED',
+};
+
+const STOCK_RELEASE_REASONS: Partial<Record<PaymentStatus, string>> = {
+  FAILED: 'Payment failed',
+  TIMEOUT: 'Payment timed out',
+  CANCELLED: 'Payment cancelled',
+};
+
+// What the provider told us alongside the new status, kept on the payment
+export interface PaymentEventDetails {
+  providerReference?: string | null;
+  financialTransactionId?: string | null;
+  webhookPayload?: Record<string, any>;
+}
+
+/**
+ * Applies payment outcomes reported by any payment provider, whether they arrive on its callback
+ * webhook or are found by ReconciliationService, so both update the payment, its order and
+ * reserved stock alike.
+ */
+class PaymentEventService {
+  // Only payments made with the given provider are matched, so one provider can't settle another's
+  async findPayment(provider: PaymentProvider, providerReference?: string, externalId?: string): Promise<Payment | undefined> {
+    let payment = providerReference ? await storage.getPaymentByProviderReference(providerReference) : undefined;
+    if (!payment && externalId) {
+      payment = await storage.getPaymentByExternalId(externalId);
+    }
+    return payment?.provider === provider.id ? payment : undefined;
+  }
+
+  // Throws CallbackRejectedError, before anything changes, when the callback matches no payment
+  // or reports a different amount or currency than the payment was created for, and when a
+  // reported success can't be confirmed because the payment has no provider reference.
+  // `queued` is set when a reported success couldn't be confirmed with the provider yet.
+  async handleCallback(
+    provider: PaymentProvider,
+    callback: ProviderCallback
+  ): Promise<{ payment: Payment; status: PaymentStatus; queued: boolean }> {
+    const payment = await this.findPayment(provider, callback.providerReference, callback.externalId);
+    if (!payment) {
+      throw new CallbackRejectedError('unknown_payment', 'Payment not found');
+    }
+    callbackGuard.verifyAmount(payment, callback, provider.getCurrency());
+
+    const providerReference = callback.providerReference || payment.providerReference;
+    const webhookPayload = callback.payload;
+    const reported = callback.status;
+    // A redelivered callback is accepted again; one contradicting a settled payment is not
+    if (payment.status !== reported && !canTransitionPayment(payment.status, reported)) {
+      throw new IllegalTransitionError('payment', payment.status, reported);
+    }
+    if (reported !== 'SUCCESS') {
+      await this.recordStatus(payment, reported, 'webhook', { providerReference, webhookPayload });
+      return { payment, status: reported, queued: false };
+    }
+    if (!providerReference) {
+      throw new CallbackRejectedError(
+        'unverifiable_payment',
+        'Payment has no provider reference to confirm the callback with',
+        payment.id
+      );
+    }
+
+    // A callback alone never marks a payment paid: the provider has to confirm it first. Until
+    // it does, reconciliation keeps asking instead of timing the payment out.
+    const verification = await provider.checkStatus(providerReference);
+    if (verification.status === 'PENDING') {
+      // A timed out payment stays TIMEOUT until the provider confirms the success
+      await orderStatusService.transitionPayment(payment, payment.status === 'TIMEOUT' ? 'TIMEOUT' : 'PENDING', {
+        providerReference,
+        webhookPayload,
+        verificationQueuedAt: new Date()
+      });
+      console.warn(verification.unreachable
+        ? `Could not confirm payment ${payment.id} with ${provider.name}, leaving it to reconciliation`
+        : `${provider.name} still reports payment ${payment.id} as pending, leaving it to reconciliation`);
+      return { payment, status: 'PENDING', queued: true };
+    }
+
+    await this.recordStatus(payment, verification.status, 'webhook', {
+      providerReference,
+      financialTransactionId: verification.financialTransactionId ?? null,
+      webhookPayload
+    });
+    return { payment, status: verification.status, queued: false };
+  }
+
+  async recordStatus(payment: Payment, status: PaymentStatus, actor: OrderStatusActor, details: PaymentEventDetails = {}) {
+    await orderStatusService.transitionPayment(payment, status, details);
+
+    // An order that has moved on, e.g. already shipped, keeps its status and its stock
+    const orderStatus = ORDER_STATUS_FOR_PAYMENT[status];
+    const order = await storage.getOrder(payment.orderId);
+    if (order?.status === 'CANCELLED' && status === 'SUCCESS') {
+      // The money was taken after all; the orders page flags the order until it's refunded
+      await storage.markOrderRefundDue(order.id);
+      console.warn(`Payment ${payment.id} succeeded after order ${order.id} was cancelled, refund due`);
+      return;
+    }
+    if (!order || (order.status !== orderStatus && !canTransitionOrder(order.status, orderStatus))) {
+      console.warn(`Payment ${payment.id} updated to ${status}, order ${payment.orderId} left as ${order?.status}`);
+      return;
+    }
+    await orderStatusService.transitionOrder(order, orderStatus, actor, { reason: `Payment ${status}` });
+
+    // Settle the stock and coupon use reserved at checkout
+    if (status === 'SUCCESS') {
+      await storage.commitOrderStock(payment.orderId);
+    } else if (STOCK_RELEASE_REASONS[status]) {
+      await storage.releaseOrderStock(payment.orderId, STOCK_RELEASE_REASONS[status]!);
+    }
+
+    console.log(`Payment ${payment.id} updated to ${status}, order ${payment.orderId} updated to ${orderStatus}`);
+  }
+}
+
+export const paymentEventService = new PaymentEventService();
@@ -0,0 +1,117 @@
+import type { Request } from 'express';
+import { mtnMomoProvider } from './mtn-momo-provider';
+import type { Order } from '@shared/schema';
+
+// The payment statuses a provider can report; TIMEOUT and CANCELLED are ours to decide
+export type ProviderStatus = 'PENDING' | 'SUCCESS' | 'FAILED';
+
+export interface ProviderStatusResult {
+  status: ProviderStatus;
+  // Set when the provider couldn't be asked, so PENDING says nothing about the payment
+  unreachable?: boolean;
+  // Set when the provider has no record of the request, e.g. because it never arrived
+  notFound?: boolean;
+  financialTransactionId?: string;
+  reason?: string;
+  // The provider's own answer, kept on the payment for support
+  raw?: Record<string, any>;
+}
+
+export interface ProviderRequestResult {
+  success: boolean;
+  providerReference: string;
+  // Set when the request may have reached the provider without an answer coming back, so it
+  // has to be looked up later rather than treated as failed
+  outcomeUnknown?: boolean;
+  error?: string;
+}
+
+export interface PaymentRequest {
+  amountGhs: string;
+  customerPhone: string;
+  externalId: string;
+  description: string;
+}
+
+export interface RefundRequest {
+  // Our reference for the refund, stored before the provider is asked so it can always be looked up
+  referenceId: string;
+  amountGhs: string;
+  // Reference of the payment being refunded
+  providerReference: string;
+  externalId: string;
+  note: string;
+}
+
+// A callback the provider has verified came from them
+export interface ProviderCallback {
+  providerReference?: string;
+  externalId?: string;
+  status: ProviderStatus;
+  amount?: string;
+  currency?: string;
+  payload: Record<string, any>;
+}
+
+/**
+ * A payment gateway customers can pay an order with. Payments, refunds and their callbacks are
+ * handled the same way for every provider; an implementation only talks to its own API.
+ */
+export interface PaymentProvider {
+  // Stored in payments.provider and orders.paymentProvider
+  readonly id: string;
+  readonly name: string;
+  // Where refunded money ends up, as the customer knows it, e.g. "MTN MoMo wallet"
+  readonly walletName: string;
+  // Route the provider sends its payment callbacks to
+  readonly webhookPath: string;
+  // Request headers worth keeping with a rejected callback
+  readonly callbackHeaders: string[];
+  getCurrency(): string;
+  // How long a payment or refund may stay pending before we stop waiting for it
+  getPaymentTimeoutMinutes(): number;
+  initiate(request: PaymentRequest): Promise<ProviderRequestResult>;
+  checkStatus(providerReference: string): Promise<ProviderStatusResult>;
+  // Throws CallbackRejectedError when the request can't be trusted
+  verifyWebhook(req: Request): Promise<ProviderCallback>;
+  refund(request: RefundRequest): Promise<ProviderRequestResult>;
+  checkRefundStatus(providerReference: string): Promise<ProviderStatusResult>;
+}
+
+export const DEFAULT_PAYMENT_PROVIDER = 'mtn_momo';
+
+class PaymentProviderRegistry {
+  private providers = new Map<string, PaymentProvider>();
+
+  register(provider: PaymentProvider) {
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): PaymentProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  require(id: string): PaymentProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Payment provider ${id} is not available`);
+    }
+    return provider;
+  }
+
+  all(): PaymentProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  getDefault(): PaymentProvider {
+    return this.require(DEFAULT_PAYMENT_PROVIDER);
+  }
+
+  // The provider the customer chose when placing the order
+  forOrder(order: Order): PaymentProvider {
+    return this.require(order.paymentProvider);
+  }
+}
+
+export const paymentProviders = new PaymentProviderRegistry();
+paymentProviders.register(mtnMomoProvider);
@@ -1,6 +1,9 @@
 import cron from 'node-cron';
 import { storage } from '../storage';
-import { mtnMomoService } from './mtn-momo';
+import { paymentEventService } from './payment-events';
+import { orderStatusService } from './order-status';
+import { refundService } from './refunds';
+import { paymentProviders } from './payment-provider';
 
 class ReconciliationService {
   private isRunning = false;
@@ -34,83 +37,80 @@ class ReconciliationService {
     
     try {
       console.log('Starting payment reconciliation...');
-      
-      const pendingPayments = await storage.getPendingPayments();
-      const timeoutMinutes = mtnMomoService.getPaymentTimeoutMinutes();
-      const timeoutMs = timeoutMinutes * 60 * 1000;
-      
+
       let processed = 0;
       let updated = 0;
       let timedOut = 0;
 
-      for (const payment of pendingPayments) {
-        processed++;
-        
-        try {
-          // Check if payment has timed out
-          const paymentAge = Date.now() - payment.createdAt.getTime();
-          if (paymentAge > timeoutMs) {
-            await storage.updatePayment(payment.id, {
-              status: 'TIMEOUT'
-            });
-            
-            // Update order status
-            await storage.updateOrder(payment.orderId, {
-              status: 'CANCELLED'
-            });
-            
-            timedOut++;
-            console.log(`Payment ${payment.id} timed out after ${Math.round(paymentAge / 60000)} minutes`);
-            continue;
-          }
+      // Each provider is asked only about the payments made with it
+      for (const provider of paymentProviders.all()) {
+        const pendingPayments = await storage.getPendingPayments(provider.id);
+        const timeoutMs = provider.getPaymentTimeoutMinutes() * 60 * 1000;
+
+        for (const payment of pendingPayments) {
+          processed++;
+
+          try {
+            // Check if payment has timed out. One whose callback reported success is only
+            // settled by what the provider says, however long it takes to reach them.
+            const paymentAge = Date.now() - payment.createdAt.getTime();
+            const timedOutEarlier = payment.status === 'TIMEOUT';
+            if (!timedOutEarlier && paymentAge > timeoutMs && !payment.verificationQueuedAt) {
+              await paymentEventService.recordStatus(payment, 'TIMEOUT', 'reconciliation');
+
+              timedOut++;
+              console.log(`Payment ${payment.id} timed out after ${Math.round(paymentAge / 60000)} minutes`);
+              continue;
+            }
 
-          // Check payment status with MTN
-          if (payment.providerReference) {
-            const statusResult = await mtnMomoService.checkPaymentStatus(payment.providerReference);
-            
-            if (statusResult.status === 'SUCCESSFUL') {
-              await storage.updatePayment(payment.id, {
-                status: 'SUCCESS',
-                webhookPayload: { 
-                  reconciliation: true,
-                  mtnStatus: statusResult,
-                  timestamp: new Date().toISOString()
-                }
-              });
-
-              // Update order status
-              await storage.updateOrder(payment.orderId, {
-                status: 'PAID'
-              });
-
-              updated++;
-              console.log(`Payment ${payment.id} reconciled as successful`);
-              
-            } else if (statusResult.status === 'FAILED') {
-              await storage.updatePayment(payment.id, {
-                status: 'FAILED',
-                webhookPayload: { 
-                  reconciliation: true,
-                  mtnStatus: statusResult,
-                  timestamp: new Date().toISOString()
-                }
-              });
-
-              // Update order status
-              await storage.updateOrder(payment.orderId, {
-                status: 'CANCELLED'
-              });
-
-              updated++;
-              console.log(`Payment ${payment.id} reconciled as failed: ${statusResult.reason}`);
+            if (payment.providerReference) {
+              const statusResult = await provider.checkStatus(payment.providerReference);
+
+              // A payment that had timed out only changes if it went through after all
+              if (timedOutEarlier && statusResult.status === 'FAILED') {
+                await orderStatusService.transitionPayment(payment, 'TIMEOUT', { verificationQueuedAt: null });
+                continue;
+              }
+
+              // If status is still PENDING, or the provider couldn't be reached, leave it for next reconciliation
+              if (statusResult.status !== 'PENDING') {
+                await paymentEventService.recordStatus(payment, statusResult.status, 'reconciliation', {
+                  financialTransactionId: statusResult.financialTransactionId ?? null,
+                  webhookPayload: {
+                    reconciliation: true,
+                    providerStatus: statusResult.raw ?? statusResult,
+                    timestamp: new Date().toISOString()
+                  }
+                });
+
+                updated++;
+                console.log(statusResult.status === 'SUCCESS'
+                  ? `Payment ${payment.id} reconciled as successful`
+                  : `Payment ${payment.id} reconciled as failed: ${statusResult.reason}`);
+              }
             }
-            // If status is still PENDING, leave it as is for next reconciliation
+          } catch (error) {
+            console.error(`Error reconciling payment ${payment.id}:`, error);
           }
-        } catch (error) {
-          console.error(`Error reconciling payment ${payment.id}:`, error);
         }
       }
 
+      const refundsSettled = await refundService.reconcilePending();
+      if (refundsSettled > 0) {
+        console.log(`Settled ${refundsSettled} refund(s)`);
+      }
+
+      // Housekeeping: drop bot checkouts nobody came back to
+      const expiredSessions = await storage.deleteExpiredCheckoutSessions();
+      if (expiredSessions > 0) {
+        console.log(`Removed ${expiredSessions} expired checkout session(s)`);
+      }
+
+      const expiredNonces = await storage.deleteExpiredWebhookNonces();
+      if (expiredNonces > 0) {
+        console.log(`Removed ${expiredNonces} expired webhook nonce(s)`);
+      }
+
       const duration = Date.now() - startTime;
       console.log(`Reconciliation completed in ${duration}ms: ${processed} processed, ${updated} updated, ${timedOut} timed out`);
       
@@ -0,0 +1,218 @@
+import { randomUUID } from 'crypto';
+import { storage } from '../storage';
+import { orderStatusService } from './order-status';
+import { paymentProviders } from './payment-provider';
+import { telegramService } from './telegram';
+import { canTransitionOrder, type OrderStatusActor } from '@shared/order-status';
+import type { AdminUser, InsertRefund, Order, OrderRefunds, Payment, Refund } from '@shared/schema';
+
+type RefundStatus = Refund['status'];
+
+export class RefundError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+const AMOUNT_PATTERN = /^\d+(\.\d{1,2})?$/;
+
+// Money is summed in pesewas so decimal strings from Postgres don't pick up float drift
+function toPesewas(amount: string | number): number {
+  return Math.round(parseFloat(String(amount)) * 100);
+}
+
+function fromPesewas(pesewas: number): string {
+  return (pesewas / 100).toFixed(2);
+}
+
+/**
+ * Sends money back for paid orders through the provider the order was paid with. A refund
+ * starts PENDING and is settled by ReconciliationService polling the provider; once refunds
+ * cover the whole payment the order moves to REFUNDED. The customer hears about the outcome
+ * on Telegram.
+ */
+class RefundService {
+  private async getPaidPayment(orderId: string): Promise<Payment | undefined> {
+    const payments = await storage.getPaymentsByOrderId(orderId);
+    return payments.find(payment => payment.status === 'SUCCESS');
+  }
+
+  async getOrderRefunds(orderId: string): Promise<OrderRefunds> {
+    const refunds = await storage.getRefundsByOrderId(orderId);
+    const payment = await this.getPaidPayment(orderId);
+    if (!payment) {
+      return { refunds, paidGhs: '0.00', refundedGhs: '0.00', pendingGhs: '0.00', refundableGhs: '0.00' };
+    }
+
+    const { refundedGhs, pendingGhs } = await storage.getRefundTotals(payment.id);
+    const refundable = toPesewas(payment.amountGhs) - toPesewas(refundedGhs) - toPesewas(pendingGhs);
+    return {
+      refunds,
+      paidGhs: payment.amountGhs,
+      refundedGhs,
+      pendingGhs,
+      refundableGhs: fromPesewas(Math.max(refundable, 0)),
+    };
+  }
+
+  async issueRefund(order: Order, amountGhs: string, reason: string | null, admin: AdminUser): Promise<Refund> {
+    if (!AMOUNT_PATTERN.test(amountGhs) || toPesewas(amountGhs) <= 0) {
+      throw new RefundError('Enter an amount such as 10 or 12.50');
+    }
+    if (!canTransitionOrder(order.status, 'REFUNDED')) {
+      throw new RefundError(`${order.status} orders can't be refunded`, 409);
+    }
+    const payment = await this.getPaidPayment(order.id);
+    if (!payment?.providerReference) {
+      throw new RefundError('This order has no successful payment to refund', 409);
+    }
+    const provider = paymentProviders.get(payment.provider);
+    if (!provider) {
+      throw new RefundError(`Refunds through ${payment.provider} are not available`, 409);
+    }
+
+    // Stored before the provider is asked, so a refund whose answer is lost can still be looked up
+    const referenceId = randomUUID();
+    const refund = await storage.createRefund({
+      orderId: order.id,
+      paymentId: payment.id,
+      amountGhs: fromPesewas(toPesewas(amountGhs)),
+      reason,
+      externalId: `refund_${order.orderNumber}_${Date.now()}`,
+      providerReference: referenceId,
+      requestedById: admin.id
+    });
+    if (!refund) {
+      throw new RefundError('The refund is more than is left to refund on this payment', 409);
+    }
+
+    const result = await provider.refund({
+      referenceId,
+      amountGhs: refund.amountGhs,
+      providerReference: payment.providerReference,
+      externalId: refund.externalId,
+      note: `Refund for order ${order.orderNumber}`
+    });
+    // The provider may have taken the refund anyway; it stays PENDING, holding its amount back,
+    // until reconciliation finds out what happened to it
+    if (!result.success && result.outcomeUnknown) {
+      console.warn(`Refund ${refund.id} outcome unknown, leaving it to reconciliation: ${result.error}`);
+      return refund;
+    }
+    if (!result.success) {
+      return await this.recordStatus(refund, 'FAILED', 'admin', {
+        providerReference: result.providerReference || referenceId,
+        failureReason: result.error || 'Refund request failed'
+      });
+    }
+
+    return (await storage.transitionRefund(refund.id, 'PENDING', { providerReference: result.providerReference })) ?? refund;
+  }
+
+  // Settles a pending refund; a refund that was settled in the meantime is returned as it is
+  async recordStatus(
+    refund: Refund,
+    status: Exclude<RefundStatus, 'PENDING'>,
+    actor: OrderStatusActor,
+    details: Pick<InsertRefund, 'providerReference' | 'financialTransactionId' | 'failureReason'> = {}
+  ): Promise<Refund> {
+    const updated = await storage.transitionRefund(refund.id, 'PENDING', { ...details, status, completedAt: new Date() });
+    if (!updated) {
+      return (await storage.getRefund(refund.id)) ?? refund;
+    }
+
+    if (status === 'SUCCESS') {
+      await this.refundOrderIfSettled(updated, actor);
+    }
+    await this.notifyCustomer(updated);
+
+    console.log(`Refund ${refund.id} for order ${refund.orderId} updated to ${status}`);
+    return updated;
+  }
+
+  private async refundOrderIfSettled(refund: Refund, actor: OrderStatusActor) {
+    const payment = await storage.getPayment(refund.paymentId);
+    const order = await storage.getOrder(refund.orderId);
+    if (!payment || !order || !canTransitionOrder(order.status, 'REFUNDED')) {
+      return;
+    }
+
+    const { refundedGhs } = await storage.getRefundTotals(payment.id);
+    if (toPesewas(refundedGhs) >= toPesewas(payment.amountGhs)) {
+      await orderStatusService.transitionOrder(order, 'REFUNDED', actor, { reason: 'Payment fully refunded', system: true });
+    }
+  }
+
+  // Never throws; the refund stands whether or not the customer could be told
+  private async notifyCustomer(refund: Refund) {
+    try {
+      const order = await storage.getOrder(refund.orderId);
+      const user = order ? await storage.getUser(order.userId) : undefined;
+      if (!order || !user?.telegramId) {
+        return;
+      }
+
+      const payment = await storage.getPayment(refund.paymentId);
+      const provider = payment && paymentProviders.get(payment.provider);
+      const destination = provider ? `your ${provider.walletName}` : 'you';
+      const text = refund.status === 'SUCCESS'
+        ? `💸 Your refund of ₵${refund.amountGhs} for order #${order.orderNumber} has been sent to ${destination}.`
+        : `⚠️ We couldn't complete your refund of ₵${refund.amountGhs} for order #${order.orderNumber}. Our team will follow up with you.`;
+      await telegramService.sendMessage(parseInt(user.telegramId), text);
+    } catch (error) {
+      console.error('Error notifying customer of refund:', error);
+    }
+  }
+
+  // Called from ReconciliationService; returns how many refunds were settled
+  async reconcilePending(): Promise<number> {
+    const pendingRefunds = await storage.getPendingRefunds();
+    let settled = 0;
+
+    for (const refund of pendingRefunds) {
+      try {
+        // Refunds are stored with their reference before the provider is asked
+        if (!refund.providerReference) {
+          continue;
+        }
+
+        const payment = await storage.getPayment(refund.paymentId);
+        const provider = payment && paymentProviders.get(payment.provider);
+        if (!provider) {
+          continue;
+        }
+
+        const result = await provider.checkRefundStatus(refund.providerReference);
+
+        // Only once the provider confirms it never got the refund, e.g. because the server stopped
+        // before sending it, and it's too old to still be on its way, may the amount be refunded again
+        if (result.notFound) {
+          const timeoutMs = provider.getPaymentTimeoutMinutes() * 60 * 1000;
+          if (Date.now() - refund.createdAt.getTime() > timeoutMs) {
+            await this.recordStatus(refund, 'FAILED', 'reconciliation', { failureReason: 'Refund never reached the provider' });
+            settled++;
+          }
+          continue;
+        }
+
+        // Still processing, or the provider couldn't be reached; try again next run
+        if (result.status === 'PENDING') {
+          continue;
+        }
+
+        await this.recordStatus(refund, result.status, 'reconciliation', {
+          financialTransactionId: result.financialTransactionId ?? null,
+          failureReason: result.status === 'FAILED' ? result.reason ?? 'Refund failed' : null
+        });
+        settled++;
+      } catch (error) {
+        console.error(`Error reconciling refund ${refund.id}:`, error);
+      }
+    }
+
+    return settled;
+  }
+}
+
+export const refundService = new RefundService();
@@ -0,0 +1,78 @@
+import type { Request } from 'express';
+import { createHash } from 'crypto';
+import { storage } from '../storage';
+import type { ActiveSession, StoredSession } from '@shared/schema';
+
+// Writing the session row on every request is wasteful; last-seen only needs to be roughly right
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+class SessionService {
+  // Session ids double as bearer credentials, so the dashboard only ever sees a hash of them
+  publicId(sid: string): string {
+    return createHash('sha256').update(sid).digest('hex').slice(0, 32);
+  }
+
+  // Called when a user signs in, on the freshly regenerated session
+  start(req: Request) {
+    const now = Date.now();
+    req.session.meta = {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      createdAt: now,
+      lastSeenAt: now
+    };
+  }
+
+  touch(req: Request) {
+    const meta = req.session.meta;
+    if (!meta) {
+      this.start(req);
+      return;
+    }
+    const now = Date.now();
+    if (now - meta.lastSeenAt >= TOUCH_INTERVAL_MS) {
+      meta.lastSeenAt = now;
+      meta.ipAddress = req.ip;
+    }
+  }
+
+  async list(adminUserId: string, currentSid: string): Promise<ActiveSession[]> {
+    const stored = await storage.getAdminUserSessions(adminUserId);
+    return stored
+      .map(session => this.toActiveSession(session, currentSid))
+      .sort((a, b) => Number(b.current) - Number(a.current) || (b.lastSeenAt ?? '').localeCompare(a.lastSeenAt ?? ''));
+  }
+
+  // Looks the session up among the user's own, so one user can never end another user's session
+  async revoke(adminUserId: string, id: string): Promise<StoredSession | undefined> {
+    const stored = await storage.getAdminUserSessions(adminUserId);
+    const session = stored.find(candidate => this.publicId(candidate.sid) === id);
+    if (!session || !(await storage.deleteAdminUserSession(adminUserId, session.sid))) {
+      return undefined;
+    }
+    return session;
+  }
+
+  async revokeOthers(adminUserId: string, currentSid: string): Promise<number> {
+    return storage.deleteAdminUserSessions(adminUserId, currentSid);
+  }
+
+  async revokeAll(adminUserId: string): Promise<number> {
+    return storage.deleteAdminUserSessions(adminUserId);
+  }
+
+  private toActiveSession(session: StoredSession, currentSid: string): ActiveSession {
+    const meta = session.sess.meta;
+    return {
+      id: this.publicId(session.sid),
+      ipAddress: meta?.ipAddress ?? null,
+      userAgent: meta?.userAgent ?? null,
+      createdAt: meta ? new Date(meta.createdAt).toISOString() : null,
+      lastSeenAt: meta ? new Date(meta.lastSeenAt).toISOString() : null,
+      expiresAt: session.expire.toISOString(),
+      current: session.sid === currentSid
+    };
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,142 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { getSettingDefinition } from '@shared/settings';
+
+// Base64 of 32 random bytes, e.g. `openssl rand -base64 32`
+const MASTER_KEY_ENV = 'SETTINGS_ENCRYPTION_KEY';
+// Comma-separated keys that are still accepted for decryption while rotating
+const PREVIOUS_MASTER_KEYS_ENV = 'SETTINGS_ENCRYPTION_KEY_PREVIOUS';
+const DEVELOPMENT_MASTER_KEY = createHash('sha256').update('ecombot-development-settings-key').digest();
+
+const PREFIX = 'enc:v1';
+const MASK = '••••••••';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseMasterKey(encoded: string): MasterKey {
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${MASTER_KEY_ENV} must be 32 bytes, base64 encoded`);
+  }
+  return { id: keyId(key), key };
+}
+
+function keyId(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 8);
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * Envelope encryption for system settings: each value gets its own random data key, and only
+ * that data key is encrypted with the master key from the environment. Stored format:
+ * `enc:v1:<master key id>:<wrapped data key>:<ciphertext>`.
+ */
+class SettingEncryptionService {
+  private masterKeys: MasterKey[] | null = null;
+
+  // Settings marked secret in the registry are encrypted whenever they are written
+  isSecretKey(key: string): boolean {
+    return !!getSettingDefinition(key)?.secret;
+  }
+
+  encrypt(plaintext: string): string {
+    const master = this.currentKey();
+    const dataKey = randomBytes(32);
+    return [PREFIX, master.id, seal(master.key, dataKey), seal(dataKey, Buffer.from(plaintext, 'utf8'))].join(':');
+  }
+
+  decrypt(stored: string): string {
+    const { dataKey, sealedValue } = this.unwrap(stored);
+    return open(dataKey, sealedValue).toString('utf8');
+  }
+
+  // Rotation only re-wraps the data key; the value itself stays encrypted under it
+  rewrap(stored: string): string {
+    const { dataKey, sealedValue } = this.unwrap(stored);
+    const master = this.currentKey();
+    return [PREFIX, master.id, seal(master.key, dataKey), sealedValue].join(':');
+  }
+
+  needsRewrap(stored: string): boolean {
+    return !stored.startsWith(`${PREFIX}:${this.currentKey().id}:`);
+  }
+
+  // Enough to recognise which credential is configured without revealing it
+  mask(value: string | null): string | null {
+    if (!value) {
+      return value;
+    }
+    return value.length > 12 ? `${MASK}${value.slice(-4)}` : MASK;
+  }
+
+  isMask(value: unknown): boolean {
+    return typeof value === 'string' && value.startsWith(MASK);
+  }
+
+  // For tests and the rotation command, which change the environment at runtime
+  reloadKeys() {
+    this.masterKeys = null;
+  }
+
+  private unwrap(stored: string): { dataKey: Buffer; sealedValue: string } {
+    const [prefix, version, id, wrappedKey, sealedValue] = stored.split(':');
+    if (`${prefix}:${version}` !== PREFIX || !wrappedKey || !sealedValue) {
+      throw new Error('Setting value is not in the encrypted format');
+    }
+    const master = this.keys().find(candidate => candidate.id === id);
+    if (!master) {
+      throw new Error(`No encryption key with id ${id} is configured; set ${MASTER_KEY_ENV} or ${PREVIOUS_MASTER_KEYS_ENV}`);
+    }
+    return { dataKey: open(master.key, wrappedKey), sealedValue };
+  }
+
+  private currentKey(): MasterKey {
+    return this.keys()[0];
+  }
+
+  private keys(): MasterKey[] {
+    if (this.masterKeys) {
+      return this.masterKeys;
+    }
+
+    const current = process.env[MASTER_KEY_ENV];
+    if (!current && process.env.NODE_ENV === 'production') {
+      throw new Error(`${MASTER_KEY_ENV} must be set to store secret settings`);
+    }
+    if (!current) {
+      console.warn(`⚠️  ${MASTER_KEY_ENV} is not set; secret settings are encrypted with a development key`);
+    }
+
+    const previous = (process.env[PREVIOUS_MASTER_KEYS_ENV] ?? '')
+      .split(',')
+      .filter(encoded => encoded.trim())
+      .map(parseMasterKey);
+    const development = { id: keyId(DEVELOPMENT_MASTER_KEY), key: DEVELOPMENT_MASTER_KEY };
+    this.masterKeys = [current ? parseMasterKey(current) : development, ...previous];
+    // Lets a development database be rotated onto a real key without listing the built-in one
+    if (current && process.env.NODE_ENV !== 'production') {
+      this.masterKeys.push(development);
+    }
+    return this.masterKeys;
+  }
+}
+
+export const settingEncryption = new SettingEncryptionService();
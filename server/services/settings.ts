@@ -0,0 +1,72 @@
+import { storage } from '../storage';
+import { mtnMomoService } from './mtn-momo';
+import { storeProfileService } from './store-profile';
+import { telegramService } from './telegram';
+import { twoFactorService } from './two-factor';
+import { WebhookHelper } from './webhook-helper';
+import { getSettingDefinition, validateSetting, type SettingRefresh } from '@shared/settings';
+import type { SystemSetting } from '@shared/schema';
+
+export class SettingValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingValidationError';
+  }
+}
+
+// What each service needs to do after one of its settings changes
+const REFRESH_HANDLERS: Record<SettingRefresh, (value: string | null) => Promise<void> | void> = {
+  'store-profile': () => storeProfileService.refresh(),
+  'mtn-momo': () => mtnMomoService.refreshCredentials(),
+  'two-factor': () => twoFactorService.refresh(),
+  'telegram-bot': async (token) => {
+    await telegramService.refreshBotToken();
+
+    const webhookUrl = WebhookHelper.getWebhookUrl();
+    if (!webhookUrl || !token) {
+      console.log('⚠️  Bot token saved, but no webhook URL could be determined for this environment.');
+      return;
+    }
+    const webhookSet = await telegramService.setWebhook(webhookUrl);
+    console.log(webhookSet
+      ? `✅ Telegram webhook registered at ${webhookUrl}`
+      : '❌ Failed to register webhook. Please check your bot token and URL accessibility.');
+  },
+};
+
+class SettingsService {
+  // Validates against the registry, saves, and lets the owning service pick up the new value
+  async save(key: string, value: unknown): Promise<SystemSetting> {
+    const definition = getSettingDefinition(key);
+    if (!definition) {
+      throw new SettingValidationError(`Unknown setting: ${key}`);
+    }
+    const result = validateSetting(definition, value);
+    if ('error' in result) {
+      throw new SettingValidationError(`${definition.label}: ${result.error}`);
+    }
+
+    const setting = await storage.setSystemSetting({
+      key,
+      value: result.value,
+      description: definition.description
+    });
+    await this.refresh(key, setting.value);
+    return setting;
+  }
+
+  async refresh(key: string, value: string | null) {
+    const refresh = getSettingDefinition(key)?.refresh;
+    if (!refresh) {
+      return;
+    }
+    try {
+      await REFRESH_HANDLERS[refresh](value);
+    } catch (error) {
+      // The setting is saved either way; the service retries on its next use or restart
+      console.error(`Error refreshing ${refresh} after ${key} changed:`, error);
+    }
+  }
+}
+
+export const settingsService = new SettingsService();
@@ -0,0 +1,72 @@
+import { storage } from '../storage';
+import { SETTINGS_BY_KEY } from '@shared/settings';
+
+export interface StoreProfile {
+  name: string;
+  supportEmail: string;
+  supportPhone: string;
+  businessHours: string;
+  welcomeText: string;
+  logoUrl: string;
+}
+
+// System setting key for each profile field
+export const STORE_PROFILE_SETTINGS: Record<keyof StoreProfile, string> = {
+  name: 'STORE_NAME',
+  supportEmail: 'STORE_SUPPORT_EMAIL',
+  supportPhone: 'STORE_SUPPORT_PHONE',
+  businessHours: 'STORE_BUSINESS_HOURS',
+  welcomeText: 'STORE_WELCOME_TEXT',
+  logoUrl: 'STORE_LOGO_URL',
+};
+
+// Defaults live in the settings registry; the welcome text is a bot template, so it can greet the customer by name
+const defaultFor = (field: keyof StoreProfile) => SETTINGS_BY_KEY[STORE_PROFILE_SETTINGS[field]].default ?? '';
+const DEFAULT_PROFILE: StoreProfile = {
+  name: defaultFor('name'),
+  supportEmail: defaultFor('supportEmail'),
+  supportPhone: defaultFor('supportPhone'),
+  businessHours: defaultFor('businessHours'),
+  welcomeText: defaultFor('welcomeText'),
+  logoUrl: defaultFor('logoUrl'),
+};
+
+class StoreProfileService {
+  private profile: StoreProfile | null = null;
+
+  async getProfile(): Promise<StoreProfile> {
+    if (this.profile) {
+      return this.profile;
+    }
+
+    try {
+      this.profile = await this.loadProfile();
+      return this.profile;
+    } catch (error) {
+      // Not cached, so the next message retries the database
+      console.warn('Could not load store profile from database, using defaults:', error);
+      return { ...DEFAULT_PROFILE };
+    }
+  }
+
+  // Called whenever a STORE_* setting is saved from the dashboard
+  refresh() {
+    this.profile = null;
+  }
+
+  private async loadProfile(): Promise<StoreProfile> {
+    const settings = await storage.getAllSystemSettings();
+    const profile = { ...DEFAULT_PROFILE };
+
+    for (const field of Object.keys(STORE_PROFILE_SETTINGS) as (keyof StoreProfile)[]) {
+      const value = settings.find(s => s.key === STORE_PROFILE_SETTINGS[field])?.value?.trim();
+      if (value) {
+        profile[field] = value;
+      }
+    }
+
+    return profile;
+  }
+}
+
+export const storeProfileService = new StoreProfileService();
@@ -0,0 +1,48 @@
+import { storage } from '../storage';
+import { telegramService } from './telegram';
+import type { AdminUser, SupportMessage, SupportTicket } from '@shared/schema';
+
+// Staff side of the live support chat; the customer side lives in TelegramService
+class SupportService {
+  async reply(ticket: SupportTicket, staff: AdminUser, body: string): Promise<SupportMessage> {
+    const message = await storage.addSupportMessage({
+      ticketId: ticket.id,
+      sender: 'STAFF',
+      adminUserId: staff.id,
+      body,
+    });
+
+    // Plain text on purpose: staff replies are free-form and would break Markdown parsing
+    try {
+      const result = await telegramService.sendMessage(
+        parseInt(ticket.chatId),
+        `💬 ${staff.name} from support:\n\n${body}`
+      );
+      if (result?.ok) {
+        return (await storage.markSupportMessageDelivered(message.id)) ?? message;
+      }
+    } catch (error) {
+      console.error('Error delivering support reply:', error);
+    }
+
+    // Kept undelivered so the inbox can flag it
+    return message;
+  }
+
+  async close(ticket: SupportTicket): Promise<SupportTicket | undefined> {
+    const closed = await storage.setSupportTicketStatus(ticket.id, 'CLOSED');
+
+    try {
+      await telegramService.sendMessage(
+        parseInt(ticket.chatId),
+        '✅ Your support conversation has been closed. Use /support anytime if you need more help.'
+      );
+    } catch (error) {
+      console.error('Error notifying customer of closed ticket:', error);
+    }
+
+    return closed;
+  }
+}
+
+export const supportService = new SupportService();
@@ -1,5 +1,10 @@
 import { Request, Response } from 'express';
-import { storage } from '../storage';
+import { storage, InsufficientStockError, CouponUsageLimitError } from '../storage';
+import { checkoutService } from './checkout';
+import { storeProfileService } from './store-profile';
+import { orderStatusService } from './order-status';
+import { renderBotTemplate, type BotTemplateContext } from '@shared/bot-template';
+import type { CartItemWithProduct, CheckoutSession as StoredCheckoutSession, SupportTicket, User } from '@shared/schema';
 
 interface TelegramUser {
   id: number;
@@ -26,16 +31,53 @@ interface TelegramUpdate {
 }
 
 interface CheckoutSession {
-  step: 'address' | 'phone' | 'complete';
+  step: 'address' | 'phone' | 'coupon' | 'confirm';
   deliveryAddress?: string;
   phoneNumber?: string;
+  couponCode?: string;
   userId: string;
+  lastActiveAt?: Date;
+}
+
+// How long an abandoned checkout can be resumed, and how long the customer must be
+// away before we ask whether to continue instead of treating their text as input
+const CHECKOUT_SESSION_TTL_MINUTES = parseInt(process.env.CHECKOUT_SESSION_TTL_MINUTES || '60');
+const CHECKOUT_RESUME_PROMPT_MINUTES = 5;
+
+// Reply keyboard shown by /start; these still navigate while a support chat is open
+const MAIN_KEYBOARD = [
+  [{ text: '📱 Browse Products' }, { text: '🛒 My Cart' }],
+  [{ text: '📦 My Orders' }, { text: '🔍 Search' }],
+  [{ text: '💬 Support' }, { text: '👤 Profile' }]
+];
+const MAIN_KEYBOARD_LABELS = MAIN_KEYBOARD.flat().map(button => button.text);
+
+// Commands handled by the bot itself; custom commands may not shadow these
+export const BUILT_IN_BOT_COMMANDS = [
+  { command: 'start', description: 'Start shopping' },
+  { command: 'menu', description: 'Show the main menu' },
+  { command: 'browse', description: 'Browse product categories' },
+  { command: 'cart', description: 'View your cart' },
+  { command: 'orders', description: 'Track your orders' },
+  { command: 'support', description: 'Contact customer support' },
+];
+
+// Telegram command names are 1-32 lowercase letters, digits or underscores
+export const BOT_COMMAND_PATTERN = /^\/[a-z0-9_]{1,32}$/;
+
+// The command a message starts with: "/help@MyShopBot extra words" -> "/help"
+function commandToken(text: string): string {
+  return text.split(/\s+/)[0].split('@')[0].toLowerCase();
+}
+
+export function normalizeBotCommand(command: string): string {
+  const trimmed = command.trim().toLowerCase();
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
 }
 
 class TelegramService {
   private botToken: string = '';
   private webhookPath: string;
-  private checkoutSessions: Map<number, CheckoutSession> = new Map();
 
   constructor() {
     this.initializeBotToken();
@@ -163,23 +205,82 @@ class TelegramService {
       });
     }
 
-    if (text.startsWith('/start')) {
+    // Commands are matched on the whole command, so a custom /starter isn't taken for /start
+    const command = text.startsWith('/') ? commandToken(text) : '';
+    if (command === '/start') {
       await this.handleStartCommand(chatId, dbUser);
-    } else if (text.startsWith('/menu')) {
+      if (await this.getCheckoutSession(chatId)) {
+        await this.promptResumeCheckout(chatId);
+      }
+    } else if (command === '/menu') {
       await this.showMainMenu(chatId);
-    } else if (text.startsWith('/browse')) {
+    } else if (command === '/browse') {
       await this.showCategories(chatId);
-    } else if (text.startsWith('/cart')) {
+    } else if (command === '/cart') {
       await this.showCart(chatId, dbUser.id);
-    } else if (text.startsWith('/orders')) {
+    } else if (command === '/orders') {
       await this.showOrders(chatId, dbUser.id);
-    } else if (text.startsWith('/support')) {
-      await this.showSupport(chatId);
+    } else if (command === '/support') {
+      await this.showSupport(chatId, dbUser.id);
+    } else if (command && await this.handleCustomCommand(chatId, command, dbUser)) {
+      return;
     } else {
       await this.handleTextMessage(chatId, text, dbUser);
     }
   }
 
+  private async handleCustomCommand(chatId: number, command: string, user: User): Promise<boolean> {
+    const botCommand = await storage.getBotCommandByCommand(command);
+    if (!botCommand || !botCommand.isActive) {
+      return false;
+    }
+
+    const response = renderBotTemplate(botCommand.response, await this.buildTemplateContext(user));
+    const buttons = (botCommand.buttons || []).map(button => ([
+      button.url
+        ? { text: button.text, url: button.url }
+        : { text: button.text, callback_data: button.action }
+    ]));
+    const options = buttons.length > 0 ? { reply_markup: { inline_keyboard: buttons } } : {};
+
+    // Photo captions are capped at 1024 characters, so long answers go in a follow-up message
+    if (botCommand.photoUrl && response.length <= 1024) {
+      await this.sendPhoto(chatId, botCommand.photoUrl, response, options);
+    } else if (botCommand.photoUrl) {
+      await this.sendPhoto(chatId, botCommand.photoUrl);
+      await this.sendMessage(chatId, response, options);
+    } else {
+      await this.sendMessage(chatId, response, options);
+    }
+    return true;
+  }
+
+  private async buildTemplateContext(user: User): Promise<BotTemplateContext> {
+    const [orders, profile] = await Promise.all([
+      storage.getOrdersByUserId(user.id),
+      storeProfileService.getProfile()
+    ]);
+    const lastOrder = orders[0];
+
+    return {
+      firstName: user.firstName,
+      lastName: user.lastName,
+      username: user.username,
+      lastOrder: lastOrder ? {
+        orderNumber: lastOrder.orderNumber,
+        status: lastOrder.status,
+        totalGhs: lastOrder.totalGhs,
+        createdAt: lastOrder.createdAt.toLocaleDateString()
+      } : null,
+      store: {
+        name: profile.name,
+        supportEmail: profile.supportEmail,
+        supportPhone: profile.supportPhone,
+        businessHours: profile.businessHours
+      }
+    };
+  }
+
   private async handleCallbackQuery(callbackQuery: any) {
     const chatId = callbackQuery.message.chat.id;
     const data = callbackQuery.data;
@@ -193,6 +294,8 @@ class TelegramService {
       body: JSON.stringify({ callback_query_id: callbackQuery.id }),
     });
 
+    const dbUser = await storage.getUserByTelegramId(callbackQuery.from.id.toString());
+
     if (data.startsWith('category_')) {
       const categoryId = data.replace('category_', '');
       await this.showProductsInCategory(chatId, categoryId);
@@ -201,17 +304,58 @@ class TelegramService {
       await this.showProductDetails(chatId, productId);
     } else if (data.startsWith('add_to_cart_')) {
       const productId = data.replace('add_to_cart_', '');
-      await this.addToCart(chatId, productId);
+      if (dbUser) {
+        await this.addToCart(chatId, dbUser.id, productId);
+      }
+    } else if (data === 'view_cart') {
+      if (dbUser) {
+        await this.showCart(chatId, dbUser.id);
+      }
+    } else if (data === 'cart_clear') {
+      if (dbUser) {
+        await storage.clearCart(dbUser.id);
+        await this.showCart(chatId, dbUser.id);
+      }
+    } else if (data.startsWith('cart_inc_')) {
+      if (dbUser) {
+        await this.changeCartItemQuantity(chatId, dbUser.id, data.replace('cart_inc_', ''), 1);
+      }
+    } else if (data.startsWith('cart_dec_')) {
+      if (dbUser) {
+        await this.changeCartItemQuantity(chatId, dbUser.id, data.replace('cart_dec_', ''), -1);
+      }
+    } else if (data.startsWith('cart_remove_')) {
+      if (dbUser) {
+        await this.removeCartItem(chatId, dbUser.id, data.replace('cart_remove_', ''));
+      }
+    } else if (data === 'checkout_confirm') {
+      if (dbUser) {
+        await this.confirmCheckout(chatId, dbUser);
+      }
+    } else if (data === 'checkout_resume') {
+      await this.resumeCheckout(chatId);
+    } else if (data === 'checkout_cancel') {
+      await this.cancelCheckout(chatId);
+    } else if (data === 'checkout_coupon') {
+      await this.promptForCoupon(chatId);
+    } else if (data === 'checkout_coupon_skip' || data === 'checkout_coupon_remove') {
+      await this.setCheckoutCoupon(chatId, undefined);
     } else if (data.startsWith('checkout')) {
-      await this.startCheckout(chatId, callbackQuery.from.id.toString());
+      await this.startCheckout(chatId, dbUser?.id);
     } else if (data === 'browse_categories') {
       await this.showCategories(chatId);
     } else if (data === 'main_menu') {
-      // Get user from database
-      const dbUser = await storage.getUserByTelegramId(callbackQuery.from.id.toString());
       if (dbUser) {
         await this.handleStartCommand(chatId, dbUser);
       }
+    } else if (data === 'support_chat') {
+      if (dbUser) {
+        await this.startSupportChat(chatId, dbUser.id);
+      }
+    } else if (data === 'support_end') {
+      if (dbUser) {
+        await this.endSupportChat(chatId, dbUser.id);
+      }
     } else if (data.startsWith('order_status_')) {
       const orderId = data.replace('order_status_', '');
       await this.showOrderDetails(chatId, orderId);
@@ -219,10 +363,21 @@ class TelegramService {
   }
 
   private async handleStartCommand(chatId: number, user: any) {
+    const profile = await storeProfileService.getProfile();
+    const greeting = renderBotTemplate(profile.welcomeText, {
+      firstName: user.firstName,
+      lastName: user.lastName,
+      username: user.username
+    });
+
+    if (profile.logoUrl) {
+      await this.sendPhoto(chatId, profile.logoUrl);
+    }
+
     const welcomeMessage = `
-🛍️ *Welcome to EcomBot!*
+🛍️ *Welcome to ${profile.name}!*
 
-Hi ${user.firstName || 'there'}! I'm your personal shopping assistant. 
+${greeting}
 
 Here's what you can do:
 • 📱 Browse products by category
@@ -237,11 +392,7 @@ Let's get started! Use the menu below or type /menu anytime.
     await this.sendMessage(chatId, welcomeMessage, {
       parse_mode: 'Markdown',
       reply_markup: {
-        keyboard: [
-          [{ text: '📱 Browse Products' }, { text: '🛒 My Cart' }],
-          [{ text: '📦 My Orders' }, { text: '🔍 Search' }],
-          [{ text: '💬 Support' }, { text: '👤 Profile' }]
-        ],
+        keyboard: MAIN_KEYBOARD,
         resize_keyboard: true,
         one_time_keyboard: false
       }
@@ -371,17 +522,29 @@ ${product.tags && product.tags.length > 0 ? `🏷️ *Tags:* ${product.tags.join
     }
   }
 
-  private async addToCart(chatId: number, productId: string) {
-    // In a real implementation, you'd store cart items in a session or database
-    // For now, we'll just show a success message
+  private async addToCart(chatId: number, userId: string, productId: string) {
     const product = await storage.getProduct(productId);
     
-    if (!product || product.stock <= 0) {
+    if (!product || !product.isActive || product.stock <= 0) {
       await this.sendMessage(chatId, '❌ Sorry, this product is not available.');
       return;
     }
 
-    await this.sendMessage(chatId, `✅ *${product.title}* added to your cart!\n\n💰 Price: ₵${product.priceGhs}`, {
+    const cartItems = await storage.getCartItems(userId);
+    const inCart = cartItems.find(item => item.productId === productId)?.quantity || 0;
+    if (inCart + 1 > product.stock) {
+      await this.sendMessage(chatId, `⚠️ Only ${product.stock} of *${product.title}* in stock and you already have ${inCart} in your cart.`, {
+        parse_mode: 'Markdown',
+        reply_markup: {
+          inline_keyboard: [[{ text: '🛒 View Cart', callback_data: 'view_cart' }]]
+        }
+      });
+      return;
+    }
+
+    await storage.addCartItem(userId, productId, 1);
+
+    await this.sendMessage(chatId, `✅ *${product.title}* added to your cart!\n\n💰 Price: ₵${product.priceGhs}\n🛒 In cart: ${inCart + 1}`, {
       parse_mode: 'Markdown',
       reply_markup: {
         inline_keyboard: [
@@ -395,15 +558,98 @@ ${product.tags && product.tags.length > 0 ? `🏷️ *Tags:* ${product.tags.join
     });
   }
 
+  private async changeCartItemQuantity(chatId: number, userId: string, itemId: string, delta: number) {
+    const item = await this.getOwnCartItem(userId, itemId);
+    if (!item) {
+      await this.sendMessage(chatId, '❌ That item is no longer in your cart.');
+      await this.showCart(chatId, userId);
+      return;
+    }
+
+    const quantity = item.quantity + delta;
+    if (quantity <= 0) {
+      await storage.removeCartItem(item.id);
+    } else {
+      const product = await storage.getProduct(item.productId);
+      if (delta > 0 && (!product || quantity > product.stock)) {
+        await this.sendMessage(chatId, `⚠️ Sorry, only ${product?.stock || 0} of this item ${product?.stock === 1 ? 'is' : 'are'} in stock.`);
+        return;
+      }
+      await storage.updateCartItemQuantity(item.id, quantity);
+    }
+
+    await this.showCart(chatId, userId);
+  }
+
+  private async removeCartItem(chatId: number, userId: string, itemId: string) {
+    const item = await this.getOwnCartItem(userId, itemId);
+    if (item) {
+      await storage.removeCartItem(item.id);
+    }
+    await this.showCart(chatId, userId);
+  }
+
+  private async getOwnCartItem(userId: string, itemId: string) {
+    // Callback data can be replayed from any chat, so make sure the item is in this user's cart
+    const [item, cart] = await Promise.all([
+      storage.getCartItem(itemId),
+      storage.getOrCreateCart(userId)
+    ]);
+    return item && item.cartId === cart.id ? item : undefined;
+  }
+
+  private calculateCartSubtotal(items: CartItemWithProduct[]): string {
+    const subtotal = items.reduce((sum, item) => sum + parseFloat(item.product.priceGhs) * item.quantity, 0);
+    return subtotal.toFixed(2);
+  }
+
   private async showCart(chatId: number, userId: string) {
-    // Placeholder for cart functionality
-    await this.sendMessage(chatId, '🛒 *Your Cart*\n\nYour cart is currently empty.\nUse /browse to start shopping!', {
-      parse_mode: 'Markdown',
-      reply_markup: {
-        inline_keyboard: [
-          [{ text: '📱 Browse Products', callback_data: 'browse_categories' }]
-        ]
+    const items = await storage.getCartItems(userId);
+
+    if (items.length === 0) {
+      await this.sendMessage(chatId, '🛒 *Your Cart*\n\nYour cart is currently empty.\nUse /browse to start shopping!', {
+        parse_mode: 'Markdown',
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: '📱 Browse Products', callback_data: 'browse_categories' }]
+          ]
+        }
+      });
+      return;
+    }
+
+    let cartText = '🛒 *Your Cart*\n\n';
+    const keyboard: { text: string; callback_data: string }[][] = [];
+
+    for (const item of items) {
+      const lineTotal = (parseFloat(item.product.priceGhs) * item.quantity).toFixed(2);
+      cartText += `• *${item.product.title}*\n`;
+      cartText += `   ${item.quantity} × ₵${item.product.priceGhs} = ₵${lineTotal}\n`;
+      if (!item.product.isActive || item.product.stock <= 0) {
+        cartText += '   ⚠️ No longer available\n';
+      } else if (item.quantity > item.product.stock) {
+        cartText += `   ⚠️ Only ${item.product.stock} left in stock\n`;
       }
+
+      keyboard.push([
+        { text: '➖', callback_data: `cart_dec_${item.id}` },
+        { text: `${item.quantity} × ${item.product.title.substring(0, 20)}`, callback_data: `product_${item.productId}` },
+        { text: '➕', callback_data: `cart_inc_${item.id}` },
+        { text: '🗑', callback_data: `cart_remove_${item.id}` }
+      ]);
+    }
+
+    cartText += `\n💰 *Subtotal:* ₵${this.calculateCartSubtotal(items)}`;
+
+    keyboard.push([
+      { text: '🗑 Clear Cart', callback_data: 'cart_clear' },
+      { text: '💳 Checkout', callback_data: 'checkout' }
+    ]);
+    keyboard.push([{ text: '🔙 Continue Shopping', callback_data: 'browse_categories' }]);
+
+    await this.sendMessage(chatId, cartText, {
+      parse_mode: 'Markdown',
+      reply_markup: { inline_keyboard: keyboard }
     });
   }
 
@@ -429,15 +675,30 @@ ${product.tags && product.tags.length > 0 ? `🏷️ *Tags:* ${product.tags.join
     await this.sendMessage(chatId, ordersText, { parse_mode: 'Markdown' });
   }
 
-  private async showSupport(chatId: number) {
+  private async showSupport(chatId: number, userId: string) {
+    const [profile, openTicket] = await Promise.all([
+      storeProfileService.getProfile(),
+      storage.getOpenSupportTicket(userId)
+    ]);
+
+    if (openTicket) {
+      await this.sendMessage(chatId, '💬 *You are chatting with our support team*\n\nJust type your message and a staff member will reply here.', {
+        parse_mode: 'Markdown',
+        reply_markup: {
+          inline_keyboard: [[{ text: '✅ End Chat', callback_data: 'support_end' }]]
+        }
+      });
+      return;
+    }
+
     const supportMessage = `
 💬 *Customer Support*
 
 Need help? Our support team is here for you!
 
-📧 *Email:* support@ecombot.gh
-📱 *Phone:* +233 XXX XXX XXX
-⏰ *Hours:* Mon-Fri, 9AM-6PM GMT
+📧 *Email:* ${profile.supportEmail}
+📱 *Phone:* ${profile.supportPhone}
+⏰ *Hours:* ${profile.businessHours}
 
 *Common Questions:*
 • How to pay with MTN MoMo?
@@ -445,10 +706,42 @@ Need help? Our support team is here for you!
 • Product returns and refunds
 • Account management
 
-Type your question below or contact us directly!
+Chat with our team below or contact us directly!
     `;
 
-    await this.sendMessage(chatId, supportMessage, { parse_mode: 'Markdown' });
+    await this.sendMessage(chatId, supportMessage, {
+      parse_mode: 'Markdown',
+      reply_markup: {
+        inline_keyboard: [[{ text: '💬 Chat With Us', callback_data: 'support_chat' }]]
+      }
+    });
+  }
+
+  private async startSupportChat(chatId: number, userId: string) {
+    await storage.openSupportTicket(userId, chatId.toString());
+    await this.sendMessage(chatId, "💬 *You're connected to our support team*\n\nType your question and a staff member will reply right here. Tap *End Chat* when you're done.", {
+      parse_mode: 'Markdown',
+      reply_markup: {
+        inline_keyboard: [[{ text: '✅ End Chat', callback_data: 'support_end' }]]
+      }
+    });
+  }
+
+  private async endSupportChat(chatId: number, userId: string) {
+    const ticket = await storage.getOpenSupportTicket(userId);
+    if (ticket) {
+      await storage.setSupportTicketStatus(ticket.id, 'CLOSED');
+    }
+    await this.sendMessage(chatId, '✅ Support chat ended. Use /support anytime if you need more help.');
+  }
+
+  private async forwardToSupport(chatId: number, ticket: SupportTicket, text: string) {
+    await storage.addSupportMessage({ ticketId: ticket.id, sender: 'CUSTOMER', body: text });
+
+    // Acknowledge only the first message so the chat doesn't fill up with receipts
+    if (!ticket.lastMessageAt) {
+      await this.sendMessage(chatId, '✅ Thanks! Our team has your message and will reply here shortly.');
+    }
   }
 
   private async startCheckout(chatId: number, userId?: string) {
@@ -457,8 +750,26 @@ Type your question below or contact us directly!
       return;
     }
 
+    const items = await storage.getCartItems(userId);
+    if (items.length === 0) {
+      await this.showCart(chatId, userId);
+      return;
+    }
+
+    const unavailable = items.filter(item => !item.product.isActive || item.quantity > item.product.stock);
+    if (unavailable.length > 0) {
+      const names = unavailable.map(item => `• ${item.product.title}`).join('\n');
+      await this.sendMessage(chatId, `⚠️ *Some items are out of stock*\n\n${names}\n\nPlease update your cart before checking out.`, {
+        parse_mode: 'Markdown',
+        reply_markup: {
+          inline_keyboard: [[{ text: '🛒 View Cart', callback_data: 'view_cart' }]]
+        }
+      });
+      return;
+    }
+
     // Initialize checkout session
-    this.checkoutSessions.set(chatId, {
+    await this.saveCheckoutSession(chatId, {
       step: 'address',
       userId
     });
@@ -474,7 +785,7 @@ Before we process your payment, please provide your complete delivery address.
 • Region
 • Any special delivery instructions
 
-💰 *Order Total:* ₵25.00 (example)
+💰 *Cart Subtotal:* ₵${this.calculateCartSubtotal(items)}
 
 Please type your full delivery address:`;
 
@@ -489,6 +800,100 @@ Please type your full delivery address:`;
     console.log('Checkout initiated for user:', userId);
   }
 
+  private isCheckoutIdle(session: CheckoutSession): boolean {
+    if (!session.lastActiveAt) {
+      return false;
+    }
+    return Date.now() - session.lastActiveAt.getTime() > CHECKOUT_RESUME_PROMPT_MINUTES * 60 * 1000;
+  }
+
+  private async getCheckoutSession(chatId: number): Promise<CheckoutSession | undefined> {
+    const record = await storage.getCheckoutSession(chatId.toString());
+    return record ? this.toCheckoutSession(record) : undefined;
+  }
+
+  private toCheckoutSession(record: StoredCheckoutSession): CheckoutSession {
+    return {
+      ...(record.data as Partial<CheckoutSession>),
+      step: record.step as CheckoutSession['step'],
+      userId: record.userId,
+      lastActiveAt: record.updatedAt
+    };
+  }
+
+  private async saveCheckoutSession(chatId: number, session: CheckoutSession) {
+    const { step, userId, lastActiveAt, ...data } = session;
+    await storage.saveCheckoutSession({
+      chatId: chatId.toString(),
+      userId,
+      step,
+      data: data as Record<string, any>,
+      expiresAt: new Date(Date.now() + CHECKOUT_SESSION_TTL_MINUTES * 60 * 1000)
+    });
+  }
+
+  private async clearCheckoutSession(chatId: number) {
+    await storage.deleteCheckoutSession(chatId.toString());
+  }
+
+  private async promptResumeCheckout(chatId: number) {
+    await this.sendMessage(chatId, '🛒 *You have an unfinished checkout*\n\nWould you like to continue where you left off?', {
+      parse_mode: 'Markdown',
+      reply_markup: {
+        inline_keyboard: [
+          [{ text: '▶️ Continue Checkout', callback_data: 'checkout_resume' }],
+          [{ text: '❌ Cancel Checkout', callback_data: 'checkout_cancel' }]
+        ]
+      }
+    });
+  }
+
+  private async resumeCheckout(chatId: number) {
+    const session = await this.getCheckoutSession(chatId);
+    if (!session) {
+      await this.sendMessage(chatId, '⌛ This checkout has expired. Please start checkout again.', {
+        reply_markup: {
+          inline_keyboard: [[{ text: '🛒 View Cart', callback_data: 'view_cart' }]]
+        }
+      });
+      return;
+    }
+
+    // Saving refreshes the activity timestamp so the next reply is taken as input
+    await this.saveCheckoutSession(chatId, session);
+
+    switch (session.step) {
+      case 'address':
+        await this.sendMessage(chatId, '📍 *Delivery Address Required*\n\nPlease type your full delivery address:', {
+          parse_mode: 'Markdown',
+          reply_markup: {
+            force_reply: true,
+            input_field_placeholder: 'Enter your complete delivery address...'
+          }
+        });
+        break;
+      case 'phone':
+        await this.sendMessage(chatId, '📱 *Phone Number Required*\n\nPlease reply with your MTN Mobile Money number:', {
+          parse_mode: 'Markdown',
+          reply_markup: {
+            force_reply: true,
+            input_field_placeholder: 'Enter your MTN MoMo number (e.g., 0244123456)'
+          }
+        });
+        break;
+      case 'coupon':
+        await this.sendMessage(chatId, '🏷 *Apply a Coupon*\n\nPlease type your coupon code:', {
+          parse_mode: 'Markdown',
+          reply_markup: {
+            inline_keyboard: [[{ text: '⏭ Continue Without Coupon', callback_data: 'checkout_coupon_skip' }]]
+          }
+        });
+        break;
+      default:
+        await this.showOrderConfirmation(chatId, session);
+    }
+  }
+
   private async handleCheckoutStep(chatId: number, text: string, session: CheckoutSession, user: any) {
     switch (session.step) {
       case 'address':
@@ -497,9 +902,15 @@ Please type your full delivery address:`;
       case 'phone':
         await this.handlePhoneInput(chatId, text, session, user);
         break;
+      case 'coupon':
+        await this.handleCouponInput(chatId, text, session);
+        break;
+      case 'confirm':
+        await this.showOrderConfirmation(chatId, session);
+        break;
       default:
         // Reset session if in unknown state
-        this.checkoutSessions.delete(chatId);
+        await this.clearCheckoutSession(chatId);
         await this.sendMessage(chatId, '❌ Something went wrong. Please start checkout again.');
     }
   }
@@ -519,7 +930,7 @@ Please type your full delivery address:`;
     // Save address and move to phone step
     session.deliveryAddress = address;
     session.step = 'phone';
-    this.checkoutSessions.set(chatId, session);
+    await this.saveCheckoutSession(chatId, session);
 
     const message = `✅ *Address Confirmed*\n\n📍 *Delivery Address:*\n${address}\n\n📱 *Phone Number Required*\n\nNow please provide your MTN Mobile Money number for payment.\n\n*Supported formats:*\n• +233XXXXXXXXX (e.g., +233244123456)\n• 0XXXXXXXXX (e.g., 0244123456)\n\nPlease reply with your phone number:`;
 
@@ -545,114 +956,149 @@ Please type your full delivery address:`;
       return;
     }
 
-    // Save phone and complete checkout
+    // Save phone and ask the customer to confirm the itemised order
     session.phoneNumber = phone;
-    session.step = 'complete';
-    
-    // Process payment with collected information
-    await this.processPaymentWithAddress(chatId, phone, session.deliveryAddress!, user);
-    
-    // Clear session
-    this.checkoutSessions.delete(chatId);
+    session.step = 'confirm';
+    await this.saveCheckoutSession(chatId, session);
+
+    await this.showOrderConfirmation(chatId, session);
   }
 
-  private async processPaymentWithAddress(chatId: number, phoneNumber: string, deliveryAddress: string, user: any) {
-    try {
-      // Import MTN MoMo service
-      const { mtnMomoService } = await import('./mtn-momo');
-      
-      // Payment details (demo values)
-      const amount = '25.00';
-      const description = 'EcomBot Purchase';
-      const externalId = `ecom_${Date.now()}_${chatId}`;
-      
-      // Initiate MTN MoMo collection
-      const collectionResult = await mtnMomoService.initiateCollection(
-        amount,
-        phoneNumber,
-        externalId,
-        description
-      );
+  private async promptForCoupon(chatId: number) {
+    const session = await this.getCheckoutSession(chatId);
+    if (!session || session.step !== 'confirm') {
+      await this.sendMessage(chatId, '⌛ This checkout has expired. Please start checkout again.');
+      return;
+    }
 
-      if (collectionResult.success) {
-        // Parse delivery address into components
-        const addressComponents = this.parseAddress(deliveryAddress);
-        
-        // Create order with delivery address
-        const order = await storage.createOrder({
-          userId: user.id,
-          customerPhone: phoneNumber,
-          totalGhs: amount,
-          status: 'PENDING' as const,
-          address: addressComponents,
-          notes: `Delivery Address: ${deliveryAddress}` // Store address in notes for now
-        });
+    session.step = 'coupon';
+    await this.saveCheckoutSession(chatId, session);
 
-        const payment = await storage.createPayment({
-          orderId: order.id,
-          provider: 'mtn_momo',
-          amountGhs: amount,
-          currency: 'GHS',
-          status: 'PENDING' as const,
-          providerReference: collectionResult.referenceId,
-          externalId,
-          customerPhone: phoneNumber,
-          idempotencyKey: `payment_${externalId}`
-        });
+    await this.sendMessage(chatId, '🏷 *Apply a Coupon*\n\nPlease type your coupon code:', {
+      parse_mode: 'Markdown',
+      reply_markup: {
+        force_reply: true,
+        input_field_placeholder: 'Enter your coupon code...'
+      }
+    });
+  }
 
-        // Success message with payment instructions
-        const successMessage = `✅ *Payment Request Sent!*
+  private async handleCouponInput(chatId: number, code: string, session: CheckoutSession) {
+    const quote = await checkoutService.getQuote(session.userId, code);
 
-📱 *Next Steps:*
-1. Check your phone (${phoneNumber}) for MTN MoMo prompt
-2. Enter your MTN MoMo PIN to complete payment
-3. You'll receive confirmation once payment is successful
+    if (!quote.coupon) {
+      await this.sendMessage(chatId, `⚠️ *Coupon Not Applied*\n\n${quote.couponError || 'This coupon code is not valid.'}\n\nType another code or skip this step.`, {
+        parse_mode: 'Markdown',
+        reply_markup: {
+          inline_keyboard: [[{ text: '⏭ Continue Without Coupon', callback_data: 'checkout_coupon_skip' }]]
+        }
+      });
+      return;
+    }
 
-💰 *Payment Details:*
-• Amount: ₵${amount}
-• Reference: ${externalId}
-• Order ID: ${order.id.substring(0, 8)}
+    session.couponCode = quote.coupon.code;
+    session.step = 'confirm';
+    await this.saveCheckoutSession(chatId, session);
 
-📍 *Delivery Address:*
-${deliveryAddress}
+    await this.sendMessage(chatId, `✅ Coupon *${quote.coupon.code}* applied: -₵${quote.discountGhs}`, { parse_mode: 'Markdown' });
+    await this.showOrderConfirmation(chatId, session);
+  }
 
-⏰ *Important:* This payment request expires in 10 minutes.`;
+  private async setCheckoutCoupon(chatId: number, couponCode?: string) {
+    const session = await this.getCheckoutSession(chatId);
+    if (!session) {
+      await this.sendMessage(chatId, '⌛ This checkout has expired. Please start checkout again.');
+      return;
+    }
 
-        await this.sendMessage(chatId, successMessage, {
-          parse_mode: 'Markdown',
-          reply_markup: {
-            inline_keyboard: [
-              [{ text: '📦 Check Order Status', callback_data: `order_status_${order.id}` }],
-              [{ text: '🏠 Back to Main Menu', callback_data: 'main_menu' }]
-            ]
-          }
-        });
+    session.couponCode = couponCode;
+    session.step = 'confirm';
+    await this.saveCheckoutSession(chatId, session);
+    await this.showOrderConfirmation(chatId, session);
+  }
 
-      } else {
-        // Payment initiation failed
-        await this.sendMessage(chatId, `❌ *Payment Request Failed*\n\n${collectionResult.error || 'Unable to process payment at this time.'}\n\nPlease try again or contact support if the problem persists.`, {
-          parse_mode: 'Markdown',
-          reply_markup: {
-            inline_keyboard: [
-              [{ text: '🔄 Try Again', callback_data: 'checkout' }],
-              [{ text: '💬 Contact Support', callback_data: 'support' }]
-            ]
-          }
-        });
-      }
+  private async showOrderConfirmation(chatId: number, session: CheckoutSession) {
+    const quote = await checkoutService.getQuote(session.userId, session.couponCode);
 
-    } catch (error) {
-      console.error('Error processing payment with address:', error);
-      await this.sendMessage(chatId, '❌ *Error Processing Payment*\n\nSomething went wrong. Please try again or contact support.', {
+    if (quote.items.length === 0) {
+      await this.clearCheckoutSession(chatId);
+      await this.showCart(chatId, session.userId);
+      return;
+    }
+
+    if (quote.unavailable.length > 0) {
+      await this.clearCheckoutSession(chatId);
+      const names = quote.unavailable.map(item => `• ${item.product.title}`).join('\n');
+      await this.sendMessage(chatId, `⚠️ *Some items are out of stock*\n\n${names}\n\nPlease update your cart before checking out.`, {
         parse_mode: 'Markdown',
         reply_markup: {
-          inline_keyboard: [
-            [{ text: '🔄 Try Again', callback_data: 'checkout' }],
-            [{ text: '💬 Contact Support', callback_data: 'support' }]
+          inline_keyboard: [[{ text: '🛒 View Cart', callback_data: 'view_cart' }]]
+        }
+      });
+      return;
+    }
+
+    let couponNotice = '';
+    if (session.couponCode && quote.couponError) {
+      // The coupon stopped being valid since it was applied (expired, used up, cart changed)
+      couponNotice = `⚠️ Coupon ${session.couponCode} removed: ${quote.couponError}\n\n`;
+      session.couponCode = undefined;
+      await this.saveCheckoutSession(chatId, session);
+    }
+
+    const message = `🧾 *Confirm Your Order*
+
+${couponNotice}${checkoutService.formatSummary(quote)}
+
+📱 *MoMo Number:* ${session.phoneNumber}
+📍 *Delivery Address:*
+${session.deliveryAddress || 'Not provided'}
+
+Tap *Confirm & Pay* to receive the MTN MoMo payment prompt.`;
+
+    await this.sendMessage(chatId, message, {
+      parse_mode: 'Markdown',
+      reply_markup: {
+        inline_keyboard: [
+          [{ text: '✅ Confirm & Pay', callback_data: 'checkout_confirm' }],
+          [
+            quote.coupon
+              ? { text: '🏷 Remove Coupon', callback_data: 'checkout_coupon_remove' }
+              : { text: '🏷 Apply Coupon', callback_data: 'checkout_coupon' }
+          ],
+          [
+            { text: '🛒 Edit Cart', callback_data: 'view_cart' },
+            { text: '❌ Cancel', callback_data: 'checkout_cancel' }
           ]
+        ]
+      }
+    });
+  }
+
+  private async confirmCheckout(chatId: number, user: any) {
+    // Deleting the session claims it, so a double tap, or a second instance handling the same
+    // update, can't place the order twice
+    const record = await storage.claimCheckoutSession(chatId.toString(), 'confirm');
+    const session = record ? this.toCheckoutSession(record) : undefined;
+    if (!session || !session.phoneNumber || session.userId !== user.id) {
+      await this.sendMessage(chatId, '⌛ This checkout has expired. Please start checkout again.', {
+        reply_markup: {
+          inline_keyboard: [[{ text: '🛒 View Cart', callback_data: 'view_cart' }]]
         }
       });
+      return;
     }
+
+    await this.processPayment(chatId, session, user);
+  }
+
+  private async cancelCheckout(chatId: number) {
+    await this.clearCheckoutSession(chatId);
+    await this.sendMessage(chatId, '❌ Checkout cancelled. Your cart has been kept.', {
+      reply_markup: {
+        inline_keyboard: [[{ text: '🛒 View Cart', callback_data: 'view_cart' }]]
+      }
+    });
   }
 
   private parseAddress(fullAddress: string): Record<string, any> {
@@ -671,16 +1117,29 @@ ${deliveryAddress}
 
   private async handleTextMessage(chatId: number, text: string, user: any) {
     // Check if user is in checkout flow
-    const checkoutSession = this.checkoutSessions.get(chatId);
+    const checkoutSession = await this.getCheckoutSession(chatId);
+    if (checkoutSession && this.isCheckoutIdle(checkoutSession)) {
+      await this.promptResumeCheckout(chatId);
+      return;
+    }
     if (checkoutSession) {
       await this.handleCheckoutStep(chatId, text.trim(), checkoutSession, user);
       return;
     }
     
+    // While a support chat is open, anything but the menu keyboard goes to the staff inbox
+    const supportTicket = await storage.getOpenSupportTicket(user.id);
+    if (supportTicket && text.trim() && !MAIN_KEYBOARD_LABELS.includes(text.trim())) {
+      await this.forwardToSupport(chatId, supportTicket, text);
+      return;
+    }
+    
     // Check if this looks like a phone number for payment processing (legacy support)
     const phoneRegex = /^(?:\+233|0)\d{9}$/;
     if (phoneRegex.test(text.trim())) {
-      await this.processPayment(chatId, text.trim(), user);
+      const session: CheckoutSession = { step: 'confirm', userId: user.id, phoneNumber: text.trim() };
+      await this.saveCheckoutSession(chatId, session);
+      await this.showOrderConfirmation(chatId, session);
       return;
     }
     
@@ -691,7 +1150,7 @@ ${deliveryAddress}
     } else if (text.includes('orders') || text.includes('📦')) {
       await this.showOrders(chatId, user.id);
     } else if (text.includes('support') || text.includes('💬')) {
-      await this.showSupport(chatId);
+      await this.showSupport(chatId, user.id);
     } else if (text.includes('search') || text.includes('🔍')) {
       await this.sendMessage(chatId, '🔍 *Search Products*\n\nSearch functionality coming soon!\nFor now, use /browse to explore our categories.', {
         parse_mode: 'Markdown'
@@ -764,6 +1223,7 @@ ${deliveryAddress}
       
       if (result.ok) {
         console.log(`✅ Webhook successfully set to: ${fullWebhookUrl}`);
+        await this.syncBotCommands();
       } else {
         console.error(`❌ Failed to set webhook: ${result.description || 'Unknown error'}`);
       }
@@ -775,6 +1235,40 @@ ${deliveryAddress}
     }
   }
 
+  async syncBotCommands(): Promise<boolean> {
+    const botToken = await this.getBotToken();
+    if (!botToken) {
+      console.warn('Cannot sync bot commands: No bot token configured');
+      return false;
+    }
+
+    try {
+      const customCommands = await storage.getActiveBotCommands();
+      const commands = [
+        ...BUILT_IN_BOT_COMMANDS,
+        ...customCommands.map(botCommand => ({
+          command: botCommand.command.replace(/^\//, ''),
+          description: botCommand.description.substring(0, 256)
+        }))
+      ].slice(0, 100); // Telegram accepts at most 100 commands
+
+      const response = await fetch(`https://api.telegram.org/bot${botToken}/setMyCommands`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ commands }),
+      });
+
+      const result = await response.json();
+      if (!result.ok) {
+        console.error(`❌ Failed to sync bot commands: ${result.description || 'Unknown error'}`);
+      }
+      return result.ok;
+    } catch (error) {
+      console.error('Error syncing bot commands:', error);
+      return false;
+    }
+  }
+
   async refreshBotToken() {
     console.log('Refreshing bot token from database...');
     this.botToken = ''; // Clear current token
@@ -822,14 +1316,21 @@ ${order.address ? Object.values(order.address).join(', ') : 'Not provided'}`;
     }
   }
 
-  private async processPayment(chatId: number, phoneNumber: string, user: any) {
+  private async processPayment(chatId: number, session: CheckoutSession, user: any) {
+    const phoneNumber = session.phoneNumber!;
+
     try {
-      // Validate phone number format
-      const phoneRegex = /^(?:\+233|0)\d{9}$/;
-      if (!phoneRegex.test(phoneNumber)) {
-        await this.sendMessage(chatId, '❌ *Invalid Phone Number Format*\n\nPlease use one of these formats:\n• +233XXXXXXXXX (e.g., +233244123456)\n• 0XXXXXXXXX (e.g., 0244123456)\n\nTry again:', {
-          parse_mode: 'Markdown'
-        });
+      const quote = await checkoutService.getQuote(user.id, session.couponCode);
+      if (quote.items.length === 0 || quote.unavailable.length > 0) {
+        await this.showCart(chatId, user.id);
+        return;
+      }
+
+      if (session.couponCode && quote.couponError) {
+        // Let the customer see the new total before we charge it
+        session.step = 'confirm';
+        await this.saveCheckoutSession(chatId, session);
+        await this.showOrderConfirmation(chatId, session);
         return;
       }
 
@@ -838,49 +1339,43 @@ ${order.address ? Object.values(order.address).join(', ') : 'Not provided'}`;
         parse_mode: 'Markdown'
       });
 
-      // Import MTN MoMo service
-      const { mtnMomoService } = await import('./mtn-momo');
-      
-      // Payment details (demo values)
-      const amount = '25.00';
-      const description = 'EcomBot Purchase';
+      // Import the payment providers
+      const { paymentProviders } = await import('./payment-provider');
+
+      const order = await checkoutService.createOrder(user.id, quote, {
+        customerPhone: phoneNumber,
+        deliveryAddress: session.deliveryAddress,
+        address: session.deliveryAddress ? this.parseAddress(session.deliveryAddress) : undefined,
+        paymentProvider: paymentProviders.getDefault().id
+      });
+      const provider = paymentProviders.forOrder(order);
+
       const externalId = `ecom_${Date.now()}_${chatId}`;
       
-      // Initiate MTN MoMo collection
-      const collectionResult = await mtnMomoService.initiateCollection(
-        amount,
-        phoneNumber,
+      // Request payment of the real order total
+      const collectionResult = await provider.initiate({
+        amountGhs: quote.totalGhs,
+        customerPhone: phoneNumber,
         externalId,
-        description
-      );
+        description: `Order ${order.orderNumber}`
+      });
 
       if (collectionResult.success) {
-        // Create order and payment records
-        const order = await storage.createOrder({
-          userId: user.id,
-          customerPhone: phoneNumber,
-          totalGhs: amount,
-          status: 'PENDING' as const,
-          address: {
-            street: 'TBD',
-            city: 'TBD',
-            region: 'TBD',
-            country: 'Ghana'
-          } as Record<string, any>
-        });
-
-        const payment = await storage.createPayment({
+        await storage.createPayment({
           orderId: order.id,
-          provider: 'mtn_momo',
-          amountGhs: amount,
+          provider: provider.id,
+          amountGhs: quote.totalGhs,
           currency: 'GHS',
           status: 'PENDING' as const,
-          providerReference: collectionResult.referenceId,
+          providerReference: collectionResult.providerReference,
           externalId,
           customerPhone: phoneNumber,
           idempotencyKey: `payment_${externalId}`
         });
 
+        // The order now holds the items, so start the next purchase with an empty cart
+        await storage.clearCart(user.id);
+
         // Success message with payment instructions
         const successMessage = `✅ *Payment Request Sent!*
 
@@ -889,11 +1384,11 @@ ${order.address ? Object.values(order.address).join(', ') : 'Not provided'}`;
 2. Enter your MTN MoMo PIN to complete payment
 3. You'll receive confirmation once payment is successful
 
-💰 *Payment Details:*
-• Amount: ₵${amount}
-• Reference: ${externalId}
-• Order ID: ${order.id.substring(0, 8)}
+🧾 *Order ${order.orderNumber}:*
+${checkoutService.formatSummary(quote)}
 
+💰 *Payment Reference:* ${externalId}
+${session.deliveryAddress ? `\n📍 *Delivery Address:*\n${session.deliveryAddress}\n` : ''}
 ⏰ *Important:* This payment request expires in 10 minutes.
 
 If you don't receive the prompt, please check that:
@@ -912,6 +1407,9 @@ If you don't receive the prompt, please check that:
         });
 
       } else {
+        await orderStatusService.transitionOrder(order, 'CANCELLED', 'customer', { reason: 'Payment request failed' });
+        await storage.releaseOrderStock(order.id, 'Payment request failed');
+
         // Payment initiation failed
         await this.sendMessage(chatId, `❌ *Payment Request Failed*\n\n${collectionResult.error || 'Unable to process payment at this time.'}\n\nPlease try again or contact support if the problem persists.`, {
           parse_mode: 'Markdown',
@@ -925,6 +1423,24 @@ If you don't receive the prompt, please check that:
       }
 
     } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        // Someone else bought the last units between confirmation and payment
+        await this.sendMessage(chatId, '⚠️ *Sorry, an item in your cart just sold out.*\n\nPlease review your cart and try again.', {
+          parse_mode: 'Markdown',
+          reply_markup: {
+            inline_keyboard: [[{ text: '🛒 View Cart', callback_data: 'view_cart' }]]
+          }
+        });
+        return;
+      }
+      if (error instanceof CouponUsageLimitError) {
+        // The last use of the coupon went to another order; the confirmation drops it and shows the new total
+        session.step = 'confirm';
+        await this.saveCheckoutSession(chatId, session);
+        await this.showOrderConfirmation(chatId, session);
+        return;
+      }
+
       console.error('Error processing payment:', error);
       await this.sendMessage(chatId, '❌ *Error Processing Payment*\n\nSomething went wrong. Please try again or contact support.', {
         parse_mode: 'Markdown',
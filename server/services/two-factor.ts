@@ -0,0 +1,91 @@
+import { authenticator as defaultAuthenticator } from 'otplib';
+import QRCode from 'qrcode';
+import { createHash, randomBytes } from 'crypto';
+import { storage } from '../storage';
+import { isRole, type Role } from '@shared/permissions';
+
+// Comma-separated roles that must enrol in 2FA, e.g. "admin,staff"
+export const TWO_FACTOR_REQUIRED_ROLES_SETTING = 'TWO_FACTOR_REQUIRED_ROLES';
+
+const ISSUER = 'EcomBot Admin';
+const RECOVERY_CODE_COUNT = 10;
+
+// Accept the previous and next 30s step as well, to tolerate phone clock drift
+const authenticator = defaultAuthenticator.clone({ window: 1 });
+
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+class TwoFactorService {
+  private requiredRoles: Role[] | null = null;
+
+  async createEnrolment(email: string): Promise<TwoFactorEnrolment> {
+    const secret = authenticator.generateSecret();
+    const otpauthUrl = authenticator.keyuri(email, ISSUER, secret);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+    return { secret, otpauthUrl, qrCodeDataUrl };
+  }
+
+  verifyCode(secret: string, code: string): boolean {
+    const token = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(token)) {
+      return false;
+    }
+    try {
+      return authenticator.check(token, secret);
+    } catch {
+      return false;
+    }
+  }
+
+  // Plain codes are shown to the user once; only their hashes are stored
+  generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+    return { codes, hashes: codes.map(code => this.hashRecoveryCode(code)) };
+  }
+
+  // Case and dashes are ignored so codes can be typed however they were written down
+  hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^0-9a-f]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  async getRequiredRoles(): Promise<Role[]> {
+    if (this.requiredRoles) {
+      return this.requiredRoles;
+    }
+
+    const setting = await storage.getSystemSetting(TWO_FACTOR_REQUIRED_ROLES_SETTING);
+    this.requiredRoles = (setting?.value ?? '')
+      .split(',')
+      .map(role => role.trim())
+      .filter(isRole);
+    return this.requiredRoles;
+  }
+
+  async isRequiredFor(role: string): Promise<boolean> {
+    return (await this.getRequiredRoles()).includes(role as Role);
+  }
+
+  async setRequiredRoles(roles: Role[]): Promise<Role[]> {
+    await storage.setSystemSetting({
+      key: TWO_FACTOR_REQUIRED_ROLES_SETTING,
+      value: roles.join(','),
+      description: 'Roles that must use two-factor authentication'
+    });
+    this.refresh();
+    return this.getRequiredRoles();
+  }
+
+  refresh() {
+    this.requiredRoles = null;
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
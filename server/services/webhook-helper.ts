@@ -29,6 +29,15 @@ export class WebhookHelper {
     return null;
   }
   
+  // Base URL for links sent outside the app, e.g. in emails. Never taken from the request,
+  // whose Host header the client controls.
+  static getPublicBaseUrl(): string | null {
+    if (process.env.APP_URL) {
+      return process.env.APP_URL.trim().replace(/\/+$/, '');
+    }
+    return this.getWebhookUrl();
+  }
+
   static getEnvironmentInfo() {
     return {
       isProduction: !!process.env.REPLIT_DEPLOYMENT_URL,
@@ -1,43 +1,205 @@
 import { 
   adminUsers, 
+  adminInvitations,
+  passwordResetTokens,
+  sessions,
+  orderStatusHistory,
+  refunds,
+  webhookNonces,
+  rejectedCallbacks,
   users, 
   categories, 
   products, 
+  carts,
+  cartItems,
+  checkoutSessions,
   orders, 
   orderItems, 
+  stockMovements,
   payments, 
   coupons, 
+  botCommands,
+  supportTickets,
+  supportMessages,
   systemSettings,
   auditLogs,
   type AdminUser, 
   type InsertAdminUser,
+  type AdminInvitation,
+  type InsertAdminInvitation,
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
+  type StoredSession,
   type User, 
+  type CustomerWithStats,
   type InsertUser,
   type Category,
   type InsertCategory,
   type Product,
   type InsertProduct,
+  type Cart,
+  type CartItem,
+  type CartItemWithProduct,
+  type CheckoutSession,
+  type InsertCheckoutSession,
   type Order,
   type InsertOrder,
   type OrderItem,
   type InsertOrderItem,
+  type StockMovement,
   type Payment,
   type InsertPayment,
   type Coupon,
   type InsertCoupon,
+  type BotCommand,
+  type InsertBotCommand,
+  type SupportTicket,
+  type SupportTicketWithDetails,
+  type SupportMessage,
+  type InsertSupportMessage,
   type SystemSetting,
   type InsertSystemSetting,
   type AuditLog,
-  type InsertAuditLog
+  type InsertAuditLog,
+  type AuditLogWithAdmin,
+  type InsertOrderStatusHistory,
+  type OrderStatusHistoryWithAdmin,
+  type Refund,
+  type InsertRefund,
+  type RejectedCallback,
+  type InsertRejectedCallback
 } from "@shared/schema";
+import type {
+  Paginated,
+  StatusSummary,
+  SortDirection,
+  OrderSort,
+  PaymentSort,
+  ProductSort,
+  ProductStatus,
+  CustomerSort
+} from "@shared/lists";
+import { ORDER_SORTS, PAYMENT_SORTS, PRODUCT_SORTS, CUSTOMER_SORTS, DEFAULT_PAGE_SIZE } from "@shared/lists";
 import { db } from "./db";
-import { eq, desc, and, gte, sql, count } from "drizzle-orm";
+import { settingEncryption } from "./services/setting-encryption";
+import { eq, ne, desc, and, or, gt, gte, lt, sql, count, asc, isNull, isNotNull, ilike, inArray, type SQL } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 
 const PostgresSessionStore = connectPg(session);
 
+export class InsufficientStockError extends Error {
+  constructor(public productId: string, public requested: number) {
+    super(`Insufficient stock for product ${productId} (requested ${requested})`);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+export class CouponUsageLimitError extends Error {
+  constructor(public couponId: string) {
+    super(`Coupon ${couponId} has no uses left`);
+    this.name = 'CouponUsageLimitError';
+  }
+}
+
+export interface AuditLogFilters {
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  adminUserId?: string;
+  search?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+// Shared by the paginated list methods; `cursor` is the `nextCursor` of the previous page
+export interface ListFilters {
+  search?: string;
+  from?: Date;
+  to?: Date;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface OrderListFilters extends ListFilters {
+  status?: Order['status'];
+  userId?: string;
+  sort?: OrderSort;
+}
+
+export interface PaymentListFilters extends ListFilters {
+  status?: Payment['status'];
+  sort?: PaymentSort;
+}
+
+export interface ProductListFilters extends ListFilters {
+  status?: ProductStatus;
+  categoryId?: string;
+  sort?: ProductSort;
+}
+
+export interface CustomerListFilters extends ListFilters {
+  sort?: CustomerSort;
+}
+
+// Keyset pagination: the cursor is the id of the last row already shown, and the next page
+// continues after that row's position in the sort order, with the id breaking ties
+function keysetOrder(column: PgColumn, id: PgColumn, direction: SortDirection): SQL[] {
+  return direction === 'desc' ? [desc(column), desc(id)] : [asc(column), asc(id)];
+}
+
+function afterCursor(table: PgTable, column: PgColumn, id: PgColumn, direction: SortDirection, cursor: string): SQL {
+  const operator = direction === 'desc' ? sql`<` : sql`>`;
+  return sql`(${column}, ${id}) ${operator} (select ${column}, ${id} from ${table} where ${id} = ${cursor})`;
+}
+
+// Pages are fetched with one extra row to tell whether another page follows
+function toPage<T extends { id: string }>(rows: T[], limit: number, total: number): Paginated<T> {
+  const items = rows.slice(0, limit);
+  return { items, total, nextCursor: rows.length > limit ? items[items.length - 1].id : null };
+}
+
+function dateRange(column: PgColumn, filters: ListFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters.from) {
+    conditions.push(gte(column, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lt(column, filters.to));
+  }
+  return conditions;
+}
+
+function toStatusSummary(rows: { status: string; count: number; amountGhs: string }[]): StatusSummary {
+  return {
+    total: rows.reduce((sum, row) => sum + row.count, 0),
+    byStatus: Object.fromEntries(rows.map(({ status, count, amountGhs }) => [status, { count, amountGhs }])),
+  };
+}
+
+// Secret settings are encrypted on the way in and decrypted on the way out, so callers only see plaintext
+function decryptSetting<T extends SystemSetting | undefined>(setting: T): T {
+  if (!setting || !setting.isEncrypted || !setting.value) {
+    return setting;
+  }
+  return { ...setting, value: settingEncryption.decrypt(setting.value) };
+}
+
+function encryptSetting<T extends { key: string; value?: string | null }>(setting: T): T & { isEncrypted: boolean } {
+  if (!settingEncryption.isSecretKey(setting.key) || setting.value == null) {
+    return { ...setting, isEncrypted: false };
+  }
+  return { ...setting, value: settingEncryption.encrypt(setting.value), isEncrypted: true };
+}
+
+function sessionOwnedBy(adminUserId: string): SQL {
+  return sql`${sessions.sess}->'passport'->>'user' = ${adminUserId}`;
+}
+
 export interface IStorage {
   sessionStore: session.Store;
   
@@ -46,36 +208,87 @@ export interface IStorage {
   getAdminUserByEmail(email: string): Promise<AdminUser | undefined>;
   createAdminUser(user: InsertAdminUser): Promise<AdminUser>;
   updateAdminUser(id: string, updates: Partial<InsertAdminUser>): Promise<AdminUser | undefined>;
+  getAllAdminUsers(): Promise<AdminUser[]>;
+  getActiveAdminUsers(): Promise<AdminUser[]>;
+  hasAdminUsers(): Promise<boolean>;
+  createFirstAdminUser(user: InsertAdminUser): Promise<AdminUser | undefined>;
+  consumeTwoFactorRecoveryCode(id: string, codeHash: string): Promise<boolean>;
+  recordFailedLogin(id: string, lockAfter: number, lockMinutes: number): Promise<AdminUser | undefined>;
+  resetFailedLogins(id: string): Promise<AdminUser | undefined>;
+  
+  // Dashboard Sessions
+  getAdminUserSessions(adminUserId: string): Promise<StoredSession[]>;
+  deleteAdminUserSession(adminUserId: string, sid: string): Promise<boolean>;
+  deleteAdminUserSessions(adminUserId: string, exceptSid?: string): Promise<number>;
+  
+  // Admin Invitations
+  createAdminInvitation(invitation: InsertAdminInvitation): Promise<AdminInvitation>;
+  getPendingAdminInvitations(): Promise<AdminInvitation[]>;
+  getValidAdminInvitation(tokenHash: string): Promise<AdminInvitation | undefined>;
+  revokeAdminInvitation(id: string): Promise<boolean>;
+  acceptAdminInvitation(tokenHash: string, user: { name: string; password: string }): Promise<AdminUser | undefined>;
+  
+  // Password Resets
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getValidPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  resetPasswordWithToken(tokenHash: string, password: string): Promise<AdminUser | undefined>;
   
   // Telegram Users
   getUser(id: string): Promise<User | undefined>;
   getUserByTelegramId(telegramId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined>;
-  getAllUsers(): Promise<User[]>;
+  listCustomers(filters?: CustomerListFilters): Promise<Paginated<CustomerWithStats>>;
   
   // Categories
   getAllCategories(): Promise<Category[]>;
+  getCategory(id: string): Promise<Category | undefined>;
   createCategory(category: InsertCategory): Promise<Category>;
   updateCategory(id: string, updates: Partial<InsertCategory>): Promise<Category | undefined>;
   deleteCategory(id: string): Promise<boolean>;
   
   // Products
   getAllProducts(): Promise<Product[]>;
+  listProducts(filters?: ProductListFilters): Promise<Paginated<Product>>;
   getProduct(id: string): Promise<Product | undefined>;
   getProductsByCategoryId(categoryId: string): Promise<Product[]>;
   searchProducts(query: string): Promise<Product[]>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product | undefined>;
   deleteProduct(id: string): Promise<boolean>;
-  updateProductStock(id: string, quantity: number): Promise<Product | undefined>;
+  updateProductStock(id: string, quantity: number, reason?: string): Promise<Product | undefined>;
+  getStockMovements(productId: string): Promise<StockMovement[]>;
+  
+  // Carts
+  getOrCreateCart(userId: string): Promise<Cart>;
+  getCartItems(userId: string): Promise<CartItemWithProduct[]>;
+  getCartItem(id: string): Promise<CartItem | undefined>;
+  addCartItem(userId: string, productId: string, quantity: number): Promise<CartItem>;
+  updateCartItemQuantity(id: string, quantity: number): Promise<CartItem | undefined>;
+  removeCartItem(id: string): Promise<boolean>;
+  clearCart(userId: string): Promise<boolean>;
+  
+  // Checkout Sessions
+  getCheckoutSession(chatId: string): Promise<CheckoutSession | undefined>;
+  saveCheckoutSession(session: InsertCheckoutSession): Promise<CheckoutSession>;
+  deleteCheckoutSession(chatId: string): Promise<boolean>;
+  claimCheckoutSession(chatId: string, step: string): Promise<CheckoutSession | undefined>;
+  deleteExpiredCheckoutSessions(): Promise<number>;
   
   // Orders
   getAllOrders(): Promise<Order[]>;
+  listOrders(filters?: OrderListFilters): Promise<Paginated<Order>>;
+  getOrderStatusSummary(from?: Date): Promise<StatusSummary>;
   getOrder(id: string): Promise<Order | undefined>;
   getOrdersByUserId(userId: string): Promise<Order[]>;
   createOrder(order: InsertOrder): Promise<Order>;
+  createOrderWithItems(order: InsertOrder, items: Omit<InsertOrderItem, 'orderId'>[]): Promise<Order>;
+  commitOrderStock(orderId: string): Promise<boolean>;
+  releaseOrderStock(orderId: string, reason: string): Promise<boolean>;
   updateOrder(id: string, updates: Partial<InsertOrder>): Promise<Order | undefined>;
+  markOrderRefundDue(id: string): Promise<Order | undefined>;
+  transitionOrderStatus(id: string, from: Order['status'], entry: Omit<InsertOrderStatusHistory, 'orderId' | 'fromStatus'>): Promise<Order | undefined>;
+  getOrderStatusHistory(orderId: string): Promise<OrderStatusHistoryWithAdmin[]>;
   generateOrderNumber(): Promise<string>;
   
   // Order Items
@@ -84,13 +297,31 @@ export interface IStorage {
   deleteOrderItems(orderId: string): Promise<boolean>;
   
   // Payments
-  getAllPayments(): Promise<Payment[]>;
+  listPayments(filters?: PaymentListFilters): Promise<Paginated<Payment>>;
+  getPaymentStatusSummary(from?: Date): Promise<StatusSummary>;
   getPayment(id: string): Promise<Payment | undefined>;
   getPaymentByIdempotencyKey(key: string): Promise<Payment | undefined>;
+  getPaymentByProviderReference(reference: string): Promise<Payment | undefined>;
+  getPaymentByExternalId(externalId: string): Promise<Payment | undefined>;
   getPaymentsByOrderId(orderId: string): Promise<Payment[]>;
-  getPendingPayments(): Promise<Payment[]>;
+  getPendingPayments(provider?: string): Promise<Payment[]>;
   createPayment(payment: InsertPayment): Promise<Payment>;
   updatePayment(id: string, updates: Partial<InsertPayment>): Promise<Payment | undefined>;
+  transitionPayment(id: string, from: Payment['status'], updates: Partial<InsertPayment>): Promise<Payment | undefined>;
+
+  // Payment Callbacks
+  claimWebhookNonce(provider: string, nonce: string, expiresAt: Date): Promise<boolean>;
+  deleteExpiredWebhookNonces(): Promise<number>;
+  createRejectedCallback(callback: InsertRejectedCallback): Promise<RejectedCallback>;
+  getRejectedCallbacks(limit?: number): Promise<RejectedCallback[]>;
+
+  // Refunds
+  getRefund(id: string): Promise<Refund | undefined>;
+  getRefundsByOrderId(orderId: string): Promise<Refund[]>;
+  getPendingRefunds(): Promise<Refund[]>;
+  getRefundTotals(paymentId: string): Promise<{ refundedGhs: string; pendingGhs: string }>;
+  createRefund(refund: InsertRefund): Promise<Refund | undefined>;
+  transitionRefund(id: string, from: Refund['status'], updates: Partial<InsertRefund>): Promise<Refund | undefined>;
   
   // Coupons
   getAllCoupons(): Promise<Coupon[]>;
@@ -100,6 +331,26 @@ export interface IStorage {
   updateCoupon(id: string, updates: Partial<InsertCoupon>): Promise<Coupon | undefined>;
   deleteCoupon(id: string): Promise<boolean>;
   
+  // Bot Commands
+  getAllBotCommands(): Promise<BotCommand[]>;
+  getActiveBotCommands(): Promise<BotCommand[]>;
+  getBotCommand(id: string): Promise<BotCommand | undefined>;
+  getBotCommandByCommand(command: string): Promise<BotCommand | undefined>;
+  createBotCommand(command: InsertBotCommand): Promise<BotCommand>;
+  updateBotCommand(id: string, updates: Partial<InsertBotCommand>): Promise<BotCommand | undefined>;
+  deleteBotCommand(id: string): Promise<boolean>;
+  
+  // Support Tickets
+  getSupportTickets(filters?: { status?: SupportTicket['status']; assignedToId?: string | null }): Promise<SupportTicketWithDetails[]>;
+  getSupportTicket(id: string): Promise<SupportTicketWithDetails | undefined>;
+  getOpenSupportTicket(userId: string): Promise<SupportTicket | undefined>;
+  openSupportTicket(userId: string, chatId: string): Promise<SupportTicket>;
+  setSupportTicketStatus(id: string, status: SupportTicket['status']): Promise<SupportTicket | undefined>;
+  assignSupportTicket(id: string, adminUserId: string | null): Promise<SupportTicket | undefined>;
+  getSupportMessages(ticketId: string): Promise<SupportMessage[]>;
+  addSupportMessage(message: InsertSupportMessage): Promise<SupportMessage>;
+  markSupportMessageDelivered(id: string): Promise<SupportMessage | undefined>;
+  
   // Analytics
   getDashboardMetrics(): Promise<{
     totalOrders: number;
@@ -114,9 +365,12 @@ export interface IStorage {
   setSystemSetting(setting: InsertSystemSetting): Promise<SystemSetting>;
   updateSystemSetting(key: string, value: string): Promise<SystemSetting | undefined>;
   deleteSystemSetting(key: string): Promise<boolean>;
+  reencryptSystemSettings(): Promise<number>;
   
   // Audit Logs
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filters?: AuditLogFilters): Promise<{ logs: AuditLogWithAdmin[]; total: number }>;
+  countRecentAuditLogs(action: string, ipAddress: string, since: Date): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -157,6 +411,264 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
+  async getAllAdminUsers(): Promise<AdminUser[]> {
+    return await db.select().from(adminUsers).orderBy(adminUsers.name);
+  }
+
+  async getActiveAdminUsers(): Promise<AdminUser[]> {
+    return await db
+      .select()
+      .from(adminUsers)
+      .where(eq(adminUsers.isActive, true))
+      .orderBy(adminUsers.name);
+  }
+
+  async hasAdminUsers(): Promise<boolean> {
+    const [result] = await db.select({ value: count() }).from(adminUsers);
+    return result.value > 0;
+  }
+
+  async createFirstAdminUser(user: InsertAdminUser): Promise<AdminUser | undefined> {
+    return await db.transaction(async (tx) => {
+      // Serialises concurrent bootstrap attempts so only one first admin can be created
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('admin_bootstrap'))`);
+
+      const [existing] = await tx.select({ value: count() }).from(adminUsers);
+      if (existing.value > 0) {
+        return undefined;
+      }
+
+      const [newUser] = await tx
+        .insert(adminUsers)
+        .values({ ...user, role: 'admin' })
+        .returning();
+      return newUser;
+    });
+  }
+
+  async consumeTwoFactorRecoveryCode(id: string, codeHash: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      // Row lock so two logins racing with the same code cannot both use it
+      const [user] = await tx
+        .select({ codes: adminUsers.twoFactorRecoveryCodes })
+        .from(adminUsers)
+        .where(eq(adminUsers.id, id))
+        .for('update');
+      if (!user || !user.codes.includes(codeHash)) {
+        return false;
+      }
+
+      await tx
+        .update(adminUsers)
+        .set({
+          twoFactorRecoveryCodes: user.codes.filter(code => code !== codeHash),
+          updatedAt: sql`now()`
+        })
+        .where(eq(adminUsers.id, id));
+      return true;
+    });
+  }
+
+  async recordFailedLogin(id: string, lockAfter: number, lockMinutes: number): Promise<AdminUser | undefined> {
+    // Single statement so concurrent failures can't lose an increment
+    const [updated] = await db
+      .update(adminUsers)
+      .set({
+        failedLoginAttempts: sql`${adminUsers.failedLoginAttempts} + 1`,
+        lockedUntil: sql`CASE WHEN ${adminUsers.failedLoginAttempts} + 1 >= ${lockAfter}
+          THEN now() + make_interval(mins => ${lockMinutes}) ELSE ${adminUsers.lockedUntil} END`,
+        updatedAt: sql`now()`
+      })
+      .where(eq(adminUsers.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async resetFailedLogins(id: string): Promise<AdminUser | undefined> {
+    const [updated] = await db
+      .update(adminUsers)
+      .set({ failedLoginAttempts: 0, lockedUntil: null, updatedAt: sql`now()` })
+      .where(eq(adminUsers.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Dashboard Sessions
+  // Sessions are stored by connect-pg-simple; passport keeps the user id under sess.passport.user
+  async getAdminUserSessions(adminUserId: string): Promise<StoredSession[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(sessionOwnedBy(adminUserId), gt(sessions.expire, sql`now()`)))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteAdminUserSession(adminUserId: string, sid: string): Promise<boolean> {
+    const result = await db
+      .delete(sessions)
+      .where(and(eq(sessions.sid, sid), sessionOwnedBy(adminUserId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteAdminUserSessions(adminUserId: string, exceptSid?: string): Promise<number> {
+    const result = await db
+      .delete(sessions)
+      .where(exceptSid ? and(sessionOwnedBy(adminUserId), ne(sessions.sid, exceptSid)) : sessionOwnedBy(adminUserId));
+    return result.rowCount ?? 0;
+  }
+
+  // Admin Invitations
+  async createAdminInvitation(invitation: InsertAdminInvitation): Promise<AdminInvitation> {
+    return await db.transaction(async (tx) => {
+      // Re-inviting someone invalidates any link they were sent before
+      await tx
+        .update(adminInvitations)
+        .set({ revokedAt: sql`now()` })
+        .where(and(
+          eq(adminInvitations.email, invitation.email),
+          isNull(adminInvitations.acceptedAt),
+          isNull(adminInvitations.revokedAt)
+        ));
+
+      const [newInvitation] = await tx
+        .insert(adminInvitations)
+        .values(invitation)
+        .returning();
+      return newInvitation;
+    });
+  }
+
+  async getPendingAdminInvitations(): Promise<AdminInvitation[]> {
+    return await db
+      .select()
+      .from(adminInvitations)
+      .where(and(
+        isNull(adminInvitations.acceptedAt),
+        isNull(adminInvitations.revokedAt),
+        gte(adminInvitations.expiresAt, sql`now()`)
+      ))
+      .orderBy(desc(adminInvitations.createdAt));
+  }
+
+  async getValidAdminInvitation(tokenHash: string): Promise<AdminInvitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(adminInvitations)
+      .where(and(
+        eq(adminInvitations.tokenHash, tokenHash),
+        isNull(adminInvitations.acceptedAt),
+        isNull(adminInvitations.revokedAt),
+        gte(adminInvitations.expiresAt, sql`now()`)
+      ));
+    return invitation || undefined;
+  }
+
+  async revokeAdminInvitation(id: string): Promise<boolean> {
+    const result = await db
+      .update(adminInvitations)
+      .set({ revokedAt: sql`now()` })
+      .where(and(
+        eq(adminInvitations.id, id),
+        isNull(adminInvitations.acceptedAt),
+        isNull(adminInvitations.revokedAt)
+      ));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async acceptAdminInvitation(tokenHash: string, user: { name: string; password: string }): Promise<AdminUser | undefined> {
+    return await db.transaction(async (tx) => {
+      // Claiming the invitation and creating the account together keeps the token single-use
+      const [invitation] = await tx
+        .update(adminInvitations)
+        .set({ acceptedAt: sql`now()` })
+        .where(and(
+          eq(adminInvitations.tokenHash, tokenHash),
+          isNull(adminInvitations.acceptedAt),
+          isNull(adminInvitations.revokedAt),
+          gte(adminInvitations.expiresAt, sql`now()`)
+        ))
+        .returning();
+      if (!invitation) {
+        return undefined;
+      }
+
+      const [newUser] = await tx
+        .insert(adminUsers)
+        .values({
+          email: invitation.email,
+          name: user.name,
+          password: user.password,
+          role: invitation.role,
+          mustChangePassword: false
+        })
+        .returning();
+      return newUser;
+    });
+  }
+
+  // Password Resets
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    return await db.transaction(async (tx) => {
+      // Only the most recent link works
+      await tx
+        .delete(passwordResetTokens)
+        .where(and(
+          eq(passwordResetTokens.adminUserId, token.adminUserId),
+          isNull(passwordResetTokens.usedAt)
+        ));
+
+      const [newToken] = await tx
+        .insert(passwordResetTokens)
+        .values(token)
+        .returning();
+      return newToken;
+    });
+  }
+
+  async getValidPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gte(passwordResetTokens.expiresAt, sql`now()`)
+      ));
+    return token || undefined;
+  }
+
+  async resetPasswordWithToken(tokenHash: string, password: string): Promise<AdminUser | undefined> {
+    return await db.transaction(async (tx) => {
+      // Claiming the token and changing the password together keeps the link single-use
+      const [token] = await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: sql`now()` })
+        .where(and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gte(passwordResetTokens.expiresAt, sql`now()`)
+        ))
+        .returning();
+      if (!token) {
+        return undefined;
+      }
+
+      // A successful reset also clears a lockout caused by the forgotten password
+      const [updated] = await tx
+        .update(adminUsers)
+        .set({
+          password,
+          mustChangePassword: false,
+          failedLoginAttempts: 0,
+          lockedUntil: null,
+          updatedAt: sql`now()`
+        })
+        .where(eq(adminUsers.id, token.adminUserId))
+        .returning();
+      return updated;
+    });
+  }
+
   // Telegram Users
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -185,8 +697,56 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users).orderBy(desc(users.createdAt));
+  async listCustomers(filters: CustomerListFilters = {}): Promise<Paginated<CustomerWithStats>> {
+    const { field, direction } = CUSTOMER_SORTS[filters.sort ?? 'recent'];
+    const conditions = dateRange(users.createdAt, filters);
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(users.firstName, pattern),
+        ilike(users.lastName, pattern),
+        ilike(users.username, pattern),
+        ilike(users.phone, pattern),
+        ilike(users.telegramId, pattern)
+      )!);
+    }
+    const where = conditions.length ? and(...conditions) : undefined;
+    const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+
+    const rows = await db
+      .select()
+      .from(users)
+      .where(and(where, filters.cursor ? afterCursor(users, users[field], users.id, direction, filters.cursor) : undefined))
+      .orderBy(...keysetOrder(users[field], users.id, direction))
+      .limit(limit + 1);
+    const [{ total }] = await db.select({ total: count() }).from(users).where(where);
+
+    // Order totals for just the customers on this page
+    const stats = rows.length === 0 ? [] : await db
+      .select({
+        userId: orders.userId,
+        orderCount: count(),
+        totalSpentGhs: sql<string>`coalesce(sum(${orders.totalGhs}) filter (where ${orders.status} = 'PAID'), 0)::text`,
+        // Customers often only share a phone number and address when they check out
+        latestPhone: sql<string | null>`(array_agg(${orders.customerPhone} order by ${orders.createdAt} desc) filter (where ${orders.customerPhone} is not null))[1]`,
+        latestAddress: sql<Record<string, any> | string | null>`(array_agg(${orders.address} order by ${orders.createdAt} desc) filter (where ${orders.address} is not null))[1]`,
+      })
+      .from(orders)
+      .where(inArray(orders.userId, rows.map(user => user.id)))
+      .groupBy(orders.userId);
+    const statsByUser = new Map(stats.map(({ userId, ...userStats }) => [userId, userStats]));
+
+    const customers = rows.map((user): CustomerWithStats => {
+      const userStats = statsByUser.get(user.id);
+      return {
+        ...user,
+        orderCount: userStats?.orderCount ?? 0,
+        totalSpentGhs: userStats?.totalSpentGhs ?? '0',
+        latestPhone: user.phone ?? userStats?.latestPhone ?? null,
+        latestAddress: userStats?.latestAddress ?? null,
+      };
+    });
+    return toPage(customers, limit, total);
   }
 
   // Categories
@@ -194,6 +754,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(categories).where(eq(categories.isActive, true));
   }
 
+  async getCategory(id: string): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    return category || undefined;
+  }
+
   async createCategory(category: InsertCategory): Promise<Category> {
     const [newCategory] = await db
       .insert(categories)
@@ -224,6 +789,37 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(products).orderBy(desc(products.createdAt));
   }
 
+  async listProducts(filters: ProductListFilters = {}): Promise<Paginated<Product>> {
+    const { field, direction } = PRODUCT_SORTS[filters.sort ?? 'recent'];
+    const conditions = dateRange(products.createdAt, filters);
+    if (filters.categoryId) {
+      conditions.push(eq(products.categoryId, filters.categoryId));
+    }
+    if (filters.status === 'active') {
+      conditions.push(eq(products.isActive, true), gt(products.stock, 0));
+    } else if (filters.status === 'draft') {
+      conditions.push(eq(products.isActive, false));
+    } else if (filters.status === 'out-of-stock') {
+      conditions.push(eq(products.stock, 0));
+    }
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(ilike(products.title, pattern), ilike(products.sku, pattern))!);
+    }
+    const where = conditions.length ? and(...conditions) : undefined;
+    const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+
+    const rows = await db
+      .select()
+      .from(products)
+      .where(and(where, filters.cursor ? afterCursor(products, products[field], products.id, direction, filters.cursor) : undefined))
+      .orderBy(...keysetOrder(products[field], products.id, direction))
+      .limit(limit + 1);
+    const [{ total }] = await db.select({ total: count() }).from(products).where(where);
+
+    return toPage(rows, limit, total);
+  }
+
   async getProduct(id: string): Promise<Product | undefined> {
     const [product] = await db.select().from(products).where(eq(products.id, id));
     return product || undefined;
@@ -263,12 +859,37 @@ export class DatabaseStorage implements IStorage {
 
   async updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product | undefined> {
     const updateData: any = { ...updates, updatedAt: sql`now()` };
-    const [updated] = await db
-      .update(products)
-      .set(updateData)
-      .where(eq(products.id, id))
-      .returning();
-    return updated || undefined;
+    if (updates.stock === undefined) {
+      const [updated] = await db
+        .update(products)
+        .set(updateData)
+        .where(eq(products.id, id))
+        .returning();
+      return updated || undefined;
+    }
+
+    // Manual stock edits go through the ledger like every other stock change
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(products).where(eq(products.id, id)).for('update');
+      if (!existing) {
+        return undefined;
+      }
+      const [updated] = await tx
+        .update(products)
+        .set(updateData)
+        .where(eq(products.id, id))
+        .returning();
+      if (updated.stock !== existing.stock) {
+        await tx.insert(stockMovements).values({
+          productId: id,
+          type: 'ADJUST',
+          quantity: updated.stock - existing.stock,
+          stockAfter: updated.stock,
+          reason: 'Product updated',
+        });
+      }
+      return updated;
+    });
   }
 
   async deleteProduct(id: string): Promise<boolean> {
@@ -279,20 +900,204 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount! > 0;
   }
 
-  async updateProductStock(id: string, quantity: number): Promise<Product | undefined> {
+  async updateProductStock(id: string, quantity: number, reason: string = 'Manual adjustment'): Promise<Product | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(products)
+        .set({ stock: sql`${products.stock} + ${quantity}`, updatedAt: new Date() })
+        .where(eq(products.id, id))
+        .returning();
+      if (!updated) {
+        return undefined;
+      }
+      await tx.insert(stockMovements).values({
+        productId: id,
+        type: 'ADJUST',
+        quantity,
+        stockAfter: updated.stock,
+        reason,
+      });
+      return updated;
+    });
+  }
+
+  async getStockMovements(productId: string): Promise<StockMovement[]> {
+    return await db
+      .select()
+      .from(stockMovements)
+      .where(eq(stockMovements.productId, productId))
+      .orderBy(desc(stockMovements.createdAt));
+  }
+
+  // Carts
+  async getOrCreateCart(userId: string): Promise<Cart> {
+    const [existing] = await db.select().from(carts).where(eq(carts.userId, userId));
+    if (existing) {
+      return existing;
+    }
+
+    const [newCart] = await db
+      .insert(carts)
+      .values({ userId })
+      .onConflictDoNothing({ target: carts.userId })
+      .returning();
+    if (newCart) {
+      return newCart;
+    }
+
+    // Another request created the cart concurrently
+    const [cart] = await db.select().from(carts).where(eq(carts.userId, userId));
+    return cart;
+  }
+
+  async getCartItems(userId: string): Promise<CartItemWithProduct[]> {
+    const rows = await db
+      .select({ item: cartItems, product: products })
+      .from(cartItems)
+      .innerJoin(carts, eq(cartItems.cartId, carts.id))
+      .innerJoin(products, eq(cartItems.productId, products.id))
+      .where(eq(carts.userId, userId))
+      .orderBy(cartItems.createdAt);
+    return rows.map(({ item, product }) => ({ ...item, product }));
+  }
+
+  async getCartItem(id: string): Promise<CartItem | undefined> {
+    const [item] = await db.select().from(cartItems).where(eq(cartItems.id, id));
+    return item || undefined;
+  }
+
+  async addCartItem(userId: string, productId: string, quantity: number): Promise<CartItem> {
+    const cart = await this.getOrCreateCart(userId);
+    const [item] = await db
+      .insert(cartItems)
+      .values({ cartId: cart.id, productId, quantity })
+      .onConflictDoUpdate({
+        target: [cartItems.cartId, cartItems.productId],
+        set: { quantity: sql`${cartItems.quantity} + ${quantity}`, updatedAt: sql`now()` },
+      })
+      .returning();
+    await db.update(carts).set({ updatedAt: sql`now()` }).where(eq(carts.id, cart.id));
+    return item;
+  }
+
+  async updateCartItemQuantity(id: string, quantity: number): Promise<CartItem | undefined> {
     const [updated] = await db
-      .update(products)
-      .set({ stock: sql`${products.stock} + ${quantity}`, updatedAt: new Date() })
-      .where(eq(products.id, id))
+      .update(cartItems)
+      .set({ quantity, updatedAt: sql`now()` })
+      .where(eq(cartItems.id, id))
       .returning();
     return updated || undefined;
   }
 
+  async removeCartItem(id: string): Promise<boolean> {
+    const result = await db.delete(cartItems).where(eq(cartItems.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async clearCart(userId: string): Promise<boolean> {
+    const [cart] = await db.select().from(carts).where(eq(carts.userId, userId));
+    if (!cart) {
+      return false;
+    }
+    const result = await db.delete(cartItems).where(eq(cartItems.cartId, cart.id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Checkout Sessions
+  async getCheckoutSession(chatId: string): Promise<CheckoutSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(checkoutSessions)
+      .where(and(eq(checkoutSessions.chatId, chatId), gte(checkoutSessions.expiresAt, sql`now()`)));
+    return session || undefined;
+  }
+
+  async saveCheckoutSession(session: InsertCheckoutSession): Promise<CheckoutSession> {
+    const [saved] = await db
+      .insert(checkoutSessions)
+      .values(session)
+      .onConflictDoUpdate({
+        target: checkoutSessions.chatId,
+        set: {
+          userId: session.userId,
+          step: session.step,
+          data: session.data,
+          expiresAt: session.expiresAt,
+          updatedAt: sql`now()`,
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteCheckoutSession(chatId: string): Promise<boolean> {
+    const result = await db.delete(checkoutSessions).where(eq(checkoutSessions.chatId, chatId));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Deletes the session if it's live and at `step`, returning it; only one caller can get it back
+  async claimCheckoutSession(chatId: string, step: string): Promise<CheckoutSession | undefined> {
+    const [session] = await db
+      .delete(checkoutSessions)
+      .where(and(
+        eq(checkoutSessions.chatId, chatId),
+        eq(checkoutSessions.step, step),
+        gte(checkoutSessions.expiresAt, sql`now()`)
+      ))
+      .returning();
+    return session || undefined;
+  }
+
+  async deleteExpiredCheckoutSessions(): Promise<number> {
+    const result = await db.delete(checkoutSessions).where(lt(checkoutSessions.expiresAt, sql`now()`));
+    return result.rowCount ?? 0;
+  }
+
   // Orders
   async getAllOrders(): Promise<Order[]> {
     return await db.select().from(orders).orderBy(desc(orders.createdAt));
   }
 
+  async listOrders(filters: OrderListFilters = {}): Promise<Paginated<Order>> {
+    const { field, direction } = ORDER_SORTS[filters.sort ?? 'recent'];
+    const conditions = dateRange(orders.createdAt, filters);
+    if (filters.status) {
+      conditions.push(eq(orders.status, filters.status));
+    }
+    if (filters.userId) {
+      conditions.push(eq(orders.userId, filters.userId));
+    }
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(ilike(orders.orderNumber, pattern), ilike(orders.customerPhone, pattern))!);
+    }
+    const where = conditions.length ? and(...conditions) : undefined;
+    const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+
+    const rows = await db
+      .select()
+      .from(orders)
+      .where(and(where, filters.cursor ? afterCursor(orders, orders[field], orders.id, direction, filters.cursor) : undefined))
+      .orderBy(...keysetOrder(orders[field], orders.id, direction))
+      .limit(limit + 1);
+    const [{ total }] = await db.select({ total: count() }).from(orders).where(where);
+
+    return toPage(rows, limit, total);
+  }
+
+  async getOrderStatusSummary(from?: Date): Promise<StatusSummary> {
+    const rows = await db
+      .select({
+        status: orders.status,
+        count: count(),
+        amountGhs: sql<string>`coalesce(sum(${orders.totalGhs}), 0)::text`,
+      })
+      .from(orders)
+      .where(from ? gte(orders.createdAt, from) : undefined)
+      .groupBy(orders.status);
+    return toStatusSummary(rows);
+  }
+
   async getOrder(id: string): Promise<Order | undefined> {
     const [order] = await db.select().from(orders).where(eq(orders.id, id));
     return order || undefined;
@@ -315,6 +1120,134 @@ export class DatabaseStorage implements IStorage {
     return newOrder;
   }
 
+  async createOrderWithItems(order: InsertOrder, items: Omit<InsertOrderItem, 'orderId'>[]): Promise<Order> {
+    const orderNumber = await this.generateOrderNumber();
+
+    return await db.transaction(async (tx) => {
+      const [newOrder] = await tx
+        .insert(orders)
+        .values({ ...order, orderNumber, stockStatus: 'RESERVED', couponRedeemedAt: order.couponId ? sql`now()` : null })
+        .returning();
+
+      // The order takes one of the coupon's uses until it's paid or released; conditional so
+      // orders placed at the same time can't take a coupon past its limit
+      if (order.couponId) {
+        const [coupon] = await tx
+          .update(coupons)
+          .set({ usedCount: sql`${coupons.usedCount} + 1`, updatedAt: sql`now()` })
+          .where(and(
+            eq(coupons.id, order.couponId),
+            or(isNull(coupons.maxUses), lt(coupons.usedCount, coupons.maxUses))
+          ))
+          .returning();
+        if (!coupon) {
+          throw new CouponUsageLimitError(order.couponId);
+        }
+      }
+
+      // Lock products in a stable order so concurrent checkouts can't deadlock
+      const sortedItems = [...items].sort((a, b) => a.productId.localeCompare(b.productId));
+      for (const item of sortedItems) {
+        const [product] = await tx
+          .update(products)
+          .set({ stock: sql`${products.stock} - ${item.quantity}`, updatedAt: sql`now()` })
+          .where(and(eq(products.id, item.productId), gte(products.stock, item.quantity)))
+          .returning();
+        if (!product) {
+          throw new InsufficientStockError(item.productId, item.quantity);
+        }
+
+        await tx.insert(orderItems).values({ ...item, orderId: newOrder.id });
+        await tx.insert(stockMovements).values({
+          productId: item.productId,
+          orderId: newOrder.id,
+          type: 'RESERVE',
+          quantity: -item.quantity,
+          stockAfter: product.stock,
+          reason: `Reserved for order ${orderNumber}`,
+        });
+      }
+
+      return newOrder;
+    });
+  }
+
+  async commitOrderStock(orderId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      // Only the caller that flips RESERVED -> COMMITTED records the movement
+      const [order] = await tx
+        .update(orders)
+        .set({ stockStatus: 'COMMITTED', updatedAt: sql`now()` })
+        .where(and(eq(orders.id, orderId), eq(orders.stockStatus, 'RESERVED')))
+        .returning();
+      if (!order) {
+        return false;
+      }
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      for (const item of items) {
+        const [product] = await tx.select().from(products).where(eq(products.id, item.productId));
+        await tx.insert(stockMovements).values({
+          productId: item.productId,
+          orderId,
+          type: 'COMMIT',
+          quantity: 0,
+          stockAfter: product.stock,
+          reason: `Payment confirmed for order ${order.orderNumber}`,
+        });
+      }
+      return true;
+    });
+  }
+
+  async releaseOrderStock(orderId: string, reason: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      // Only the caller that flips RESERVED -> RELEASED returns the units and the coupon use
+      const [order] = await tx
+        .update(orders)
+        .set({ stockStatus: 'RELEASED', updatedAt: sql`now()` })
+        .where(and(eq(orders.id, orderId), eq(orders.stockStatus, 'RESERVED')))
+        .returning();
+      if (!order) {
+        return false;
+      }
+
+      // The coupon use taken at checkout goes back with the stock
+      if (order.couponId && order.couponRedeemedAt) {
+        await tx
+          .update(orders)
+          .set({ couponRedeemedAt: null })
+          .where(eq(orders.id, orderId));
+        await tx
+          .update(coupons)
+          .set({ usedCount: sql`greatest(${coupons.usedCount} - 1, 0)`, updatedAt: sql`now()` })
+          .where(eq(coupons.id, order.couponId));
+      }
+
+      const items = await tx
+        .select()
+        .from(orderItems)
+        .where(eq(orderItems.orderId, orderId))
+        .orderBy(asc(orderItems.productId));
+      for (const item of items) {
+        const [product] = await tx
+          .update(products)
+          .set({ stock: sql`${products.stock} + ${item.quantity}`, updatedAt: sql`now()` })
+          .where(eq(products.id, item.productId))
+          .returning();
+        await tx.insert(stockMovements).values({
+          productId: item.productId,
+          orderId,
+          type: 'RELEASE',
+          quantity: item.quantity,
+          stockAfter: product.stock,
+          reason: `${reason} (order ${order.orderNumber})`,
+        });
+      }
+      return true;
+    });
+  }
+
   async updateOrder(id: string, updates: Partial<InsertOrder>): Promise<Order | undefined> {
     const [updated] = await db
       .update(orders)
@@ -324,6 +1257,49 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
+  async markOrderRefundDue(id: string): Promise<Order | undefined> {
+    const [updated] = await db
+      .update(orders)
+      .set({ refundDueAt: sql`now()`, updatedAt: sql`now()` })
+      .where(and(eq(orders.id, id), isNull(orders.refundDueAt)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async transitionOrderStatus(
+    id: string,
+    from: Order['status'],
+    entry: Omit<InsertOrderStatusHistory, 'orderId' | 'fromStatus'>
+  ): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => {
+      // Undefined when the order is no longer in `from`, i.e. someone else moved it first
+      const [updated] = await tx
+        .update(orders)
+        .set({ status: entry.toStatus, updatedAt: sql`now()` })
+        .where(and(eq(orders.id, id), eq(orders.status, from)))
+        .returning();
+      if (!updated) {
+        return undefined;
+      }
+
+      await tx.insert(orderStatusHistory).values({ ...entry, orderId: id, fromStatus: from });
+      return updated;
+    });
+  }
+
+  async getOrderStatusHistory(orderId: string): Promise<OrderStatusHistoryWithAdmin[]> {
+    const rows = await db
+      .select({
+        entry: orderStatusHistory,
+        adminUser: { id: adminUsers.id, name: adminUsers.name, email: adminUsers.email },
+      })
+      .from(orderStatusHistory)
+      .leftJoin(adminUsers, eq(orderStatusHistory.adminUserId, adminUsers.id))
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(asc(orderStatusHistory.createdAt));
+    return rows.map(({ entry, adminUser }) => ({ ...entry, adminUser }));
+  }
+
   async generateOrderNumber(): Promise<string> {
     const now = new Date();
     const year = now.getFullYear();
@@ -358,8 +1334,45 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Payments
-  async getAllPayments(): Promise<Payment[]> {
-    return await db.select().from(payments).orderBy(desc(payments.createdAt));
+  async listPayments(filters: PaymentListFilters = {}): Promise<Paginated<Payment>> {
+    const { field, direction } = PAYMENT_SORTS[filters.sort ?? 'recent'];
+    const conditions = dateRange(payments.createdAt, filters);
+    if (filters.status) {
+      conditions.push(eq(payments.status, filters.status));
+    }
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(payments.externalId, pattern),
+        ilike(payments.providerReference, pattern),
+        ilike(payments.customerPhone, pattern)
+      )!);
+    }
+    const where = conditions.length ? and(...conditions) : undefined;
+    const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+
+    const rows = await db
+      .select()
+      .from(payments)
+      .where(and(where, filters.cursor ? afterCursor(payments, payments[field], payments.id, direction, filters.cursor) : undefined))
+      .orderBy(...keysetOrder(payments[field], payments.id, direction))
+      .limit(limit + 1);
+    const [{ total }] = await db.select({ total: count() }).from(payments).where(where);
+
+    return toPage(rows, limit, total);
+  }
+
+  async getPaymentStatusSummary(from?: Date): Promise<StatusSummary> {
+    const rows = await db
+      .select({
+        status: payments.status,
+        count: count(),
+        amountGhs: sql<string>`coalesce(sum(${payments.amountGhs}), 0)::text`,
+      })
+      .from(payments)
+      .where(from ? gte(payments.createdAt, from) : undefined)
+      .groupBy(payments.status);
+    return toStatusSummary(rows);
   }
 
   async getPayment(id: string): Promise<Payment | undefined> {
@@ -372,15 +1385,38 @@ export class DatabaseStorage implements IStorage {
     return payment || undefined;
   }
 
+  async getPaymentByProviderReference(reference: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.providerReference, reference));
+    return payment || undefined;
+  }
+
+  // External ids are not unique in the schema, so prefer the most recent payment
+  async getPaymentByExternalId(externalId: string): Promise<Payment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(eq(payments.externalId, externalId))
+      .orderBy(desc(payments.createdAt))
+      .limit(1);
+    return payment || undefined;
+  }
+
   async getPaymentsByOrderId(orderId: string): Promise<Payment[]> {
     return await db.select().from(payments).where(eq(payments.orderId, orderId));
   }
 
-  async getPendingPayments(): Promise<Payment[]> {
+  async getPendingPayments(provider?: string): Promise<Payment[]> {
     return await db
       .select()
       .from(payments)
-      .where(eq(payments.status, 'PENDING'));
+      .where(and(
+        // Timed out payments come back only while a reported success waits to be confirmed
+        or(
+          eq(payments.status, 'PENDING'),
+          and(eq(payments.status, 'TIMEOUT'), isNotNull(payments.verificationQueuedAt))
+        ),
+        provider ? eq(payments.provider, provider) : undefined
+      ));
   }
 
   async createPayment(payment: InsertPayment): Promise<Payment> {
@@ -400,6 +1436,120 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
+  // Like updatePayment, but only while the payment is still in `from`
+  async transitionPayment(id: string, from: Payment['status'], updates: Partial<InsertPayment>): Promise<Payment | undefined> {
+    const [updated] = await db
+      .update(payments)
+      .set({ ...updates, updatedAt: sql`now()` })
+      .where(and(eq(payments.id, id), eq(payments.status, from)))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Payment Callbacks
+  // False when the nonce was already used, i.e. the callback is a replay
+  async claimWebhookNonce(provider: string, nonce: string, expiresAt: Date): Promise<boolean> {
+    const [claimed] = await db
+      .insert(webhookNonces)
+      .values({ provider, nonce, expiresAt })
+      .onConflictDoNothing()
+      .returning();
+    return !!claimed;
+  }
+
+  async deleteExpiredWebhookNonces(): Promise<number> {
+    const result = await db.delete(webhookNonces).where(lt(webhookNonces.expiresAt, sql`now()`));
+    return result.rowCount ?? 0;
+  }
+
+  async createRejectedCallback(callback: InsertRejectedCallback): Promise<RejectedCallback> {
+    const [rejected] = await db
+      .insert(rejectedCallbacks)
+      .values(callback)
+      .returning();
+    return rejected;
+  }
+
+  async getRejectedCallbacks(limit: number = 50): Promise<RejectedCallback[]> {
+    return await db
+      .select()
+      .from(rejectedCallbacks)
+      .orderBy(desc(rejectedCallbacks.createdAt))
+      .limit(limit);
+  }
+
+  // Refunds
+  async getRefund(id: string): Promise<Refund | undefined> {
+    const [refund] = await db.select().from(refunds).where(eq(refunds.id, id));
+    return refund || undefined;
+  }
+
+  async getRefundsByOrderId(orderId: string): Promise<Refund[]> {
+    return await db
+      .select()
+      .from(refunds)
+      .where(eq(refunds.orderId, orderId))
+      .orderBy(desc(refunds.createdAt));
+  }
+
+  async getPendingRefunds(): Promise<Refund[]> {
+    return await db
+      .select()
+      .from(refunds)
+      .where(eq(refunds.status, 'PENDING'));
+  }
+
+  async getRefundTotals(paymentId: string): Promise<{ refundedGhs: string; pendingGhs: string }> {
+    const [totals] = await db
+      .select({
+        refundedGhs: sql<string>`coalesce(sum(${refunds.amountGhs}) filter (where ${refunds.status} = 'SUCCESS'), 0)::numeric(10,2)::text`,
+        pendingGhs: sql<string>`coalesce(sum(${refunds.amountGhs}) filter (where ${refunds.status} = 'PENDING'), 0)::numeric(10,2)::text`,
+      })
+      .from(refunds)
+      .where(eq(refunds.paymentId, paymentId));
+    return totals;
+  }
+
+  // Undefined when, together with the refunds not yet failed, it would return more than was paid
+  async createRefund(refund: InsertRefund): Promise<Refund | undefined> {
+    return await db.transaction(async (tx) => {
+      // Row lock so two refunds issued at once can't both fit under the payment amount
+      const [payment] = await tx
+        .select({ amountGhs: payments.amountGhs })
+        .from(payments)
+        .where(eq(payments.id, refund.paymentId))
+        .for('update');
+      if (!payment) {
+        return undefined;
+      }
+
+      const [committed] = await tx
+        .select({ amountGhs: sql<string>`coalesce(sum(${refunds.amountGhs}), 0)::text` })
+        .from(refunds)
+        .where(and(eq(refunds.paymentId, refund.paymentId), ne(refunds.status, 'FAILED')));
+      const toPesewas = (amount: string) => Math.round(parseFloat(amount) * 100);
+      if (toPesewas(committed.amountGhs) + toPesewas(refund.amountGhs) > toPesewas(payment.amountGhs)) {
+        return undefined;
+      }
+
+      const [created] = await tx
+        .insert(refunds)
+        .values(refund)
+        .returning();
+      return created;
+    });
+  }
+
+  // Like transitionPayment, only while the refund is still in `from`
+  async transitionRefund(id: string, from: Refund['status'], updates: Partial<InsertRefund>): Promise<Refund | undefined> {
+    const [updated] = await db
+      .update(refunds)
+      .set({ ...updates, updatedAt: sql`now()` })
+      .where(and(eq(refunds.id, id), eq(refunds.status, from)))
+      .returning();
+    return updated || undefined;
+  }
+
   // Coupons
   async getAllCoupons(): Promise<Coupon[]> {
     return await db.select().from(coupons).orderBy(desc(coupons.createdAt));
@@ -440,6 +1590,177 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount! > 0;
   }
 
+  // Bot Commands
+  async getAllBotCommands(): Promise<BotCommand[]> {
+    return await db.select().from(botCommands).orderBy(botCommands.command);
+  }
+
+  async getActiveBotCommands(): Promise<BotCommand[]> {
+    return await db
+      .select()
+      .from(botCommands)
+      .where(eq(botCommands.isActive, true))
+      .orderBy(botCommands.command);
+  }
+
+  async getBotCommand(id: string): Promise<BotCommand | undefined> {
+    const [command] = await db.select().from(botCommands).where(eq(botCommands.id, id));
+    return command || undefined;
+  }
+
+  async getBotCommandByCommand(command: string): Promise<BotCommand | undefined> {
+    const [botCommand] = await db.select().from(botCommands).where(eq(botCommands.command, command));
+    return botCommand || undefined;
+  }
+
+  async createBotCommand(command: InsertBotCommand): Promise<BotCommand> {
+    const [newCommand] = await db
+      .insert(botCommands)
+      .values(command)
+      .returning();
+    return newCommand;
+  }
+
+  async updateBotCommand(id: string, updates: Partial<InsertBotCommand>): Promise<BotCommand | undefined> {
+    const [updated] = await db
+      .update(botCommands)
+      .set({ ...updates, updatedAt: sql`now()` })
+      .where(eq(botCommands.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteBotCommand(id: string): Promise<boolean> {
+    // Hard delete: the dashboard already has an Active switch for disabling commands
+    const result = await db.delete(botCommands).where(eq(botCommands.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Support Tickets
+  private supportTicketQuery() {
+    return db
+      .select({
+        ticket: supportTickets,
+        user: users,
+        assignedTo: { id: adminUsers.id, name: adminUsers.name, email: adminUsers.email },
+      })
+      .from(supportTickets)
+      .innerJoin(users, eq(supportTickets.userId, users.id))
+      .leftJoin(adminUsers, eq(supportTickets.assignedToId, adminUsers.id));
+  }
+
+  async getSupportTickets(filters: { status?: SupportTicket['status']; assignedToId?: string | null } = {}): Promise<SupportTicketWithDetails[]> {
+    // Tickets only show up in the inbox once the customer has actually written something
+    const conditions = [isNotNull(supportTickets.lastMessageAt)];
+    if (filters.status) {
+      conditions.push(eq(supportTickets.status, filters.status));
+    }
+    if (filters.assignedToId === null) {
+      conditions.push(isNull(supportTickets.assignedToId));
+    } else if (filters.assignedToId) {
+      conditions.push(eq(supportTickets.assignedToId, filters.assignedToId));
+    }
+
+    const rows = await this.supportTicketQuery()
+      .where(and(...conditions))
+      .orderBy(desc(supportTickets.lastMessageAt));
+    return rows.map(({ ticket, user, assignedTo }) => ({ ...ticket, user, assignedTo }));
+  }
+
+  async getSupportTicket(id: string): Promise<SupportTicketWithDetails | undefined> {
+    const [row] = await this.supportTicketQuery().where(eq(supportTickets.id, id));
+    return row ? { ...row.ticket, user: row.user, assignedTo: row.assignedTo } : undefined;
+  }
+
+  async getOpenSupportTicket(userId: string): Promise<SupportTicket | undefined> {
+    const [ticket] = await db
+      .select()
+      .from(supportTickets)
+      .where(and(eq(supportTickets.userId, userId), eq(supportTickets.status, 'OPEN')));
+    return ticket || undefined;
+  }
+
+  async openSupportTicket(userId: string, chatId: string): Promise<SupportTicket> {
+    const existing = await this.getOpenSupportTicket(userId);
+    if (existing) {
+      return existing;
+    }
+
+    const [newTicket] = await db
+      .insert(supportTickets)
+      .values({ userId, chatId })
+      .onConflictDoNothing()
+      .returning();
+    if (newTicket) {
+      return newTicket;
+    }
+
+    // Another request opened a ticket concurrently
+    const ticket = await this.getOpenSupportTicket(userId);
+    return ticket!;
+  }
+
+  async setSupportTicketStatus(id: string, status: SupportTicket['status']): Promise<SupportTicket | undefined> {
+    const [updated] = await db
+      .update(supportTickets)
+      .set({
+        status,
+        closedAt: status === 'CLOSED' ? sql`now()` : null,
+        updatedAt: sql`now()`
+      })
+      .where(eq(supportTickets.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async assignSupportTicket(id: string, adminUserId: string | null): Promise<SupportTicket | undefined> {
+    const [updated] = await db
+      .update(supportTickets)
+      .set({ assignedToId: adminUserId, updatedAt: sql`now()` })
+      .where(eq(supportTickets.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getSupportMessages(ticketId: string): Promise<SupportMessage[]> {
+    return await db
+      .select()
+      .from(supportMessages)
+      .where(eq(supportMessages.ticketId, ticketId))
+      .orderBy(asc(supportMessages.createdAt));
+  }
+
+  async addSupportMessage(message: InsertSupportMessage): Promise<SupportMessage> {
+    return await db.transaction(async (tx) => {
+      const [newMessage] = await tx
+        .insert(supportMessages)
+        .values(message)
+        .returning();
+
+      // The first customer message doubles as the ticket subject in the inbox
+      const subject = message.sender === 'CUSTOMER' ? message.body.trim().slice(0, 100) : null;
+      await tx
+        .update(supportTickets)
+        .set({
+          lastMessageAt: newMessage.createdAt,
+          subject: sql`COALESCE(${supportTickets.subject}, ${subject})`,
+          updatedAt: sql`now()`
+        })
+        .where(eq(supportTickets.id, message.ticketId));
+
+      return newMessage;
+    });
+  }
+
+  async markSupportMessageDelivered(id: string): Promise<SupportMessage | undefined> {
+    const [updated] = await db
+      .update(supportMessages)
+      .set({ deliveredAt: sql`now()` })
+      .where(eq(supportMessages.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
   // Analytics
   async getDashboardMetrics() {
     const [ordersCount] = await db
@@ -474,49 +1795,52 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(systemSettings)
       .where(eq(systemSettings.key, key));
-    return setting;
+    return decryptSetting(setting);
   }
 
   async getAllSystemSettings(): Promise<SystemSetting[]> {
-    return await db
+    const settings = await db
       .select()
       .from(systemSettings)
       .orderBy(systemSettings.key);
+    return settings.map(decryptSetting);
   }
 
   async setSystemSetting(setting: InsertSystemSetting): Promise<SystemSetting> {
     const existing = await this.getSystemSetting(setting.key);
+    const stored = encryptSetting(setting);
     
     if (existing) {
       // Update existing setting
       const [updated] = await db
         .update(systemSettings)
         .set({ 
-          value: setting.value, 
-          description: setting.description,
-          isEncrypted: setting.isEncrypted,
+          value: stored.value, 
+          description: stored.description,
+          isEncrypted: stored.isEncrypted,
           updatedAt: sql`now()`
         })
         .where(eq(systemSettings.key, setting.key))
         .returning();
-      return updated;
+      return decryptSetting(updated);
     } else {
       // Create new setting
       const [newSetting] = await db
         .insert(systemSettings)
-        .values(setting)
+        .values(stored)
         .returning();
-      return newSetting;
+      return decryptSetting(newSetting);
     }
   }
 
   async updateSystemSetting(key: string, value: string): Promise<SystemSetting | undefined> {
+    const stored = encryptSetting({ key, value });
     const [updated] = await db
       .update(systemSettings)
-      .set({ value, updatedAt: sql`now()` })
+      .set({ value: stored.value, isEncrypted: stored.isEncrypted, updatedAt: sql`now()` })
       .where(eq(systemSettings.key, key))
       .returning();
-    return updated;
+    return decryptSetting(updated);
   }
 
   async deleteSystemSetting(key: string): Promise<boolean> {
@@ -526,6 +1850,31 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  // Moves every encrypted setting onto the current master key and encrypts secrets still stored in plaintext
+  async reencryptSystemSettings(): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const settings = await tx.select().from(systemSettings).for('update');
+      let changed = 0;
+      for (const setting of settings) {
+        let value: string | null = null;
+        if (setting.isEncrypted && setting.value && settingEncryption.needsRewrap(setting.value)) {
+          value = settingEncryption.rewrap(setting.value);
+        } else if (!setting.isEncrypted && setting.value != null && settingEncryption.isSecretKey(setting.key)) {
+          value = settingEncryption.encrypt(setting.value);
+        }
+        if (value === null) {
+          continue;
+        }
+        await tx
+          .update(systemSettings)
+          .set({ value, isEncrypted: true, updatedAt: sql`now()` })
+          .where(eq(systemSettings.id, setting.id));
+        changed++;
+      }
+      return changed;
+    });
+  }
+
   // Audit Logs
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
     const [newLog] = await db
@@ -534,6 +1883,69 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return newLog;
   }
+
+  async getAuditLogs(filters: AuditLogFilters = {}): Promise<{ logs: AuditLogWithAdmin[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filters.entityType) {
+      conditions.push(eq(auditLogs.entityType, filters.entityType));
+    }
+    if (filters.entityId) {
+      conditions.push(eq(auditLogs.entityId, filters.entityId));
+    }
+    if (filters.action) {
+      conditions.push(eq(auditLogs.action, filters.action));
+    }
+    if (filters.adminUserId) {
+      conditions.push(eq(auditLogs.adminUserId, filters.adminUserId));
+    }
+    if (filters.from) {
+      conditions.push(gte(auditLogs.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lt(auditLogs.createdAt, filters.to));
+    }
+    if (filters.search) {
+      // Matches order numbers, product names etc. inside the recorded values too
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(auditLogs.entityId, pattern),
+        ilike(auditLogs.action, pattern),
+        sql`${auditLogs.oldValues}::text ilike ${pattern}`,
+        sql`${auditLogs.newValues}::text ilike ${pattern}`
+      )!);
+    }
+    const where = conditions.length ? and(...conditions) : undefined;
+
+    const rows = await db
+      .select({
+        log: auditLogs,
+        adminUser: { id: adminUsers.id, name: adminUsers.name, email: adminUsers.email },
+      })
+      .from(auditLogs)
+      .leftJoin(adminUsers, eq(auditLogs.adminUserId, adminUsers.id))
+      .where(where)
+      .orderBy(desc(auditLogs.createdAt))
+      .limit(filters.limit ?? 50)
+      .offset(filters.offset ?? 0);
+    const [{ total }] = await db.select({ total: count() }).from(auditLogs).where(where);
+
+    return {
+      logs: rows.map(({ log, adminUser }) => ({ ...log, adminUser })),
+      total,
+    };
+  }
+
+  async countRecentAuditLogs(action: string, ipAddress: string, since: Date): Promise<number> {
+    const [result] = await db
+      .select({ value: count() })
+      .from(auditLogs)
+      .where(and(
+        eq(auditLogs.action, action),
+        eq(auditLogs.ipAddress, ipAddress),
+        gte(auditLogs.createdAt, since)
+      ));
+    return result.value;
+  }
 }
 
 export const storage = new DatabaseStorage();
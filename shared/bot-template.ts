@@ -0,0 +1,57 @@
+// Tiny templating language for custom bot command responses.
+// Shared by the bot (real data) and the dashboard (live preview with sample data).
+//
+//   {{firstName}}              -> value, or empty string when missing
+//   {{lastOrder.status}}       -> dotted paths walk nested objects
+//   {{firstName | there}}      -> fallback text when the value is missing
+
+export interface BotTemplateContext {
+  firstName?: string | null;
+  lastName?: string | null;
+  username?: string | null;
+  lastOrder?: {
+    orderNumber: string;
+    status: string;
+    totalGhs: string;
+    createdAt: string;
+  } | null;
+  store?: Record<string, string | null | undefined>;
+}
+
+export const BOT_TEMPLATE_VARIABLES = [
+  'firstName',
+  'lastName',
+  'username',
+  'lastOrder.orderNumber',
+  'lastOrder.status',
+  'lastOrder.totalGhs',
+  'lastOrder.createdAt',
+  'store.name',
+  'store.supportEmail',
+  'store.supportPhone',
+  'store.businessHours',
+];
+
+// Callback actions a custom command button may trigger; all are handled by the bot already
+export const BOT_COMMAND_BUTTON_ACTIONS: Record<string, string> = {
+  browse_categories: 'Browse products',
+  view_cart: 'View cart',
+  checkout: 'Checkout',
+  main_menu: 'Main menu',
+};
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z0-9_.]+)\s*(?:\|\s*([^}]*?)\s*)?\}\}/g;
+
+function lookup(context: Record<string, any>, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), context);
+}
+
+export function renderBotTemplate(template: string, context: BotTemplateContext): string {
+  return template.replace(PLACEHOLDER, (_match, path: string, fallback?: string) => {
+    const value = lookup(context as Record<string, any>, path);
+    if (value === undefined || value === null || value === '' || typeof value === 'object') {
+      return fallback ?? '';
+    }
+    return String(value);
+  });
+}
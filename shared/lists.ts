@@ -0,0 +1,66 @@
+// Paging, sorting and filter options of the dashboard's list endpoints.
+// Shared so each table offers exactly the sorts and statuses the API accepts.
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+// One page of a list; pass `nextCursor` back as `cursor` to fetch the following page
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// Counts and amounts per status, e.g. for the payment metrics and analytics
+export interface StatusSummary {
+  total: number;
+  byStatus: Record<string, { count: number; amountGhs: string }>;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortOption<F extends string = string> {
+  label: string;
+  field: F;
+  direction: SortDirection;
+}
+
+export const ORDER_SORTS = {
+  recent: { label: 'Most Recent', field: 'createdAt', direction: 'desc' },
+  oldest: { label: 'Oldest First', field: 'createdAt', direction: 'asc' },
+  'amount-high': { label: 'Amount High-Low', field: 'totalGhs', direction: 'desc' },
+  'amount-low': { label: 'Amount Low-High', field: 'totalGhs', direction: 'asc' },
+} as const satisfies Record<string, SortOption<'createdAt' | 'totalGhs'>>;
+
+export const PAYMENT_SORTS = {
+  recent: { label: 'Most Recent', field: 'createdAt', direction: 'desc' },
+  oldest: { label: 'Oldest First', field: 'createdAt', direction: 'asc' },
+  'amount-high': { label: 'Amount High-Low', field: 'amountGhs', direction: 'desc' },
+  'amount-low': { label: 'Amount Low-High', field: 'amountGhs', direction: 'asc' },
+} as const satisfies Record<string, SortOption<'createdAt' | 'amountGhs'>>;
+
+export const PRODUCT_SORTS = {
+  recent: { label: 'Recently Added', field: 'createdAt', direction: 'desc' },
+  name: { label: 'Name A-Z', field: 'title', direction: 'asc' },
+  'price-low': { label: 'Price Low-High', field: 'priceGhs', direction: 'asc' },
+  'price-high': { label: 'Price High-Low', field: 'priceGhs', direction: 'desc' },
+  stock: { label: 'Stock Level', field: 'stock', direction: 'asc' },
+} as const satisfies Record<string, SortOption<'createdAt' | 'title' | 'priceGhs' | 'stock'>>;
+
+export const CUSTOMER_SORTS = {
+  recent: { label: 'Newest First', field: 'createdAt', direction: 'desc' },
+  oldest: { label: 'Oldest First', field: 'createdAt', direction: 'asc' },
+} as const satisfies Record<string, SortOption<'createdAt'>>;
+
+export type OrderSort = keyof typeof ORDER_SORTS;
+export type PaymentSort = keyof typeof PAYMENT_SORTS;
+export type ProductSort = keyof typeof PRODUCT_SORTS;
+export type CustomerSort = keyof typeof CUSTOMER_SORTS;
+
+export const PRODUCT_STATUSES = {
+  active: 'Active',
+  draft: 'Draft',
+  'out-of-stock': 'Out of Stock',
+} as const;
+
+export type ProductStatus = keyof typeof PRODUCT_STATUSES;
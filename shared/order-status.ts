@@ -0,0 +1,54 @@
+// Which status an order or payment may move to from its current one.
+// Shared so the API enforces, and the orders page offers, the same transitions.
+import type { Order, OrderStatusHistory, Payment } from './schema';
+
+export type OrderStatus = Order['status'];
+export type PaymentStatus = Payment['status'];
+
+// Who moved an order, as recorded in its status history
+export type OrderStatusActor = OrderStatusHistory['actor'];
+
+// Orders move forward through fulfilment. They can be cancelled until they're paid; after that
+// the customer's money has to go back through a refund (see SYSTEM_ORDER_STATUSES). A cancelled
+// order is only refunded when its payment succeeded anyway; REFUNDED is final.
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  PENDING: ['PAID', 'CANCELLED'],
+  PAID: ['PACKED', 'REFUNDED'],
+  PACKED: ['SHIPPED', 'REFUNDED'],
+  SHIPPED: ['DELIVERED', 'REFUNDED'],
+  DELIVERED: ['REFUNDED'],
+  CANCELLED: ['REFUNDED'],
+  REFUNDED: [],
+};
+
+// Statuses only the system moves an order to: an order is REFUNDED by RefundService once its
+// refunds have been paid out, never by hand
+export const SYSTEM_ORDER_STATUSES: readonly OrderStatus[] = ['REFUNDED'];
+
+// A payment settles once; a late callback can't reopen or flip it. The one exception is a
+// payment we gave up waiting for: if the provider confirms it went through after all, the
+// customer's money was taken and that has to be recorded.
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+  PENDING: ['SUCCESS', 'FAILED', 'TIMEOUT', 'CANCELLED'],
+  SUCCESS: [],
+  FAILED: [],
+  TIMEOUT: ['SUCCESS'],
+  CANCELLED: [],
+};
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+export function isSystemOrderStatus(status: OrderStatus): boolean {
+  return SYSTEM_ORDER_STATUSES.includes(status);
+}
+
+// The statuses staff can move an order to from the orders page
+export function nextOrderStatuses(status: OrderStatus): readonly OrderStatus[] {
+  return ORDER_TRANSITIONS[status].filter(next => !isSystemOrderStatus(next));
+}
+
+export function canTransitionPayment(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[from].includes(to);
+}
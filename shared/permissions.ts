@@ -0,0 +1,54 @@
+// Permission model for the admin dashboard.
+// Shared so the API (route guards) and the React app (sidebar, buttons) agree on what a role may do.
+
+export const PERMISSIONS = {
+  'dashboard:read': 'View dashboard metrics',
+  'analytics:read': 'View analytics',
+  'products:read': 'View products and categories',
+  'products:write': 'Create, edit and delete products and categories',
+  'orders:read': 'View and export orders',
+  'orders:update': 'Change order status and details',
+  'payments:read': 'View payments and reconciliation status',
+  'payments:reconcile': 'Run payment reconciliation',
+  'refunds:issue': 'Issue refunds',
+  'customers:read': 'View customers',
+  'coupons:read': 'View coupons',
+  'coupons:write': 'Create and delete coupons',
+  'bot-commands:write': 'Manage custom bot commands',
+  'support:reply': 'Read and reply to support conversations',
+  'settings:write': 'View and change system settings, including credentials',
+  'users:manage': 'Invite dashboard users and change their roles',
+  'audit:read': 'View the audit log of dashboard changes',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export type Role = 'admin' | 'staff';
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: Object.keys(PERMISSIONS) as Permission[],
+  staff: [
+    'dashboard:read',
+    'analytics:read',
+    'products:read',
+    'products:write',
+    'orders:read',
+    'orders:update',
+    'payments:read',
+    'customers:read',
+    'coupons:read',
+    'support:reply',
+  ],
+};
+
+// Own keys only, so names inherited from Object.prototype ("constructor", "toString") aren't roles
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && Object.hasOwn(ROLE_PERMISSIONS, value);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!isRole(role)) {
+    return false;
+  }
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
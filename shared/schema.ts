@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, decimal, boolean, json, uuid, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, decimal, boolean, json, uuid, pgEnum, unique, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -13,6 +13,24 @@ export const paymentStatusEnum = pgEnum('payment_status', [
   'PENDING', 'SUCCESS', 'FAILED', 'TIMEOUT', 'CANCELLED'
 ]);
 
+export const refundStatusEnum = pgEnum('refund_status', ['PENDING', 'SUCCESS', 'FAILED']);
+
+export const stockReservationStatusEnum = pgEnum('stock_reservation_status', [
+  'NONE', 'RESERVED', 'COMMITTED', 'RELEASED'
+]);
+
+export const stockMovementTypeEnum = pgEnum('stock_movement_type', [
+  'RESERVE', 'COMMIT', 'RELEASE', 'ADJUST'
+]);
+
+export const orderStatusActorEnum = pgEnum('order_status_actor', [
+  'admin', 'webhook', 'reconciliation', 'customer'
+]);
+
+export const supportTicketStatusEnum = pgEnum('support_ticket_status', ['OPEN', 'CLOSED']);
+
+export const supportMessageSenderEnum = pgEnum('support_message_sender', ['CUSTOMER', 'STAFF']);
+
 export const userRoleEnum = pgEnum('user_role', ['admin', 'staff']);
 
 // Admin Users Table
@@ -24,10 +42,52 @@ export const adminUsers = pgTable("admin_users", {
   role: userRoleEnum("role").notNull().default('admin'),
   isActive: boolean("is_active").notNull().default(true),
   mustChangePassword: boolean("must_change_password").notNull().default(false),
+  // TOTP second factor: the secret is stored at enrolment but only trusted once enabledAt is set
+  twoFactorSecret: text("two_factor_secret"),
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"),
+  // SHA-256 hashes of the recovery codes that have not been used yet
+  twoFactorRecoveryCodes: json("two_factor_recovery_codes").$type<string[]>().notNull().default([]),
+  // Consecutive failed logins since the last successful one; too many sets lockedUntil
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Admin Invitations Table (single-use links for joining the dashboard; only the token hash is stored)
+export const adminInvitations = pgTable("admin_invitations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull(),
+  name: text("name").notNull(),
+  role: userRoleEnum("role").notNull().default('staff'),
+  tokenHash: text("token_hash").notNull().unique(),
+  invitedById: uuid("invited_by_id").references(() => adminUsers.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Password Reset Tokens Table (single-use "forgot password" links; only the token hash is stored)
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  adminUserId: uuid("admin_user_id").references(() => adminUsers.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Dashboard sessions, written by connect-pg-simple; declared here so db:push keeps the table
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").$type<StoredSessionData>().notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+  index("IDX_session_user").on(sql`(${table.sess}->'passport'->>'user')`),
+]);
+
 // Telegram Users Table
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -69,6 +129,38 @@ export const products = pgTable("products", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Carts Table (one persistent cart per Telegram user)
+export const carts = pgTable("carts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Cart Items Table
+export const cartItems = pgTable("cart_items", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  cartId: uuid("cart_id").references(() => carts.id, { onDelete: 'cascade' }).notNull(),
+  productId: uuid("product_id").references(() => products.id).notNull(),
+  quantity: integer("quantity").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("cart_items_cart_product_unique").on(table.cartId, table.productId),
+]);
+
+// Checkout Sessions Table (bot checkout conversation state, keyed by Telegram chat)
+export const checkoutSessions = pgTable("checkout_sessions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  chatId: text("chat_id").notNull().unique(),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  step: text("step").notNull(),
+  data: json("data").$type<Record<string, any>>().default({}),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Orders Table
 export const orders = pgTable("orders", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -77,14 +169,28 @@ export const orders = pgTable("orders", {
   status: orderStatusEnum("status").notNull().default('PENDING'),
   totalGhs: decimal("total_ghs", { precision: 10, scale: 2 }).notNull(),
   shippingGhs: decimal("shipping_ghs", { precision: 10, scale: 2 }).notNull().default('10.00'),
+  discountGhs: decimal("discount_ghs", { precision: 10, scale: 2 }).notNull().default('0.00'),
+  couponId: uuid("coupon_id").references(() => coupons.id),
+  // Set while the order holds one of the coupon's uses: from checkout until its stock is released
+  couponRedeemedAt: timestamp("coupon_redeemed_at"),
   address: json("address").$type<Record<string, any>>(),
   deliveryAddress: text("delivery_address"),
   customerPhone: text("customer_phone"),
   notes: text("notes"),
   trackingNumber: text("tracking_number"),
+  // Payment provider the customer pays with, see server/services/payment-provider.ts
+  paymentProvider: text("payment_provider").notNull().default('mtn_momo'),
+  stockStatus: stockReservationStatusEnum("stock_status").notNull().default('NONE'),
+  // Set when a payment succeeded after the order was cancelled, so the customer is owed a refund
+  refundDueAt: timestamp("refund_due_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // The orders table is listed newest first, optionally by status or customer
+  index("orders_created_at_idx").on(table.createdAt),
+  index("orders_status_created_at_idx").on(table.status, table.createdAt),
+  index("orders_user_id_idx").on(table.userId),
+]);
 
 // Order Items Table
 export const orderItems = pgTable("order_items", {
@@ -96,6 +202,32 @@ export const orderItems = pgTable("order_items", {
   variant: json("variant").$type<Record<string, any>>().default({}),
 });
 
+// Stock Movements Table (ledger of every change to products.stock)
+export const stockMovements = pgTable("stock_movements", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: uuid("product_id").references(() => products.id).notNull(),
+  orderId: uuid("order_id").references(() => orders.id),
+  type: stockMovementTypeEnum("type").notNull(),
+  quantity: integer("quantity").notNull(), // signed change applied to products.stock; 0 for COMMIT
+  stockAfter: integer("stock_after").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Order Status History Table (one row per status transition and who made it)
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: uuid("order_id").references(() => orders.id).notNull(),
+  fromStatus: orderStatusEnum("from_status").notNull(),
+  toStatus: orderStatusEnum("to_status").notNull(),
+  actor: orderStatusActorEnum("actor").notNull(),
+  adminUserId: uuid("admin_user_id").references(() => adminUsers.id),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("order_status_history_order_id_idx").on(table.orderId, table.createdAt),
+]);
+
 // Payments Table
 export const payments = pgTable("payments", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -109,11 +241,69 @@ export const payments = pgTable("payments", {
   customerPhone: text("customer_phone").notNull(),
   rawPayload: json("raw_payload").$type<Record<string, any>>().default({}),
   webhookPayload: json("webhook_payload").$type<Record<string, any>>().default({}),
+  // MTN's id for the money movement, confirmed with MTN before a payment counts as SUCCESS
+  financialTransactionId: text("financial_transaction_id"),
+  // Set when a callback reported success but MTN couldn't be reached to confirm it
+  verificationQueuedAt: timestamp("verification_queued_at"),
   idempotencyKey: text("idempotency_key").notNull().unique(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   expiresAt: timestamp("expires_at"),
-});
+}, (table) => [
+  index("payments_created_at_idx").on(table.createdAt),
+  index("payments_status_created_at_idx").on(table.status, table.createdAt),
+  // Provider callbacks identify the payment by either reference
+  index("payments_provider_reference_idx").on(table.providerReference),
+  index("payments_external_id_idx").on(table.externalId),
+]);
+
+// Refunds Table (money sent back for a successful payment, in full or in part)
+export const refunds = pgTable("refunds", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: uuid("order_id").references(() => orders.id).notNull(),
+  paymentId: uuid("payment_id").references(() => payments.id).notNull(),
+  amountGhs: decimal("amount_ghs", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason"),
+  status: refundStatusEnum("status").notNull().default('PENDING'),
+  providerReference: text("provider_reference"),
+  externalId: text("external_id").notNull(),
+  financialTransactionId: text("financial_transaction_id"),
+  failureReason: text("failure_reason"),
+  requestedById: uuid("requested_by_id").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("refunds_order_id_idx").on(table.orderId),
+  // Reconciliation polls the pending ones
+  index("refunds_status_idx").on(table.status),
+]);
+
+// Nonces of accepted payment provider callbacks, kept until their timestamp is too old to replay
+export const webhookNonces = pgTable("webhook_nonces", {
+  provider: text("provider").notNull(),
+  nonce: text("nonce").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("webhook_nonces_provider_nonce_unique").on(table.provider, table.nonce),
+  index("webhook_nonces_expires_at_idx").on(table.expiresAt),
+]);
+
+// Payment provider callbacks that were refused, kept for review
+export const rejectedCallbacks = pgTable("rejected_callbacks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(),
+  reason: text("reason").notNull(),
+  message: text("message").notNull(),
+  paymentId: uuid("payment_id").references(() => payments.id),
+  payload: json("payload").$type<Record<string, any>>().default({}),
+  headers: json("headers").$type<Record<string, any>>().default({}),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("rejected_callbacks_created_at_idx").on(table.createdAt),
+]);
 
 // Coupons Table
 export const coupons = pgTable("coupons", {
@@ -134,16 +324,52 @@ export const coupons = pgTable("coupons", {
 });
 
 // Bot Commands Table
+export interface BotCommandButton {
+  text: string;
+  url?: string;
+  action?: string; // one of BOT_COMMAND_BUTTON_ACTIONS in shared/bot-template.ts
+}
+
 export const botCommands = pgTable("bot_commands", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   command: text("command").notNull().unique(),
   description: text("description").notNull(),
-  response: text("response").notNull(),
+  response: text("response").notNull(), // may contain {{template}} variables
+  buttons: json("buttons").$type<BotCommandButton[]>().default([]),
+  photoUrl: text("photo_url"),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Support Tickets Table (one conversation between a Telegram customer and staff)
+export const supportTickets = pgTable("support_tickets", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  chatId: text("chat_id").notNull(),
+  subject: text("subject"), // first customer message, trimmed
+  status: supportTicketStatusEnum("status").notNull().default('OPEN'),
+  assignedToId: uuid("assigned_to_id").references(() => adminUsers.id),
+  lastMessageAt: timestamp("last_message_at"),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  // A customer has at most one open conversation at a time
+  uniqueIndex("support_tickets_open_user_unique").on(table.userId).where(sql`${table.status} = 'OPEN'`),
+]);
+
+// Support Messages Table
+export const supportMessages = pgTable("support_messages", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  ticketId: uuid("ticket_id").references(() => supportTickets.id, { onDelete: 'cascade' }).notNull(),
+  sender: supportMessageSenderEnum("sender").notNull(),
+  adminUserId: uuid("admin_user_id").references(() => adminUsers.id),
+  body: text("body").notNull(),
+  deliveredAt: timestamp("delivered_at"), // staff replies only; null when Telegram rejected it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // System Settings Table
 export const systemSettings = pgTable("system_settings", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -167,15 +393,38 @@ export const auditLogs = pgTable("audit_logs", {
   ipAddress: text("ip_address"),
   userAgent: text("user_agent"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("audit_logs_entity_idx").on(table.entityType, table.entityId),
+  index("audit_logs_created_at_idx").on(table.createdAt),
+  // Failed logins per IP address are counted from the audit log
+  index("audit_logs_action_ip_idx").on(table.action, table.ipAddress, table.createdAt),
+]);
 
 // Relations
 export const adminUsersRelations = relations(adminUsers, ({ many }) => ({
   auditLogs: many(auditLogs),
+  assignedSupportTickets: many(supportTickets),
+  passwordResetTokens: many(passwordResetTokens),
+}));
+
+export const adminInvitationsRelations = relations(adminInvitations, ({ one }) => ({
+  invitedBy: one(adminUsers, {
+    fields: [adminInvitations.invitedById],
+    references: [adminUsers.id],
+  }),
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokens, ({ one }) => ({
+  adminUser: one(adminUsers, {
+    fields: [passwordResetTokens.adminUserId],
+    references: [adminUsers.id],
+  }),
 }));
 
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   orders: many(orders),
+  cart: one(carts),
+  supportTickets: many(supportTickets),
 }));
 
 export const categoriesRelations = relations(categories, ({ many }) => ({
@@ -190,13 +439,38 @@ export const productsRelations = relations(products, ({ one, many }) => ({
   orderItems: many(orderItems),
 }));
 
+export const cartsRelations = relations(carts, ({ one, many }) => ({
+  user: one(users, {
+    fields: [carts.userId],
+    references: [users.id],
+  }),
+  items: many(cartItems),
+}));
+
+export const cartItemsRelations = relations(cartItems, ({ one }) => ({
+  cart: one(carts, {
+    fields: [cartItems.cartId],
+    references: [carts.id],
+  }),
+  product: one(products, {
+    fields: [cartItems.productId],
+    references: [products.id],
+  }),
+}));
+
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   user: one(users, {
     fields: [orders.userId],
     references: [users.id],
   }),
+  coupon: one(coupons, {
+    fields: [orders.couponId],
+    references: [coupons.id],
+  }),
   orderItems: many(orderItems),
   payments: many(payments),
+  refunds: many(refunds),
+  statusHistory: many(orderStatusHistory),
 }));
 
 export const orderItemsRelations = relations(orderItems, ({ one }) => ({
@@ -210,6 +484,43 @@ export const orderItemsRelations = relations(orderItems, ({ one }) => ({
   }),
 }));
 
+export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
+  product: one(products, {
+    fields: [stockMovements.productId],
+    references: [products.id],
+  }),
+  order: one(orders, {
+    fields: [stockMovements.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderStatusHistory.orderId],
+    references: [orders.id],
+  }),
+  adminUser: one(adminUsers, {
+    fields: [orderStatusHistory.adminUserId],
+    references: [adminUsers.id],
+  }),
+}));
+
+export const refundsRelations = relations(refunds, ({ one }) => ({
+  order: one(orders, {
+    fields: [refunds.orderId],
+    references: [orders.id],
+  }),
+  payment: one(payments, {
+    fields: [refunds.paymentId],
+    references: [payments.id],
+  }),
+  requestedBy: one(adminUsers, {
+    fields: [refunds.requestedById],
+    references: [adminUsers.id],
+  }),
+}));
+
 export const paymentsRelations = relations(payments, ({ one }) => ({
   order: one(orders, {
     fields: [payments.orderId],
@@ -217,6 +528,29 @@ export const paymentsRelations = relations(payments, ({ one }) => ({
   }),
 }));
 
+export const supportTicketsRelations = relations(supportTickets, ({ one, many }) => ({
+  user: one(users, {
+    fields: [supportTickets.userId],
+    references: [users.id],
+  }),
+  assignedTo: one(adminUsers, {
+    fields: [supportTickets.assignedToId],
+    references: [adminUsers.id],
+  }),
+  messages: many(supportMessages),
+}));
+
+export const supportMessagesRelations = relations(supportMessages, ({ one }) => ({
+  ticket: one(supportTickets, {
+    fields: [supportMessages.ticketId],
+    references: [supportTickets.id],
+  }),
+  adminUser: one(adminUsers, {
+    fields: [supportMessages.adminUserId],
+    references: [adminUsers.id],
+  }),
+}));
+
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   adminUser: one(adminUsers, {
     fields: [auditLogs.adminUserId],
@@ -225,12 +559,27 @@ export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
 }));
 
 // Insert Schemas
-export const insertAdminUserSchema = createInsertSchema(adminUsers).omit({
+export const insertAdminUserSchema = createInsertSchema(adminUsers, {
+  twoFactorRecoveryCodes: z.array(z.string()).optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertAdminInvitationSchema = createInsertSchema(adminInvitations).omit({
+  id: true,
+  acceptedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
@@ -249,17 +598,50 @@ export const insertProductSchema = createInsertSchema(products).omit({
   updatedAt: true,
 });
 
+export const insertCartItemSchema = createInsertSchema(cartItems).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCheckoutSessionSchema = createInsertSchema(checkoutSessions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
   orderNumber: true,
+  stockStatus: true,
+  couponRedeemedAt: true,
+  refundDueAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// What staff may change on an order from the dashboard. Totals, stock and coupon fields are
+// only ever set by checkout and the payment services.
+export const updateOrderSchema = z.object({
+  status: z.enum(orderStatusEnum.enumValues, { message: 'Invalid order status' }).optional(),
+  notes: z.string().trim().max(2000, 'Notes must be 2000 characters or fewer').nullable().optional(),
+  trackingNumber: z.string().trim().max(100, 'Tracking number must be 100 characters or fewer').nullable().optional(),
+}).strict();
+
 export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
   id: true,
 });
 
+export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOrderStatusHistorySchema = createInsertSchema(orderStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertPaymentSchema = createInsertSchema(payments).omit({
   id: true,
   createdAt: true,
@@ -273,6 +655,17 @@ export const insertCouponSchema = createInsertSchema(coupons).omit({
   updatedAt: true,
 });
 
+export const insertSupportTicketSchema = createInsertSchema(supportTickets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSupportMessageSchema = createInsertSchema(supportMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertSystemSettingSchema = createInsertSchema(systemSettings).omit({
   id: true,
   createdAt: true,
@@ -284,29 +677,123 @@ export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   createdAt: true,
 });
 
+export const insertRefundSchema = createInsertSchema(refunds).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertRejectedCallbackSchema = createInsertSchema(rejectedCallbacks).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type AdminUser = typeof adminUsers.$inferSelect;
 export type InsertAdminUser = z.infer<typeof insertAdminUserSchema>;
+export type AdminInvitation = typeof adminInvitations.$inferSelect;
+export type InsertAdminInvitation = z.infer<typeof insertAdminInvitationSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type SessionMetadata = {
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: number;
+  lastSeenAt: number;
+};
+export type StoredSessionData = {
+  cookie: Record<string, unknown>;
+  passport?: { user?: string };
+  meta?: SessionMetadata;
+};
+export type StoredSession = typeof sessions.$inferSelect;
+// A session as listed to its owner; the id is derived from the sid, which is never exposed
+export type ActiveSession = {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+};
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+// A customer as listed in the dashboard, with totals from their orders
+export type CustomerWithStats = User & {
+  orderCount: number;
+  totalSpentGhs: string;
+  latestPhone: string | null;
+  latestAddress: Record<string, any> | string | null;
+};
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type Cart = typeof carts.$inferSelect;
+export type CartItem = typeof cartItems.$inferSelect;
+export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
+export type CartItemWithProduct = CartItem & { product: Product };
+export type CheckoutSession = typeof checkoutSessions.$inferSelect;
+export type InsertCheckoutSession = z.infer<typeof insertCheckoutSessionSchema>;
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type UpdateOrder = z.infer<typeof updateOrderSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+export type InsertOrderStatusHistory = z.infer<typeof insertOrderStatusHistorySchema>;
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Coupon = typeof coupons.$inferSelect;
 export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+export type SupportTicket = typeof supportTickets.$inferSelect;
+export type InsertSupportTicket = z.infer<typeof insertSupportTicketSchema>;
+export type SupportTicketWithDetails = SupportTicket & {
+  user: User;
+  assignedTo: Pick<AdminUser, 'id' | 'name' | 'email'> | null;
+};
+export type SupportMessage = typeof supportMessages.$inferSelect;
+export type InsertSupportMessage = z.infer<typeof insertSupportMessageSchema>;
 export type SystemSetting = typeof systemSettings.$inferSelect;
 export type InsertSystemSetting = z.infer<typeof insertSystemSettingSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLogWithAdmin = AuditLog & {
+  adminUser: Pick<AdminUser, 'id' | 'name' | 'email'> | null;
+};
+export type OrderStatusHistoryWithAdmin = OrderStatusHistory & {
+  adminUser: Pick<AdminUser, 'id' | 'name' | 'email'> | null;
+};
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+// Refunds of an order with what is left to refund on its payment
+export type OrderRefunds = {
+  refunds: Refund[];
+  paidGhs: string;
+  refundedGhs: string;
+  pendingGhs: string;
+  refundableGhs: string;
+};
+export type RejectedCallback = typeof rejectedCallbacks.$inferSelect;
+export type InsertRejectedCallback = z.infer<typeof insertRejectedCallbackSchema>;
 
 // Bot Commands Schemas
-export const insertBotCommandSchema = createInsertSchema(botCommands);
+export const botCommandButtonSchema = z.object({
+  text: z.string(),
+  url: z.string().optional(),
+  action: z.string().optional(),
+});
+
+// The json column's inferred type doesn't match BotCommandButton, so buttons get their own schema
+export const insertBotCommandSchema = createInsertSchema(botCommands, {
+  buttons: z.array(botCommandButtonSchema).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
 export type BotCommand = typeof botCommands.$inferSelect;
 export type InsertBotCommand = z.infer<typeof insertBotCommandSchema>;
@@ -0,0 +1,316 @@
+// Registry of the system settings the dashboard knows about.
+// Shared so the API validates writes with the same schemas the settings page uses to render and check its forms.
+
+import { z } from "zod";
+import { isRole } from "./permissions";
+
+export type SettingType = 'text' | 'textarea' | 'secret' | 'url' | 'email' | 'tel' | 'number' | 'select';
+
+export type SettingGroup = 'store' | 'telegram' | 'mtn' | 'checkout' | 'security';
+
+// Services that cache settings and must reload after a change; wired up in server/services/settings.ts
+export type SettingRefresh = 'store-profile' | 'telegram-bot' | 'mtn-momo' | 'two-factor';
+
+export interface SettingDefinition {
+  key: string;
+  group: SettingGroup;
+  label: string;
+  // Stored with the setting, e.g. for the audit log and database readers
+  description: string;
+  type: SettingType;
+  // Validates and normalises (e.g. trims) the value before it is saved; an empty string means "not set"
+  schema: z.ZodType<string, z.ZodTypeDef, string>;
+  default?: string;
+  placeholder?: string;
+  help?: string;
+  options?: { value: string; label: string }[];
+  // Encrypted at rest and masked in API responses
+  secret?: boolean;
+  refresh?: SettingRefresh;
+  // Edited on a dedicated page instead of the generic settings form
+  hidden?: boolean;
+}
+
+export const SETTING_GROUPS: Record<SettingGroup, { title: string; description: string }> = {
+  store: { title: 'Store Profile', description: 'Details the bot shows to customers. Empty fields use the defaults.' },
+  telegram: { title: 'Telegram Bot Configuration', description: 'Connects the dashboard to your Telegram bot.' },
+  mtn: { title: 'MTN Mobile Money Configuration', description: 'Credentials for collecting payments with MTN MoMo.' },
+  checkout: { title: 'Checkout', description: 'Fees applied when customers place an order.' },
+  security: { title: 'Security', description: 'Sign-in requirements for dashboard users.' },
+};
+
+const text = (max: number) => z.string().trim().max(max, `Must be at most ${max} characters`);
+const required = (schema: z.ZodType<string, z.ZodTypeDef, string>, message = 'This field is required') =>
+  schema.refine(value => value !== '', message);
+const optionalMatching = (schema: z.ZodType<string, z.ZodTypeDef, string>, test: (value: string) => boolean, message: string) =>
+  schema.refine(value => value === '' || test(value), message);
+
+const httpUrl = (value: string) => /^https?:\/\/\S+$/i.test(value);
+const email = (value: string) => z.string().email().safeParse(value).success;
+
+export const SETTINGS: SettingDefinition[] = [
+  {
+    key: 'STORE_NAME',
+    group: 'store',
+    label: 'Store Name',
+    description: 'Store name shown in bot messages',
+    type: 'text',
+    schema: text(100),
+    default: 'EcomBot',
+    placeholder: 'EcomBot',
+    refresh: 'store-profile',
+  },
+  {
+    key: 'STORE_LOGO_URL',
+    group: 'store',
+    label: 'Logo URL',
+    description: 'Store logo sent with the bot /start command',
+    type: 'url',
+    schema: optionalMatching(text(500), httpUrl, 'Logo URL must start with http:// or https://'),
+    default: '',
+    placeholder: 'https://example.com/logo.png',
+    refresh: 'store-profile',
+  },
+  {
+    key: 'STORE_SUPPORT_EMAIL',
+    group: 'store',
+    label: 'Support Email',
+    description: 'Customer support email',
+    type: 'email',
+    schema: optionalMatching(text(200), email, 'Enter a valid email address'),
+    default: 'support@ecombot.gh',
+    placeholder: 'support@ecombot.gh',
+    refresh: 'store-profile',
+  },
+  {
+    key: 'STORE_SUPPORT_PHONE',
+    group: 'store',
+    label: 'Support Phone',
+    description: 'Customer support phone number',
+    type: 'tel',
+    schema: optionalMatching(text(30), value => /^\+?[\d\s()-]+$/.test(value), 'Use digits, spaces and an optional leading +'),
+    default: '+233 XXX XXX XXX',
+    placeholder: '+233 24 000 0000',
+    refresh: 'store-profile',
+  },
+  {
+    key: 'STORE_BUSINESS_HOURS',
+    group: 'store',
+    label: 'Business Hours',
+    description: 'Customer support business hours',
+    type: 'text',
+    schema: text(100),
+    default: 'Mon-Fri, 9AM-6PM GMT',
+    placeholder: 'Mon-Fri, 9AM-6PM GMT',
+    refresh: 'store-profile',
+  },
+  {
+    key: 'STORE_WELCOME_TEXT',
+    group: 'store',
+    label: 'Welcome Text',
+    description: 'Greeting sent with the bot /start command',
+    type: 'textarea',
+    schema: text(1000),
+    default: "Hi {{firstName | there}}! I'm your personal shopping assistant.",
+    placeholder: "Hi {{firstName | there}}! I'm your personal shopping assistant.",
+    help: 'Sent when a customer starts the bot. Supports {{firstName}}, {{lastName}} and {{username}}.',
+    refresh: 'store-profile',
+  },
+  {
+    key: 'TELEGRAM_BOT_TOKEN',
+    group: 'telegram',
+    label: 'Telegram Bot Token',
+    description: 'Telegram bot token for e-commerce bot',
+    type: 'secret',
+    schema: required(z.string().trim()).refine(
+      value => /^\d+:[\w-]{20,}$/.test(value),
+      'This does not look like a bot token from @BotFather'
+    ),
+    placeholder: 'Enter your Telegram bot token (e.g., 123456789:ABC...)',
+    help: 'Get your bot token from @BotFather on Telegram. Saving it re-registers the webhook.',
+    secret: true,
+    refresh: 'telegram-bot',
+  },
+  {
+    key: 'MTN_USER_ID',
+    group: 'mtn',
+    label: 'User ID',
+    description: 'MTN MoMo API User ID',
+    type: 'text',
+    schema: required(text(100)),
+    placeholder: 'Enter MTN MoMo User ID',
+    help: 'Your collection user ID',
+    refresh: 'mtn-momo',
+  },
+  {
+    key: 'MTN_PRIMARY_KEY',
+    group: 'mtn',
+    label: 'Primary Key',
+    description: 'MTN MoMo API Primary Key',
+    type: 'secret',
+    schema: required(text(200)),
+    placeholder: 'Enter your Primary Key from MTN Developer Portal',
+    help: 'Your main API key from the MTN MoMo Developer Portal',
+    secret: true,
+    refresh: 'mtn-momo',
+  },
+  {
+    key: 'MTN_SECONDARY_KEY',
+    group: 'mtn',
+    label: 'Secondary Key',
+    description: 'MTN MoMo API Secondary Key',
+    type: 'secret',
+    schema: text(200),
+    placeholder: 'Enter your Secondary Key (optional)',
+    help: 'Backup key',
+    secret: true,
+    refresh: 'mtn-momo',
+  },
+  {
+    key: 'MTN_SUBSCRIPTION_KEY',
+    group: 'mtn',
+    label: 'Subscription Key',
+    description: 'MTN MoMo Subscription Key',
+    type: 'secret',
+    schema: required(text(200)),
+    placeholder: 'Enter your Subscription Key',
+    help: 'Your Ocp-Apim-Subscription-Key',
+    secret: true,
+    refresh: 'mtn-momo',
+  },
+  {
+    key: 'MTN_ENV',
+    group: 'mtn',
+    label: 'Environment',
+    description: 'MTN MoMo Environment (sandbox/production)',
+    type: 'select',
+    schema: z.enum(['sandbox', 'production']),
+    default: 'sandbox',
+    options: [
+      { value: 'sandbox', label: 'Sandbox (Testing)' },
+      { value: 'production', label: 'Production (Live)' },
+    ],
+    refresh: 'mtn-momo',
+  },
+  {
+    key: 'MTN_API_BASE_URL',
+    group: 'mtn',
+    label: 'API Base URL',
+    description: 'MTN MoMo API Base URL',
+    type: 'url',
+    schema: required(text(500)).refine(httpUrl, 'Must be an http:// or https:// URL'),
+    default: 'https://sandbox.momodeveloper.mtn.com',
+    placeholder: 'MTN MoMo API Base URL',
+    help: 'https://sandbox.momodeveloper.mtn.com for sandbox, https://momodeveloper.mtn.com for production',
+    refresh: 'mtn-momo',
+  },
+  {
+    key: 'MTN_CALLBACK_SECRET',
+    group: 'mtn',
+    label: 'Webhook Callback Secret',
+    description: 'MTN MoMo Webhook Callback Secret',
+    type: 'secret',
+    schema: text(200),
+    placeholder: 'Enter webhook callback secret for payment notifications',
+    help: 'Used to verify payment webhook notifications for security',
+    secret: true,
+    refresh: 'mtn-momo',
+  },
+  {
+    key: 'MTN_CALLBACK_SIGNATURE_MODE',
+    group: 'mtn',
+    label: 'Callback Signature Mode',
+    description: 'Whether MTN MoMo callbacks must be signed',
+    type: 'select',
+    schema: z.enum(['strict', 'lenient']),
+    default: 'strict',
+    options: [
+      { value: 'strict', label: 'Strict (reject unsigned callbacks)' },
+      { value: 'lenient', label: 'Lenient (accept unsigned callbacks)' },
+    ],
+    help: 'Signed callbacks are always verified. Lenient only suits the sandbox, which does not sign its callbacks.',
+    refresh: 'mtn-momo',
+  },
+  {
+    key: 'MTN_DISBURSEMENT_USER_ID',
+    group: 'mtn',
+    label: 'Disbursement User ID',
+    description: 'MTN MoMo Disbursement API User ID',
+    type: 'text',
+    schema: text(100),
+    placeholder: 'Enter MTN MoMo Disbursement User ID',
+    help: 'API user of the Disbursement product, used to send refunds',
+    refresh: 'mtn-momo',
+  },
+  {
+    key: 'MTN_DISBURSEMENT_API_KEY',
+    group: 'mtn',
+    label: 'Disbursement API Key',
+    description: 'MTN MoMo Disbursement API Key',
+    type: 'secret',
+    schema: text(200),
+    placeholder: 'Enter the Disbursement API key',
+    help: 'API key of the disbursement user',
+    secret: true,
+    refresh: 'mtn-momo',
+  },
+  {
+    key: 'MTN_DISBURSEMENT_SUBSCRIPTION_KEY',
+    group: 'mtn',
+    label: 'Disbursement Subscription Key',
+    description: 'MTN MoMo Disbursement Subscription Key',
+    type: 'secret',
+    schema: text(200),
+    placeholder: 'Enter your Disbursement Subscription Key',
+    help: 'The Ocp-Apim-Subscription-Key of your Disbursement product subscription',
+    secret: true,
+    refresh: 'mtn-momo',
+  },
+  {
+    key: 'SHIPPING_FEE_GHS',
+    group: 'checkout',
+    label: 'Shipping Fee (GHS)',
+    description: 'Flat shipping fee added to every order, in GHS',
+    type: 'number',
+    schema: optionalMatching(z.string().trim(), value => /^\d+(\.\d{1,2})?$/.test(value), 'Enter an amount such as 10 or 12.50'),
+    default: '10.00',
+    placeholder: '10.00',
+    help: 'Leave empty to use the SHIPPING_FEE_GHS environment variable or the default of 10.00.',
+  },
+  {
+    key: 'TWO_FACTOR_REQUIRED_ROLES',
+    group: 'security',
+    label: 'Roles Requiring Two-Factor Authentication',
+    description: 'Roles that must use two-factor authentication',
+    type: 'text',
+    schema: optionalMatching(
+      z.string().trim(),
+      value => value.split(',').every(role => isRole(role.trim())),
+      'Must be a comma-separated list of roles'
+    ),
+    default: '',
+    refresh: 'two-factor',
+    hidden: true,
+  },
+];
+
+export const SETTINGS_BY_KEY: Record<string, SettingDefinition> = Object.fromEntries(
+  SETTINGS.map(setting => [setting.key, setting])
+);
+
+export function getSettingDefinition(key: string): SettingDefinition | undefined {
+  return SETTINGS_BY_KEY[key];
+}
+
+export function getSettingsInGroup(group: SettingGroup): SettingDefinition[] {
+  return SETTINGS.filter(setting => setting.group === group && !setting.hidden);
+}
+
+// Returns the normalised value, or the first validation message
+export function validateSetting(definition: SettingDefinition, value: unknown): { value: string } | { error: string } {
+  const result = definition.schema.safeParse(typeof value === 'string' ? value : value == null ? '' : String(value));
+  if (!result.success) {
+    return { error: result.error.issues[0]?.message ?? 'Invalid value' };
+  }
+  return { value: result.data };
+}
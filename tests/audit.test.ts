@@ -0,0 +1,38 @@
+import { describe, test, expect } from '@jest/globals';
+import { redactAuditValues, isSecretSettingKey, REDACTED } from '../server/services/audit';
+
+describe('Audit log redaction', () => {
+  test('should redact credential settings by key', () => {
+    expect(isSecretSettingKey('TELEGRAM_BOT_TOKEN')).toBe(true);
+    expect(isSecretSettingKey('MTN_PRIMARY_KEY')).toBe(true);
+    expect(isSecretSettingKey('MTN_CALLBACK_SECRET')).toBe(true);
+    expect(isSecretSettingKey('STORE_NAME')).toBe(false);
+
+    const redacted = redactAuditValues({ key: 'MTN_SUBSCRIPTION_KEY', value: 'abc123', description: 'Key' });
+    expect(redacted.value).toBe(REDACTED);
+    expect(redacted.key).toBe('MTN_SUBSCRIPTION_KEY');
+  });
+
+  test('should keep ordinary setting values', () => {
+    const redacted = redactAuditValues({ key: 'STORE_NAME', value: 'Accra Gadgets' });
+    expect(redacted.value).toBe('Accra Gadgets');
+  });
+
+  test('should redact secret fields on records', () => {
+    const redacted = redactAuditValues({
+      email: 'staff@example.com',
+      password: 'hashed.salt',
+      tokenHash: 'deadbeef',
+      nested: { apiSecret: 'shh' },
+    });
+    expect(redacted.email).toBe('staff@example.com');
+    expect(redacted.password).toBe(REDACTED);
+    expect(redacted.tokenHash).toBe(REDACTED);
+    expect(redacted.nested.apiSecret).toBe(REDACTED);
+  });
+
+  test('should treat missing values as empty', () => {
+    expect(redactAuditValues(undefined)).toEqual({});
+    expect(redactAuditValues(null)).toEqual({});
+  });
+});
@@ -1,8 +1,14 @@
 import { describe, test, expect, beforeEach } from '@jest/globals';
 import request from 'supertest';
 import express from 'express';
-import { setupAuth, hashPassword } from '../server/auth';
+import { setupAuth, hashPassword, generateToken, hashToken } from '../server/auth';
 import { storage } from '../server/storage';
+import { db } from '../server/db';
+import { adminUsers } from '../shared/schema';
+import { authenticator } from 'otplib';
+import { twoFactorService } from '../server/services/two-factor';
+import { MAX_FAILED_LOGINS, MAX_FAILED_LOGINS_PER_IP } from '../server/services/login-protection';
+import { emailService, type EmailMessage } from '../server/services/email';
 
 const app = express();
 app.use(express.json());
@@ -21,7 +27,7 @@ describe('Authentication', () => {
     });
   });
 
-  test('should register new admin user', async () => {
+  test('should refuse registration once an admin exists', async () => {
     const response = await request(app)
       .post('/api/register')
       .send({
@@ -30,23 +36,75 @@ describe('Authentication', () => {
         name: 'New User'
       });
 
-    expect(response.status).toBe(201);
-    expect(response.body).toHaveProperty('id');
-    expect(response.body.email).toBe('newuser@example.com');
-    expect(response.body.name).toBe('New User');
+    expect(response.status).toBe(403);
+    expect(await storage.getAdminUserByEmail('newuser@example.com')).toBeUndefined();
   });
 
-  test('should not register user with existing email', async () => {
+  test('should bootstrap the first admin when none exist', async () => {
+    await db.delete(adminUsers);
+
+    const statusResponse = await request(app).get('/api/setup-status');
+    expect(statusResponse.body.needsSetup).toBe(true);
+
     const response = await request(app)
       .post('/api/register')
       .send({
-        email: 'test@example.com',
+        email: 'owner@example.com',
         password: 'password123',
-        name: 'Duplicate User'
+        name: 'Store Owner'
       });
 
-    expect(response.status).toBe(400);
-    expect(response.body.message).toBe('Email already exists');
+    expect(response.status).toBe(201);
+    expect(response.body.role).toBe('admin');
+
+    const afterResponse = await request(app).get('/api/setup-status');
+    expect(afterResponse.body.needsSetup).toBe(false);
+  });
+
+  test('should create an account from a valid invitation only once', async () => {
+    const token = generateToken();
+    await storage.createAdminInvitation({
+      email: 'staff@example.com',
+      name: 'Staff Member',
+      role: 'staff',
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+    });
+
+    const inviteResponse = await request(app).get(`/api/invitations/${token}`);
+    expect(inviteResponse.status).toBe(200);
+    expect(inviteResponse.body.email).toBe('staff@example.com');
+
+    const response = await request(app)
+      .post(`/api/invitations/${token}/accept`)
+      .send({ name: 'Staff Member', password: 'password123' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.role).toBe('staff');
+
+    const replayResponse = await request(app)
+      .post(`/api/invitations/${token}/accept`)
+      .send({ name: 'Someone Else', password: 'password123' });
+
+    expect(replayResponse.status).toBe(404);
+  });
+
+  test('should reject expired invitations', async () => {
+    const token = generateToken();
+    await storage.createAdminInvitation({
+      email: 'late@example.com',
+      name: 'Late Invitee',
+      role: 'staff',
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() - 60 * 1000)
+    });
+
+    const response = await request(app)
+      .post(`/api/invitations/${token}/accept`)
+      .send({ name: 'Late Invitee', password: 'password123' });
+
+    expect(response.status).toBe(404);
+    expect(await storage.getAdminUserByEmail('late@example.com')).toBeUndefined();
   });
 
   test('should login with valid credentials', async () => {
@@ -101,4 +159,187 @@ describe('Authentication', () => {
     expect(response.status).toBe(200);
     expect(response.body.message).toBe('Password changed successfully');
   });
+
+  test('should require a second factor when 2FA is enabled', async () => {
+    const user = await storage.getAdminUserByEmail('test@example.com');
+    const secret = authenticator.generateSecret();
+    await storage.updateAdminUser(user!.id, { twoFactorSecret: secret, twoFactorEnabledAt: new Date() });
+
+    const agent = request.agent(app);
+    const loginResponse = await agent
+      .post('/api/login')
+      .send({ email: 'test@example.com', password: 'testpassword' });
+
+    expect(loginResponse.status).toBe(200);
+    expect(loginResponse.body).toEqual({ twoFactorPending: true });
+    expect((await agent.get('/api/user')).status).toBe(401);
+
+    const wrongResponse = await agent.post('/api/login/2fa').send({ code: '000000' });
+    expect(wrongResponse.status).toBe(401);
+
+    const response = await agent.post('/api/login/2fa').send({ code: authenticator.generate(secret) });
+    expect(response.status).toBe(200);
+    expect(response.body.twoFactorEnabled).toBe(true);
+    expect((await agent.get('/api/user')).status).toBe(200);
+  });
+
+  test('should accept each recovery code only once', async () => {
+    const user = await storage.getAdminUserByEmail('test@example.com');
+    const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+    await storage.updateAdminUser(user!.id, {
+      twoFactorSecret: authenticator.generateSecret(),
+      twoFactorEnabledAt: new Date(),
+      twoFactorRecoveryCodes: hashes
+    });
+
+    const login = async () => {
+      const agent = request.agent(app);
+      await agent.post('/api/login').send({ email: 'test@example.com', password: 'testpassword' });
+      return agent.post('/api/login/2fa').send({ recoveryCode: codes[0].toUpperCase() });
+    };
+
+    const first = await login();
+    expect(first.status).toBe(200);
+    expect(first.body.recoveryCodesRemaining).toBe(codes.length - 1);
+
+    const second = await login();
+    expect(second.status).toBe(401);
+  });
+
+  test('should lock the account after repeated failed logins', async () => {
+    for (let i = 0; i < MAX_FAILED_LOGINS; i++) {
+      await request(app)
+        .post('/api/login')
+        .send({ email: 'test@example.com', password: 'wrongpassword' });
+    }
+
+    // Even the right password is refused while the account is locked
+    const lockedResponse = await request(app)
+      .post('/api/login')
+      .send({ email: 'test@example.com', password: 'testpassword' });
+    expect(lockedResponse.status).toBe(423);
+
+    const user = await storage.getAdminUserByEmail('test@example.com');
+    expect(user!.failedLoginAttempts).toBe(MAX_FAILED_LOGINS);
+    expect(user!.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+
+    // What the admin unlock action does
+    await storage.resetFailedLogins(user!.id);
+    const response = await request(app)
+      .post('/api/login')
+      .send({ email: 'test@example.com', password: 'testpassword' });
+    expect(response.status).toBe(200);
+  }, 30000);
+
+  test('should reset the failure count after a successful login', async () => {
+    await request(app)
+      .post('/api/login')
+      .send({ email: 'test@example.com', password: 'wrongpassword' });
+    await request(app)
+      .post('/api/login')
+      .send({ email: 'test@example.com', password: 'testpassword' });
+
+    const user = await storage.getAdminUserByEmail('test@example.com');
+    expect(user!.failedLoginAttempts).toBe(0);
+  });
+
+  test('should record failed logins in the audit log', async () => {
+    await request(app)
+      .post('/api/login')
+      .set('User-Agent', 'jest')
+      .send({ email: 'test@example.com', password: 'wrongpassword' });
+
+    const { logs } = await storage.getAuditLogs({ action: 'auth.login_failed' });
+    expect(logs).toHaveLength(1);
+    expect(logs[0].newValues).toEqual({ email: 'test@example.com', reason: 'invalid_credentials' });
+    expect(logs[0].userAgent).toBe('jest');
+    expect(logs[0].ipAddress).toBeTruthy();
+  });
+
+  test('should block an IP address after too many failures across accounts', async () => {
+    for (let i = 0; i < MAX_FAILED_LOGINS_PER_IP; i++) {
+      await request(app)
+        .post('/api/login')
+        .send({ email: `nobody${i}@example.com`, password: 'wrongpassword' });
+    }
+
+    const response = await request(app)
+      .post('/api/login')
+      .send({ email: 'test@example.com', password: 'testpassword' });
+    expect(response.status).toBe(429);
+  }, 30000);
+
+  test('should reset a password once with the emailed link', async () => {
+    const sent: EmailMessage[] = [];
+    emailService.setTransport({ send: async (message) => { sent.push(message); } });
+    process.env.APP_URL = 'https://shop.example.com';
+
+    const agent = request.agent(app);
+    await agent.post('/api/login').send({ email: 'test@example.com', password: 'testpassword' });
+
+    const unknownResponse = await request(app)
+      .post('/api/password-reset')
+      .send({ email: 'nobody@example.com' });
+    const requestResponse = await request(app)
+      .post('/api/password-reset')
+      .set('Host', 'attacker.example')
+      .send({ email: 'test@example.com' });
+
+    // Same answer either way, so the form cannot be used to find accounts
+    expect(requestResponse.status).toBe(200);
+    expect(unknownResponse.body).toEqual(requestResponse.body);
+    expect(sent).toHaveLength(1);
+
+    // The link points at the configured app, whatever Host the request claimed
+    const token = sent[0].text.match(/https:\/\/shop\.example\.com\/reset-password\/([0-9a-f]+)/)![1];
+    const checkResponse = await request(app).get(`/api/password-reset/${token}`);
+    expect(checkResponse.body.email).toBe('test@example.com');
+
+    const response = await request(app)
+      .post(`/api/password-reset/${token}`)
+      .send({ password: 'resetpassword123' });
+    expect(response.status).toBe(200);
+
+    const replayResponse = await request(app)
+      .post(`/api/password-reset/${token}`)
+      .send({ password: 'anotherpassword123' });
+    expect(replayResponse.status).toBe(404);
+
+    // Sessions started with the old password are signed out
+    expect((await agent.get('/api/user')).status).toBe(401);
+
+    const oldLogin = await request(app)
+      .post('/api/login')
+      .send({ email: 'test@example.com', password: 'testpassword' });
+    expect(oldLogin.status).toBe(401);
+
+    const newLogin = await request(app)
+      .post('/api/login')
+      .send({ email: 'test@example.com', password: 'resetpassword123' });
+    expect(newLogin.status).toBe(200);
+  });
+
+  test('should list sessions and log out everywhere else', async () => {
+    const login = async (userAgent: string) => {
+      const agent = request.agent(app);
+      await agent
+        .post('/api/login')
+        .set('User-Agent', userAgent)
+        .send({ email: 'test@example.com', password: 'testpassword' });
+      return agent;
+    };
+    const laptop = await login('laptop');
+    const phone = await login('phone');
+
+    const listResponse = await laptop.get('/api/sessions');
+    expect(listResponse.status).toBe(200);
+    expect(listResponse.body).toHaveLength(2);
+    expect(listResponse.body[0]).toMatchObject({ current: true, userAgent: 'laptop' });
+    expect(listResponse.body[1]).toMatchObject({ current: false, userAgent: 'phone' });
+
+    const response = await laptop.delete('/api/sessions');
+    expect(response.body.revoked).toBe(1);
+    expect((await phone.get('/api/user')).status).toBe(401);
+    expect((await laptop.get('/api/user')).status).toBe(200);
+  });
 });
@@ -0,0 +1,41 @@
+import { describe, test, expect } from '@jest/globals';
+import { renderBotTemplate } from '../shared/bot-template';
+
+describe('Bot command templates', () => {
+  const context = {
+    firstName: 'Ama',
+    lastName: null,
+    lastOrder: {
+      orderNumber: 'ORD-20250101-001',
+      status: 'SHIPPED',
+      totalGhs: '245.00',
+      createdAt: '1/1/2025'
+    },
+    store: {
+      supportPhone: '+233 24 000 0000'
+    }
+  };
+
+  test('should substitute top-level and nested variables', () => {
+    const result = renderBotTemplate(
+      'Hi {{firstName}}, order {{ lastOrder.orderNumber }} is {{lastOrder.status}}. Call {{store.supportPhone}}.',
+      context
+    );
+
+    expect(result).toBe('Hi Ama, order ORD-20250101-001 is SHIPPED. Call +233 24 000 0000.');
+  });
+
+  test('should render missing values as empty or their fallback', () => {
+    expect(renderBotTemplate('[{{lastName}}]', context)).toBe('[]');
+    expect(renderBotTemplate('Hi {{lastName | friend}}!', context)).toBe('Hi friend!');
+    expect(renderBotTemplate('{{lastOrder.status | none}}', { lastOrder: null })).toBe('none');
+  });
+
+  test('should not expose whole objects', () => {
+    expect(renderBotTemplate('{{lastOrder}}', context)).toBe('');
+  });
+
+  test('should leave text without placeholders untouched', () => {
+    expect(renderBotTemplate('Open {daily} 9-5', context)).toBe('Open {daily} 9-5');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import type { Request, Response } from 'express';
+import { storage } from '../server/storage';
+import { telegramService } from '../server/services/telegram';
+
+// A tap on one of the cart's inline buttons, as Telegram delivers it
+async function tap(telegramId: number, data: string) {
+  const req = {
+    body: {
+      update_id: 1,
+      callback_query: { id: 'query', from: { id: telegramId }, message: { chat: { id: telegramId }, message_id: 1 }, data }
+    }
+  } as unknown as Request;
+  const res = { sendStatus: jest.fn() } as unknown as Response;
+  await telegramService.handleWebhook(req, res);
+  expect(res.sendStatus).toHaveBeenCalledWith(200);
+}
+
+async function createCart(stock: number) {
+  const user = await storage.createUser({ telegramId: '8001' });
+  const product = await storage.createProduct({ title: 'Shea Butter', sku: 'SHEA-3', priceGhs: '12.50', stock });
+  const item = await storage.addCartItem(user.id, product.id, 1);
+  return { user, product, item };
+}
+
+describe('Cart', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('{"ok":true}'));
+    jest.spyOn(telegramService, 'sendMessage').mockResolvedValue({ ok: true });
+  });
+
+  test('should add the same product to one cart line', async () => {
+    const { user, product } = await createCart(5);
+
+    await storage.addCartItem(user.id, product.id, 2);
+
+    expect((await storage.getCartItems(user.id)).map(item => item.quantity)).toEqual([3]);
+  });
+
+  test('should change quantities from the cart buttons without going past the stock', async () => {
+    const { user, item } = await createCart(2);
+
+    await tap(8001, `cart_inc_${item.id}`);
+    await tap(8001, `cart_inc_${item.id}`);
+    expect((await storage.getCartItem(item.id))?.quantity).toBe(2);
+    expect(telegramService.sendMessage).toHaveBeenCalledWith(8001, expect.stringContaining('only 2 of this item'));
+
+    await tap(8001, `cart_dec_${item.id}`);
+    await tap(8001, `cart_dec_${item.id}`);
+    expect(await storage.getCartItems(user.id)).toHaveLength(0);
+  });
+
+  test('should ignore buttons for an item in someone else\'s cart', async () => {
+    const { item } = await createCart(5);
+    await storage.createUser({ telegramId: '8002' });
+
+    await tap(8002, `cart_remove_${item.id}`);
+
+    expect(await storage.getCartItem(item.id)).toBeDefined();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, test, expect } from '@jest/globals';
+import { storage } from '../server/storage';
+
+async function saveSession(step: string) {
+  const user = await storage.createUser({ telegramId: '5001' });
+  return await storage.saveCheckoutSession({
+    chatId: '5001',
+    userId: user.id,
+    step,
+    data: { phoneNumber: '+233240000005' },
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+  });
+}
+
+describe('Checkout sessions', () => {
+  test('should keep a session across saves until it is deleted', async () => {
+    const saved = await saveSession('address');
+    await storage.saveCheckoutSession({
+      chatId: saved.chatId,
+      userId: saved.userId,
+      step: 'phone',
+      data: { deliveryAddress: '1 Oxford Street, Osu, Accra' },
+      expiresAt: saved.expiresAt
+    });
+
+    expect(await storage.getCheckoutSession('5001')).toMatchObject({ step: 'phone', data: { deliveryAddress: '1 Oxford Street, Osu, Accra' } });
+    expect(await storage.deleteCheckoutSession('5001')).toBe(true);
+    expect(await storage.getCheckoutSession('5001')).toBeUndefined();
+  });
+
+  test('should let only one confirmation claim the session', async () => {
+    await saveSession('confirm');
+
+    const claims = await Promise.all([
+      storage.claimCheckoutSession('5001', 'confirm'),
+      storage.claimCheckoutSession('5001', 'confirm')
+    ]);
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect(await storage.getCheckoutSession('5001')).toBeUndefined();
+  });
+
+  test('should not claim a session that has not reached the step', async () => {
+    await saveSession('phone');
+
+    expect(await storage.claimCheckoutSession('5001', 'confirm')).toBeUndefined();
+    expect(await storage.getCheckoutSession('5001')).toBeDefined();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, test, expect } from '@jest/globals';
+import { storage } from '../server/storage';
+import { checkoutService } from '../server/services/checkout';
+
+async function createCart() {
+  const user = await storage.createUser({ telegramId: '7001' });
+  const shea = await storage.createProduct({ title: 'Shea Butter', sku: 'SHEA-2', priceGhs: '12.50', stock: 10 });
+  const kente = await storage.createProduct({ title: 'Kente Scarf', sku: 'KENTE-2', priceGhs: '80.00', stock: 1 });
+  await storage.addCartItem(user.id, shea.id, 3);
+  await storage.addCartItem(user.id, kente.id, 1);
+  return { user, shea, kente };
+}
+
+describe('Checkout', () => {
+  test('should total the cart with the configured shipping fee', async () => {
+    const { user } = await createCart();
+    await storage.setSystemSetting({ key: 'SHIPPING_FEE_GHS', value: '15.5' });
+
+    const quote = await checkoutService.getQuote(user.id);
+
+    expect(quote.items.map(item => item.lineTotalGhs)).toEqual(['37.50', '80.00']);
+    expect(quote).toMatchObject({ subtotalGhs: '117.50', shippingGhs: '15.50', discountGhs: '0.00', totalGhs: '133.00' });
+    expect(quote.unavailable).toHaveLength(0);
+  });
+
+  test('should flag items there is not enough stock for', async () => {
+    const { user, kente } = await createCart();
+    await storage.addCartItem(user.id, kente.id, 1);
+
+    const quote = await checkoutService.getQuote(user.id);
+
+    expect(quote.unavailable.map(item => item.productId)).toEqual([kente.id]);
+  });
+
+  test('should charge nothing for an empty cart', async () => {
+    const user = await storage.createUser({ telegramId: '7002' });
+
+    const quote = await checkoutService.getQuote(user.id);
+
+    expect(quote).toMatchObject({ items: [], shippingGhs: '0.00', totalGhs: '0.00' });
+    await expect(checkoutService.createOrder(user.id, quote, { customerPhone: '+233240000007' })).rejects.toThrow('empty cart');
+  });
+
+  test('should record the quoted total and item prices on the order', async () => {
+    const { user, shea } = await createCart();
+    const quote = await checkoutService.getQuote(user.id);
+
+    const order = await checkoutService.createOrder(user.id, quote, { customerPhone: '+233240000007' });
+
+    expect(order).toMatchObject({ totalGhs: quote.totalGhs, shippingGhs: quote.shippingGhs, status: 'PENDING' });
+    const items = await storage.getOrderItems(order.id);
+    expect(items.find(item => item.productId === shea.id)).toMatchObject({ quantity: 3, priceGhs: '12.50' });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, test, expect } from '@jest/globals';
+import { storage } from '../server/storage';
+
+async function createOrders(totals: string[]) {
+  const user = await storage.createUser({ telegramId: '1001', firstName: 'Ama', phone: '+233240000001' });
+  const created = [];
+  for (const totalGhs of totals) {
+    created.push(await storage.createOrder({ userId: user.id, totalGhs, customerPhone: '+233240000001' }));
+  }
+  return { user, orders: created };
+}
+
+describe('Paginated lists', () => {
+  test('should page through orders with a cursor and report the total', async () => {
+    const { orders } = await createOrders(['10.00', '20.00', '30.00', '40.00', '50.00']);
+
+    const first = await storage.listOrders({ sort: 'amount-high', limit: 2 });
+    expect(first.total).toBe(5);
+    expect(first.items.map(order => order.totalGhs)).toEqual(['50.00', '40.00']);
+    expect(first.nextCursor).toBe(first.items[1].id);
+
+    const second = await storage.listOrders({ sort: 'amount-high', limit: 2, cursor: first.nextCursor! });
+    expect(second.items.map(order => order.totalGhs)).toEqual(['30.00', '20.00']);
+
+    const last = await storage.listOrders({ sort: 'amount-high', limit: 2, cursor: second.nextCursor! });
+    expect(last.items.map(order => order.id)).toEqual([orders[0].id]);
+    expect(last.nextCursor).toBeNull();
+  });
+
+  test('should filter orders by status and search before counting', async () => {
+    const { orders } = await createOrders(['10.00', '20.00', '30.00']);
+    await storage.updateOrder(orders[1].id, { status: 'PAID' });
+
+    const paid = await storage.listOrders({ status: 'PAID' });
+    expect(paid.total).toBe(1);
+    expect(paid.items[0].id).toBe(orders[1].id);
+
+    const searched = await storage.listOrders({ search: orders[2].orderNumber.toLowerCase() });
+    expect(searched.items.map(order => order.id)).toEqual([orders[2].id]);
+
+    const summary = await storage.getOrderStatusSummary();
+    expect(summary.total).toBe(3);
+    expect(summary.byStatus.PAID).toEqual({ count: 1, amountGhs: '20.00' });
+  });
+
+  test('should list customers with their order totals', async () => {
+    const { user, orders } = await createOrders(['15.00', '25.00']);
+    await storage.updateOrder(orders[0].id, { status: 'PAID' });
+
+    const customers = await storage.listCustomers({ search: 'ama' });
+    expect(customers.total).toBe(1);
+    expect(customers.items[0]).toMatchObject({ id: user.id, orderCount: 2, totalSpentGhs: '15.00' });
+  });
+});
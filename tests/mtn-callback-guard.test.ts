@@ -0,0 +1,61 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import crypto from 'crypto';
+import type { Request } from 'express';
+import { storage } from '../server/storage';
+import { mtnMomoService } from '../server/services/mtn-momo';
+import { mtnCallbackGuard } from '../server/services/mtn-callback-guard';
+import { callbackGuard, CallbackRejectedError } from '../server/services/callback-guard';
+import { mtnMomoProvider } from '../server/services/mtn-momo-provider';
+
+const SECRET = 'webhook-secret';
+
+function signedRequest(body: Record<string, any>, timestamp: number, nonce: string) {
+  const signature = crypto
+    .createHmac('sha256', SECRET)
+    .update(`${timestamp}.${nonce}.${JSON.stringify(body)}`)
+    .digest('hex');
+  return {
+    body,
+    ip: '127.0.0.1',
+    headers: { 'x-mtn-signature': signature, 'x-mtn-timestamp': String(timestamp), 'x-mtn-nonce': nonce }
+  } as unknown as Request;
+}
+
+describe('MTN callback guard', () => {
+  beforeEach(async () => {
+    process.env.MTN_CALLBACK_SECRET = SECRET;
+    process.env.MTN_CALLBACK_SIGNATURE_MODE = 'strict';
+    await mtnMomoService.refreshCredentials();
+  });
+
+  test('should accept a signed callback once and reject its replay', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const req = signedRequest({ referenceId: 'ref-1', status: 'SUCCESSFUL' }, now, 'nonce-1');
+
+    await expect(mtnCallbackGuard.verifyRequest(req)).resolves.toBeUndefined();
+    await expect(mtnCallbackGuard.verifyRequest(req)).rejects.toMatchObject({ reason: 'replayed_nonce' });
+  });
+
+  test('should reject unsigned, tampered and stale callbacks in strict mode', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const unsigned = { body: { status: 'SUCCESSFUL' }, headers: {} } as unknown as Request;
+    await expect(mtnCallbackGuard.verifyRequest(unsigned)).rejects.toMatchObject({ reason: 'missing_signature', status: 401 });
+
+    const tampered = signedRequest({ status: 'FAILED' }, now, 'nonce-2');
+    tampered.body = { status: 'SUCCESSFUL' };
+    await expect(mtnCallbackGuard.verifyRequest(tampered)).rejects.toMatchObject({ reason: 'invalid_signature' });
+
+    const stale = signedRequest({ status: 'SUCCESSFUL' }, now - 3600, 'nonce-3');
+    await expect(mtnCallbackGuard.verifyRequest(stale)).rejects.toMatchObject({ reason: 'stale_timestamp' });
+  });
+
+  test('should store rejected callbacks for review', async () => {
+    const req = { body: { referenceId: 'ref-2' }, headers: { cookie: 'sid=secret' }, ip: '127.0.0.1' } as unknown as Request;
+
+    await callbackGuard.recordRejection(req, mtnMomoProvider, new CallbackRejectedError('missing_signature', 'Callback is not signed'));
+
+    const [rejected] = await storage.getRejectedCallbacks();
+    expect(rejected).toMatchObject({ provider: 'mtn_momo', reason: 'missing_signature', payload: { referenceId: 'ref-2' } });
+    expect(rejected.headers).toEqual({});
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, test, expect } from '@jest/globals';
+import { storage } from '../server/storage';
+import { orderStatusService, IllegalTransitionError } from '../server/services/order-status';
+import { paymentEventService } from '../server/services/payment-events';
+
+async function createOrder() {
+  const user = await storage.createUser({ telegramId: '3001' });
+  return await storage.createOrder({ userId: user.id, totalGhs: '40.00', customerPhone: '+233240000003' });
+}
+
+describe('Order status transitions', () => {
+  test('should move an order through fulfilment and record each step', async () => {
+    let order = await createOrder();
+    order = await orderStatusService.transitionOrder(order, 'PAID', 'webhook');
+    order = await orderStatusService.transitionOrder(order, 'PACKED', 'admin', { reason: 'Packed at the shop' });
+
+    expect(order.status).toBe('PACKED');
+    const history = await storage.getOrderStatusHistory(order.id);
+    expect(history.map(entry => [entry.fromStatus, entry.toStatus, entry.actor])).toEqual([
+      ['PENDING', 'PAID', 'webhook'],
+      ['PAID', 'PACKED', 'admin'],
+    ]);
+  });
+
+  test('should reject illegal transitions', async () => {
+    let order = await createOrder();
+    await expect(orderStatusService.transitionOrder(order, 'SHIPPED', 'admin')).rejects.toThrow(IllegalTransitionError);
+
+    order = await orderStatusService.transitionOrder(order, 'CANCELLED', 'customer');
+    await expect(orderStatusService.transitionOrder(order, 'PAID', 'webhook')).rejects.toThrow('Cannot change order status from CANCELLED to PAID');
+  });
+
+  test('should require a refund to take back a paid order', async () => {
+    let order = await createOrder();
+    order = await orderStatusService.transitionOrder(order, 'PAID', 'webhook');
+
+    await expect(orderStatusService.transitionOrder(order, 'REFUNDED', 'admin')).rejects.toThrow(IllegalTransitionError);
+    await expect(orderStatusService.transitionOrder(order, 'CANCELLED', 'admin')).rejects.toThrow(IllegalTransitionError);
+    order = await orderStatusService.transitionOrder(order, 'REFUNDED', 'reconciliation', { system: true });
+    expect(order.status).toBe('REFUNDED');
+  });
+
+  test('should not cancel a shipped order when its payment fails late', async () => {
+    let order = await createOrder();
+    const payment = await storage.createPayment({
+      orderId: order.id,
+      amountGhs: '40.00',
+      externalId: `ecom_${order.orderNumber}`,
+      customerPhone: '+233240000003',
+      idempotencyKey: `order:${order.id}`
+    });
+    for (const status of ['PAID', 'PACKED', 'SHIPPED'] as const) {
+      order = await orderStatusService.transitionOrder(order, status, 'admin');
+    }
+
+    await paymentEventService.recordStatus(payment, 'FAILED', 'webhook');
+
+    expect((await storage.getPayment(payment.id))?.status).toBe('FAILED');
+    expect((await storage.getOrder(order.id))?.status).toBe('SHIPPED');
+  });
+});
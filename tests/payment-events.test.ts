@@ -0,0 +1,130 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { storage } from '../server/storage';
+import { paymentEventService } from '../server/services/payment-events';
+import { mtnMomoService, MTN_STATUS_UNREACHABLE } from '../server/services/mtn-momo';
+import { mtnMomoProvider } from '../server/services/mtn-momo-provider';
+
+async function createPendingPayment() {
+  const user = await storage.createUser({ telegramId: '2001' });
+  const order = await storage.createOrder({ userId: user.id, totalGhs: '60.00', customerPhone: '+233240000002' });
+  const payment = await storage.createPayment({
+    orderId: order.id,
+    amountGhs: '60.00',
+    externalId: `ecom_${order.orderNumber}`,
+    customerPhone: '+233240000002',
+    idempotencyKey: `order:${order.id}`,
+    providerReference: '550e8400-e29b-41d4-a716-446655440000'
+  });
+  return { order, payment };
+}
+
+describe('Payment events', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should find payments by provider reference or external id', async () => {
+    const { payment } = await createPendingPayment();
+
+    expect((await paymentEventService.findPayment(mtnMomoProvider, payment.providerReference!))?.id).toBe(payment.id);
+    expect((await paymentEventService.findPayment(mtnMomoProvider, 'unknown-reference', payment.externalId))?.id).toBe(payment.id);
+    expect(await paymentEventService.findPayment(mtnMomoProvider, 'unknown-reference', 'unknown-external-id')).toBeUndefined();
+  });
+
+  test('should mark the payment and order once MTN confirms the callback', async () => {
+    const { order, payment } = await createPendingPayment();
+    jest.spyOn(mtnMomoService, 'checkPaymentStatus').mockResolvedValue({ status: 'SUCCESSFUL', financialTransactionId: '1234567890' });
+
+    const result = await paymentEventService.handleCallback(mtnMomoProvider, {
+      providerReference: payment.providerReference!,
+      status: 'SUCCESS',
+      amount: '60',
+      currency: mtnMomoProvider.getCurrency(),
+      payload: {}
+    });
+
+    expect(result?.status).toBe('SUCCESS');
+    expect((await storage.getPayment(payment.id))?.status).toBe('SUCCESS');
+    expect((await storage.getPayment(payment.id))?.financialTransactionId).toBe('1234567890');
+    expect((await storage.getOrder(order.id))?.status).toBe('PAID');
+  });
+
+  test('should queue a successful callback for reconciliation when MTN is unreachable', async () => {
+    const { order, payment } = await createPendingPayment();
+    jest.spyOn(mtnMomoService, 'checkPaymentStatus').mockResolvedValue({ status: MTN_STATUS_UNREACHABLE });
+
+    const result = await paymentEventService.handleCallback(mtnMomoProvider, {
+      providerReference: payment.providerReference!,
+      status: 'SUCCESS',
+      amount: '60.00',
+      currency: mtnMomoProvider.getCurrency(),
+      payload: {}
+    });
+
+    expect(result).toMatchObject({ status: 'PENDING', queued: true });
+    const stored = await storage.getPayment(payment.id);
+    expect(stored?.status).toBe('PENDING');
+    expect(stored?.verificationQueuedAt).toBeTruthy();
+    expect((await storage.getOrder(order.id))?.status).toBe('PENDING');
+  });
+
+  test('should reject a callback for a different amount before changing anything', async () => {
+    const { order, payment } = await createPendingPayment();
+
+    await expect(paymentEventService.handleCallback(mtnMomoProvider, {
+      providerReference: payment.providerReference!,
+      status: 'SUCCESS',
+      amount: '6.00',
+      currency: mtnMomoProvider.getCurrency(),
+      payload: {}
+    })).rejects.toMatchObject({ reason: 'amount_mismatch', status: 422 });
+
+    expect((await storage.getPayment(payment.id))?.status).toBe('PENDING');
+    expect((await storage.getOrder(order.id))?.status).toBe('PENDING');
+  });
+
+  test('should reject a successful callback that cannot be confirmed with MTN', async () => {
+    const { order, payment } = await createPendingPayment();
+    await storage.updatePayment(payment.id, { providerReference: null });
+
+    await expect(paymentEventService.handleCallback(mtnMomoProvider, {
+      externalId: payment.externalId,
+      status: 'SUCCESS',
+      amount: '60.00',
+      currency: mtnMomoProvider.getCurrency(),
+      payload: {}
+    })).rejects.toMatchObject({ reason: 'unverifiable_payment', status: 422 });
+
+    expect((await storage.getPayment(payment.id))?.status).toBe('PENDING');
+    expect((await storage.getOrder(order.id))?.status).toBe('PENDING');
+  });
+
+  test('should flag a cancelled order for a refund when its timed out payment succeeds', async () => {
+    const { order, payment } = await createPendingPayment();
+    await paymentEventService.recordStatus(payment, 'TIMEOUT', 'reconciliation');
+    jest.spyOn(mtnMomoService, 'checkPaymentStatus').mockResolvedValue({ status: 'SUCCESSFUL', financialTransactionId: '1234567891' });
+
+    const result = await paymentEventService.handleCallback(mtnMomoProvider, {
+      providerReference: payment.providerReference!,
+      status: 'SUCCESS',
+      amount: '60.00',
+      currency: mtnMomoProvider.getCurrency(),
+      payload: {}
+    });
+
+    expect(result.status).toBe('SUCCESS');
+    expect((await storage.getPayment(payment.id))?.status).toBe('SUCCESS');
+    const cancelled = await storage.getOrder(order.id);
+    expect(cancelled?.status).toBe('CANCELLED');
+    expect(cancelled?.refundDueAt).toBeTruthy();
+  });
+
+  test('should cancel the order when the payment times out', async () => {
+    const { order, payment } = await createPendingPayment();
+
+    await paymentEventService.recordStatus(payment, 'TIMEOUT', 'reconciliation');
+
+    expect((await storage.getPayment(payment.id))?.status).toBe('TIMEOUT');
+    expect((await storage.getOrder(order.id))?.status).toBe('CANCELLED');
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { storage } from '../server/storage';
+import { paymentProviders } from '../server/services/payment-provider';
+import { mtnMomoProvider } from '../server/services/mtn-momo-provider';
+import { mtnMomoService, MTN_STATUS_UNREACHABLE } from '../server/services/mtn-momo';
+
+describe('Payment providers', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should select the provider an order was placed with', async () => {
+    const user = await storage.createUser({ telegramId: '3001' });
+    const order = await storage.createOrder({ userId: user.id, totalGhs: '25.00', customerPhone: '+233240000003' });
+
+    expect(order.paymentProvider).toBe('mtn_momo');
+    expect(paymentProviders.forOrder(order)).toBe(mtnMomoProvider);
+    expect(() => paymentProviders.forOrder({ ...order, paymentProvider: 'unknown' })).toThrow('not available');
+  });
+
+  test('should map MTN statuses onto provider statuses', async () => {
+    jest.spyOn(mtnMomoService, 'checkPaymentStatus').mockResolvedValue({ status: 'SUCCESSFUL', financialTransactionId: '42' });
+    expect(await mtnMomoProvider.checkStatus('ref-1')).toMatchObject({ status: 'SUCCESS', unreachable: false, financialTransactionId: '42' });
+
+    jest.spyOn(mtnMomoService, 'checkPaymentStatus').mockResolvedValue({ status: 'REJECTED', reason: 'NOT_ENOUGH_FUNDS' });
+    expect(await mtnMomoProvider.checkStatus('ref-2')).toMatchObject({ status: 'FAILED', reason: 'NOT_ENOUGH_FUNDS' });
+
+    jest.spyOn(mtnMomoService, 'checkPaymentStatus').mockResolvedValue({ status: MTN_STATUS_UNREACHABLE });
+    expect(await mtnMomoProvider.checkStatus('ref-3')).toMatchObject({ status: 'PENDING', unreachable: true });
+  });
+});
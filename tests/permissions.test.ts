@@ -0,0 +1,35 @@
+import { describe, test, expect } from '@jest/globals';
+import { hasPermission, isRole, PERMISSIONS, type Permission } from '../shared/permissions';
+
+describe('Role permissions', () => {
+  test('admins should have every permission', () => {
+    for (const permission of Object.keys(PERMISSIONS) as Permission[]) {
+      expect(hasPermission('admin', permission)).toBe(true);
+    }
+  });
+
+  test('staff should handle day-to-day operations', () => {
+    expect(hasPermission('staff', 'orders:update')).toBe(true);
+    expect(hasPermission('staff', 'products:write')).toBe(true);
+    expect(hasPermission('staff', 'support:reply')).toBe(true);
+  });
+
+  test('staff should not manage credentials, users or money', () => {
+    expect(hasPermission('staff', 'settings:write')).toBe(false);
+    expect(hasPermission('staff', 'users:manage')).toBe(false);
+    expect(hasPermission('staff', 'refunds:issue')).toBe(false);
+    expect(hasPermission('staff', 'payments:reconcile')).toBe(false);
+    expect(hasPermission('staff', 'audit:read')).toBe(false);
+  });
+
+  test('unknown or missing roles should have no permissions', () => {
+    expect(hasPermission(undefined, 'dashboard:read')).toBe(false);
+    expect(hasPermission('customer', 'dashboard:read')).toBe(false);
+  });
+
+  test('object property names should not count as roles', () => {
+    expect(isRole('constructor')).toBe(false);
+    expect(isRole('toString')).toBe(false);
+    expect(hasPermission('constructor', 'dashboard:read')).toBe(false);
+  });
+});
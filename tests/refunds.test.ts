@@ -0,0 +1,70 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { storage } from '../server/storage';
+import { mtnMomoService } from '../server/services/mtn-momo';
+import { telegramService } from '../server/services/telegram';
+import { refundService } from '../server/services/refunds';
+
+async function createPaidOrder() {
+  const admin = await storage.createAdminUser({ email: 'refunds@example.com', password: 'hash', name: 'Refunds' });
+  const user = await storage.createUser({ telegramId: '4001' });
+  const order = await storage.createOrder({ userId: user.id, totalGhs: '50.00', customerPhone: '+233240000004', status: 'PAID' });
+  await storage.createPayment({
+    orderId: order.id,
+    amountGhs: '50.00',
+    status: 'SUCCESS',
+    externalId: `ecom_${order.orderNumber}`,
+    customerPhone: '+233240000004',
+    idempotencyKey: `order:${order.id}`,
+    providerReference: '550e8400-e29b-41d4-a716-446655440004'
+  });
+  return { admin, order };
+}
+
+describe('Refunds', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(telegramService, 'sendMessage').mockResolvedValue({ ok: true });
+    jest.spyOn(mtnMomoService, 'initiateRefund').mockResolvedValue({ referenceId: 'refund-reference', success: true });
+  });
+
+  test('should not refund more than was paid', async () => {
+    const { admin, order } = await createPaidOrder();
+
+    await refundService.issueRefund(order, '30', 'Damaged item', admin);
+    await expect(refundService.issueRefund(order, '25.00', null, admin)).rejects.toMatchObject({ status: 409 });
+
+    const summary = await refundService.getOrderRefunds(order.id);
+    expect(summary).toMatchObject({ pendingGhs: '30.00', refundableGhs: '20.00' });
+  });
+
+  test('should keep a refund pending when MTN may have taken it without answering', async () => {
+    const { admin, order } = await createPaidOrder();
+    jest.spyOn(mtnMomoService, 'initiateRefund').mockResolvedValue({
+      referenceId: 'refund-reference',
+      success: false,
+      outcomeUnknown: true,
+      error: 'The operation was aborted due to timeout'
+    });
+    jest.spyOn(mtnMomoService, 'checkRefundStatus').mockResolvedValue({ status: 'PENDING' });
+
+    const refund = await refundService.issueRefund(order, '50.00', null, admin);
+    expect(refund.status).toBe('PENDING');
+    expect(refund.providerReference).toBeTruthy();
+
+    expect(await refundService.reconcilePending()).toBe(0);
+    await expect(refundService.issueRefund(order, '50.00', null, admin)).rejects.toMatchObject({ status: 409 });
+  });
+
+  test('should mark the order refunded once reconciliation settles a full refund', async () => {
+    const { admin, order } = await createPaidOrder();
+    jest.spyOn(mtnMomoService, 'checkRefundStatus').mockResolvedValue({ status: 'SUCCESSFUL', financialTransactionId: '987654321' });
+
+    const refund = await refundService.issueRefund(order, '50.00', null, admin);
+    expect(refund).toMatchObject({ status: 'PENDING', providerReference: 'refund-reference' });
+
+    expect(await refundService.reconcilePending()).toBe(1);
+    expect((await storage.getRefund(refund.id))?.status).toBe('SUCCESS');
+    expect((await storage.getOrder(order.id))?.status).toBe('REFUNDED');
+    expect(telegramService.sendMessage).toHaveBeenCalledWith(4001, expect.stringContaining('₵50.00'));
+  });
+});
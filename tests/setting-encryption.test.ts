@@ -0,0 +1,57 @@
+import { describe, test, expect, afterEach } from '@jest/globals';
+import { eq } from 'drizzle-orm';
+import { randomBytes } from 'crypto';
+import { settingEncryption } from '../server/services/setting-encryption';
+import { storage } from '../server/storage';
+import { db } from '../server/db';
+import { systemSettings } from '../shared/schema';
+
+async function storedValue(key: string) {
+  const [row] = await db.select().from(systemSettings).where(eq(systemSettings.key, key));
+  return row;
+}
+
+describe('Secret settings encryption', () => {
+  afterEach(() => {
+    delete process.env.SETTINGS_ENCRYPTION_KEY;
+    delete process.env.SETTINGS_ENCRYPTION_KEY_PREVIOUS;
+    settingEncryption.reloadKeys();
+  });
+
+  test('should store secret settings encrypted and read them back in plaintext', async () => {
+    await storage.setSystemSetting({ key: 'TELEGRAM_BOT_TOKEN', value: '123456:telegram-token' });
+    await storage.setSystemSetting({ key: 'STORE_NAME', value: 'Accra Gadgets' });
+
+    const row = await storedValue('TELEGRAM_BOT_TOKEN');
+    expect(row.isEncrypted).toBe(true);
+    expect(row.value).not.toContain('telegram-token');
+    expect((await storage.getSystemSetting('TELEGRAM_BOT_TOKEN'))!.value).toBe('123456:telegram-token');
+
+    expect((await storedValue('STORE_NAME')).value).toBe('Accra Gadgets');
+  });
+
+  test('should mask secrets so they cannot be recovered from the mask', () => {
+    const masked = settingEncryption.mask('123456:telegram-token');
+    expect(masked).not.toContain('telegram');
+    expect(settingEncryption.isMask(masked)).toBe(true);
+    expect(settingEncryption.isMask('123456:telegram-token')).toBe(false);
+  });
+
+  test('should re-encrypt settings under a new master key', async () => {
+    const oldKey = randomBytes(32).toString('base64');
+    process.env.SETTINGS_ENCRYPTION_KEY = oldKey;
+    settingEncryption.reloadKeys();
+    await storage.setSystemSetting({ key: 'MTN_PRIMARY_KEY', value: 'primary-key-value' });
+
+    process.env.SETTINGS_ENCRYPTION_KEY = randomBytes(32).toString('base64');
+    process.env.SETTINGS_ENCRYPTION_KEY_PREVIOUS = oldKey;
+    settingEncryption.reloadKeys();
+    expect(await storage.reencryptSystemSettings()).toBe(1);
+
+    // Without the old key the setting is still readable, so the rotation is complete
+    delete process.env.SETTINGS_ENCRYPTION_KEY_PREVIOUS;
+    settingEncryption.reloadKeys();
+    expect((await storage.getSystemSetting('MTN_PRIMARY_KEY'))!.value).toBe('primary-key-value');
+    expect(await storage.reencryptSystemSettings()).toBe(0);
+  });
+});
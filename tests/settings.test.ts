@@ -0,0 +1,42 @@
+import { describe, test, expect } from '@jest/globals';
+import { SETTINGS, SETTINGS_BY_KEY, getSettingsInGroup, validateSetting } from '../shared/settings';
+import { settingsService, SettingValidationError } from '../server/services/settings';
+import { storage } from '../server/storage';
+
+describe('Settings registry', () => {
+  test('should normalise and validate values', () => {
+    expect(validateSetting(SETTINGS_BY_KEY.STORE_SUPPORT_EMAIL, ' help@example.com ')).toEqual({ value: 'help@example.com' });
+    expect(validateSetting(SETTINGS_BY_KEY.STORE_SUPPORT_EMAIL, 'not-an-email')).toHaveProperty('error');
+    expect(validateSetting(SETTINGS_BY_KEY.STORE_LOGO_URL, 'ftp://example.com/logo.png')).toHaveProperty('error');
+    expect(validateSetting(SETTINGS_BY_KEY.MTN_ENV, 'staging')).toHaveProperty('error');
+    expect(validateSetting(SETTINGS_BY_KEY.SHIPPING_FEE_GHS, '12.50')).toEqual({ value: '12.50' });
+  });
+
+  test('should allow empty optional settings but not required ones', () => {
+    expect(validateSetting(SETTINGS_BY_KEY.STORE_NAME, '')).toEqual({ value: '' });
+    expect(validateSetting(SETTINGS_BY_KEY.MTN_USER_ID, '')).toHaveProperty('error');
+  });
+
+  test('should keep keys unique and defaults valid', () => {
+    expect(new Set(SETTINGS.map(setting => setting.key)).size).toBe(SETTINGS.length);
+    for (const setting of SETTINGS) {
+      if (setting.default !== undefined) {
+        expect(validateSetting(setting, setting.default)).toEqual({ value: setting.default });
+      }
+    }
+  });
+
+  test('should leave settings managed elsewhere out of the settings form', () => {
+    expect(getSettingsInGroup('security')).toHaveLength(0);
+  });
+
+  test('should reject unknown and invalid settings on save', async () => {
+    await expect(settingsService.save('SOMETHING_ELSE', 'value')).rejects.toBeInstanceOf(SettingValidationError);
+    await expect(settingsService.save('STORE_SUPPORT_EMAIL', 'nope')).rejects.toBeInstanceOf(SettingValidationError);
+    expect(await storage.getSystemSetting('STORE_SUPPORT_EMAIL')).toBeUndefined();
+
+    const saved = await settingsService.save('STORE_NAME', '  Accra Gadgets  ');
+    expect(saved.value).toBe('Accra Gadgets');
+    expect(saved.description).toBe(SETTINGS_BY_KEY.STORE_NAME.description);
+  });
+});
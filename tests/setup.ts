@@ -24,9 +24,22 @@ async function clearDatabase() {
   // Clear all tables in the correct order (respecting foreign keys)
   const tables = [
     'audit_logs',
+    'system_settings',
+    'support_messages',
+    'support_tickets',
+    'admin_invitations',
+    'password_reset_tokens',
+    'stock_movements',
     'order_items',
+    'order_status_history',
+    'refunds',
+    'rejected_callbacks',
+    'webhook_nonces',
     'payments',
     'orders',
+    'checkout_sessions',
+    'cart_items',
+    'carts',
     'products',
     'categories',
     'coupons',
@@ -0,0 +1,88 @@
+import { describe, test, expect } from '@jest/globals';
+import { storage, InsufficientStockError, CouponUsageLimitError } from '../server/storage';
+
+async function createCheckout(stock: { first: number; second: number }) {
+  const user = await storage.createUser({ telegramId: '6001' });
+  const first = await storage.createProduct({ title: 'Shea Butter', sku: 'SHEA-1', priceGhs: '25.00', stock: stock.first });
+  const second = await storage.createProduct({ title: 'Kente Scarf', sku: 'KENTE-1', priceGhs: '80.00', stock: stock.second });
+  const order = { userId: user.id, totalGhs: '140.00', customerPhone: '+233240000006' };
+  const items = [
+    { productId: first.id, quantity: 2, priceGhs: '25.00' },
+    { productId: second.id, quantity: 1, priceGhs: '80.00' },
+  ];
+  return { first, second, order, items };
+}
+
+describe('Stock reservations', () => {
+  test('should reserve stock for every item with the order', async () => {
+    const { first, second, order, items } = await createCheckout({ first: 5, second: 3 });
+
+    const created = await storage.createOrderWithItems(order, items);
+
+    expect(created.stockStatus).toBe('RESERVED');
+    expect(await storage.getOrderItems(created.id)).toHaveLength(2);
+    expect((await storage.getProduct(first.id))?.stock).toBe(3);
+    expect((await storage.getProduct(second.id))?.stock).toBe(2);
+    expect(await storage.getStockMovements(first.id)).toEqual([
+      expect.objectContaining({ orderId: created.id, type: 'RESERVE', quantity: -2, stockAfter: 3 })
+    ]);
+  });
+
+  test('should roll back the whole order when one item is out of stock', async () => {
+    const { first, second, order, items } = await createCheckout({ first: 5, second: 0 });
+
+    await expect(storage.createOrderWithItems(order, items)).rejects.toThrow(InsufficientStockError);
+
+    expect(await storage.getAllOrders()).toHaveLength(0);
+    expect((await storage.getProduct(first.id))?.stock).toBe(5);
+    expect((await storage.getProduct(second.id))?.stock).toBe(0);
+    expect(await storage.getStockMovements(first.id)).toHaveLength(0);
+  });
+
+  test('should commit reserved stock only once', async () => {
+    const { first, order, items } = await createCheckout({ first: 5, second: 3 });
+    const created = await storage.createOrderWithItems(order, items);
+
+    expect(await storage.commitOrderStock(created.id)).toBe(true);
+    expect(await storage.commitOrderStock(created.id)).toBe(false);
+    // Committed stock is sold; a late release must not put it back
+    expect(await storage.releaseOrderStock(created.id, 'Payment failed')).toBe(false);
+
+    expect((await storage.getOrder(created.id))?.stockStatus).toBe('COMMITTED');
+    expect((await storage.getProduct(first.id))?.stock).toBe(3);
+    const movements = await storage.getStockMovements(first.id);
+    expect(movements.filter(movement => movement.type === 'COMMIT')).toHaveLength(1);
+  });
+
+  test('should return released stock only once', async () => {
+    const { first, second, order, items } = await createCheckout({ first: 5, second: 3 });
+    const created = await storage.createOrderWithItems(order, items);
+
+    const releases = await Promise.all([
+      storage.releaseOrderStock(created.id, 'Payment timed out'),
+      storage.releaseOrderStock(created.id, 'Order cancelled')
+    ]);
+
+    expect(releases.filter(Boolean)).toHaveLength(1);
+    expect(await storage.commitOrderStock(created.id)).toBe(false);
+    expect((await storage.getProduct(first.id))?.stock).toBe(5);
+    expect((await storage.getProduct(second.id))?.stock).toBe(3);
+    const movements = await storage.getStockMovements(first.id);
+    expect(movements.filter(movement => movement.type === 'RELEASE')).toHaveLength(1);
+  });
+
+  test('should hold a coupon use until the order is released', async () => {
+    const { order, items } = await createCheckout({ first: 5, second: 3 });
+    const coupon = await storage.createCoupon({ code: 'LASTONE', name: 'Last one', type: 'fixed', value: '5.00', maxUses: 1 });
+
+    const created = await storage.createOrderWithItems({ ...order, couponId: coupon.id }, items);
+    await expect(storage.createOrderWithItems({ ...order, couponId: coupon.id }, items)).rejects.toThrow(CouponUsageLimitError);
+    expect((await storage.getCoupon(coupon.id))?.usedCount).toBe(1);
+
+    await storage.releaseOrderStock(created.id, 'Payment timed out');
+    await storage.releaseOrderStock(created.id, 'Order cancelled');
+
+    expect((await storage.getCoupon(coupon.id))?.usedCount).toBe(0);
+    expect((await storage.getOrder(created.id))?.couponRedeemedAt).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import type { Request, Response } from 'express';
+import { storage } from '../server/storage';
+import { telegramService } from '../server/services/telegram';
+import { supportService } from '../server/services/support';
+
+async function sendText(telegramId: number, text: string) {
+  const req = {
+    body: { update_id: 1, message: { message_id: 1, from: { id: telegramId, first_name: 'Ama' }, chat: { id: telegramId }, text } }
+  } as unknown as Request;
+  const res = { sendStatus: jest.fn() } as unknown as Response;
+  await telegramService.handleWebhook(req, res);
+  expect(res.sendStatus).toHaveBeenCalledWith(200);
+}
+
+async function openTicket() {
+  const user = await storage.createUser({ telegramId: '9001' });
+  const ticket = await storage.openSupportTicket(user.id, '9001');
+  const staff = await storage.createAdminUser({ email: 'support@example.com', password: 'hash', name: 'Kofi' });
+  return { user, ticket, staff };
+}
+
+describe('Support chat', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(telegramService, 'sendMessage').mockResolvedValue({ ok: true });
+  });
+
+  test('should forward customer messages to the open ticket', async () => {
+    const { ticket } = await openTicket();
+
+    await sendText(9001, 'My parcel has not arrived');
+    await sendText(9001, 'Order #1042');
+
+    const messages = await storage.getSupportMessages(ticket.id);
+    expect(messages.map(message => [message.sender, message.body])).toEqual([
+      ['CUSTOMER', 'My parcel has not arrived'],
+      ['CUSTOMER', 'Order #1042'],
+    ]);
+  });
+
+  test('should mark staff replies delivered only when Telegram accepts them', async () => {
+    const { ticket, staff } = await openTicket();
+
+    const delivered = await supportService.reply(ticket, staff, 'It is on its way');
+    expect(delivered.deliveredAt).toBeTruthy();
+    expect(telegramService.sendMessage).toHaveBeenCalledWith(9001, expect.stringContaining('Kofi from support'));
+
+    jest.spyOn(telegramService, 'sendMessage').mockRejectedValue(new Error('Forbidden: bot was blocked by the user'));
+    const undelivered = await supportService.reply(ticket, staff, 'Are you still there?');
+    expect(undelivered.deliveredAt).toBeNull();
+  });
+});